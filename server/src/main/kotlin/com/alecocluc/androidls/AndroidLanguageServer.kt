@@ -10,6 +10,7 @@ import kotlinx.coroutines.*
 import org.eclipse.lsp4j.*
 import org.eclipse.lsp4j.jsonrpc.messages.Either
 import org.eclipse.lsp4j.jsonrpc.messages.Either3
+import org.eclipse.lsp4j.jsonrpc.services.JsonNotification
 import org.eclipse.lsp4j.services.*
 import java.io.File
 import java.net.URI
@@ -356,13 +357,7 @@ class AndroidLanguageServer : LanguageServer, LanguageClientAware {
                     uri.endsWith("build.gradle") || uri.endsWith("build.gradle.kts") -> {
                         log("Build file changed: $uri — reloading project model")
                         scope.launch {
-                            val root = workspaceRoot ?: return@launch
-                            val parser = GradleModelParser()
-                            projectModel = parser.parse(root)
-                            // Reinitialize lint engine with updated model
-                            if (::lintEngine.isInitialized) {
-                                lintEngine.updateProjectModel(projectModel)
-                            }
+                            reloadProjectModel()
                         }
                     }
                     uri.contains("/res/values/") && uri.endsWith(".xml") -> {
@@ -386,6 +381,66 @@ class AndroidLanguageServer : LanguageServer, LanguageClientAware {
         }
     }
 
+    // ─── Project Sync ─────────────────────────────────────────────────────────
+
+    /** Payload of the client's `android/syncProject` notification */
+    class SyncProjectParams {
+        var workspaceRoot: String? = null
+        var variants: List<String>? = null
+        var selectedVariant: String? = null
+        var applicationId: String? = null
+    }
+
+    /**
+     * Sent by the client after "Sync Project with Gradle" re-read the build files:
+     * reload the project model and re-lint the open documents against it.
+     */
+    @JsonNotification("android/syncProject")
+    fun syncProject(params: SyncProjectParams) {
+        log("Project sync requested (variant=${params.selectedVariant}, appId=${params.applicationId})")
+        scope.launch {
+            reloadProjectModel()
+            for ((_, doc) in openDocuments) {
+                lintDocument(doc)
+            }
+        }
+    }
+
+    /** Payload of the client's `android/variantChanged` notification */
+    class VariantChangedParams {
+        var module: String? = null
+        var moduleDir: String? = null
+        var variant: String? = null
+    }
+
+    /**
+     * Sent by the client when the build variant of a module changes: re-lint the
+     * module's open documents, whose sources and resources depend on the variant.
+     */
+    @JsonNotification("android/variantChanged")
+    fun variantChanged(params: VariantChangedParams) {
+        log("Build variant of ${params.module} changed to ${params.variant}")
+        val moduleDir = params.moduleDir?.let { File(it).absolutePath + File.separator }
+        scope.launch {
+            for ((uri, doc) in openDocuments) {
+                val path = runCatching { File(URI(uri)).absolutePath }.getOrNull()
+                if (moduleDir == null || path == null || path.startsWith(moduleDir)) {
+                    lintDocument(doc)
+                }
+            }
+        }
+    }
+
+    private fun reloadProjectModel() {
+        val root = workspaceRoot ?: return
+        val parser = GradleModelParser()
+        projectModel = parser.parse(root)
+        // Reinitialize lint engine with updated model
+        if (::lintEngine.isInitialized) {
+            lintEngine.updateProjectModel(projectModel)
+        }
+    }
+
     // ─── Lint Integration ─────────────────────────────────────────────────────
     
     private suspend fun lintDocument(doc: DocumentState, broadScope: Boolean = false) {
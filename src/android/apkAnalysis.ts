@@ -0,0 +1,308 @@
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+import { promisify } from 'util';
+import { ZipArchive, ZipEntry } from './zipArchive';
+import { XmlElementNode, androidAttribute, decodeBinaryXml, decodeProtoXml, formatXml } from './binaryXml';
+import { DexFileStats, DexPackageStats, mergeDexPackages, readDexFile } from './dexFile';
+
+const deflateRaw = promisify(zlib.deflateRaw);
+
+/**
+ * A file or directory of the archive. `rawSize` is what it takes in the archive;
+ * `downloadSize` estimates it compressed for delivery, which for stored (uncompressed)
+ * entries such as native libraries and `resources.arsc` is much smaller.
+ */
+export interface ArchiveNode {
+    name: string;
+    path: string;
+    rawSize: number;
+    downloadSize: number;
+    children?: ArchiveNode[];
+}
+
+export interface ManifestSummary {
+    packageName?: string;
+    versionCode?: string;
+    versionName?: string;
+    minSdk?: string;
+    targetSdk?: string;
+    debuggable: boolean;
+    permissions: string[];
+    /** Declared activities, services, receivers and providers */
+    components: Record<string, number>;
+}
+
+export interface NativeLibraries {
+    abi: string;
+    rawSize: number;
+    downloadSize: number;
+    libraries: { name: string; path: string; rawSize: number; downloadSize: number }[];
+}
+
+export interface ApkAnalysis {
+    file: string;
+    format: 'apk' | 'aab';
+    fileSize: number;
+    downloadSize: number;
+    tree: ArchiveNode;
+    /** Decoded `AndroidManifest.xml` */
+    manifest?: string;
+    manifestSummary?: ManifestSummary;
+    /** Why the manifest could not be decoded */
+    manifestError?: string;
+    dexFiles: Omit<DexFileStats, 'packages'>[];
+    dexPackages: DexPackageStats[];
+    /** Why DEX files could not be read, one message per file */
+    dexErrors: string[];
+    nativeLibraries: NativeLibraries[];
+}
+
+/**
+ * A file or directory of either archive, with its sizes in both. Sizes are 0 where it is missing.
+ */
+export interface ArchiveDiffNode {
+    name: string;
+    path: string;
+    oldRawSize: number;
+    newRawSize: number;
+    oldDownloadSize: number;
+    newDownloadSize: number;
+    children?: ArchiveDiffNode[];
+}
+
+export interface ApkComparison {
+    /** The archive compared against, usually the older one */
+    base: ApkAnalysis;
+    other: ApkAnalysis;
+    tree: ArchiveDiffNode;
+    /** Packages whose class or method counts differ */
+    dexPackages: { name: string; oldClasses: number; newClasses: number; oldMethods: number; newMethods: number }[];
+}
+
+const COMPONENT_TAGS = ['activity', 'activity-alias', 'service', 'receiver', 'provider'];
+
+/**
+ * Read an APK or app bundle: its file tree with sizes, its manifest, the classes and methods
+ * of its DEX files and its native libraries by ABI.
+ */
+export async function analyzeArchive(file: string): Promise<ApkAnalysis> {
+    const data = await fs.promises.readFile(file);
+    const archive = new ZipArchive(data);
+    const format = archive.getEntry('BundleConfig.pb') || file.toLowerCase().endsWith('.aab') ? 'aab' : 'apk';
+
+    const downloadSizes = new Map<ZipEntry, number>();
+    for (const entry of archive.entries) {
+        downloadSizes.set(entry, await estimateDownloadSize(archive, entry));
+    }
+
+    const tree = buildTree(archive.entries, downloadSizes);
+    const analysis: ApkAnalysis = {
+        file,
+        format,
+        fileSize: data.length,
+        downloadSize: tree.downloadSize,
+        tree,
+        dexFiles: [],
+        dexPackages: [],
+        dexErrors: [],
+        nativeLibraries: readNativeLibraries(archive.entries, downloadSizes, format)
+    };
+
+    readManifest(archive, format, analysis);
+
+    // APK: classes.dex, classes2.dex...; bundle: <module>/dex/classes.dex...
+    const dexPattern = format === 'aab' ? /^[^/]+\/dex\/[^/]+\.dex$/ : /^classes\d*\.dex$/;
+    const dexFiles: DexFileStats[] = [];
+    for (const entry of archive.entries.filter(entry => dexPattern.test(entry.name))) {
+        try {
+            dexFiles.push(readDexFile(entry.name, archive.read(entry)));
+        } catch (error) {
+            analysis.dexErrors.push(`Could not read ${entry.name}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+    analysis.dexFiles = dexFiles.map(stats => ({
+        name: stats.name,
+        classes: stats.classes,
+        definedMethods: stats.definedMethods,
+        referencedMethods: stats.referencedMethods
+    }));
+    analysis.dexPackages = mergeDexPackages(dexFiles);
+
+    return analysis;
+}
+
+/**
+ * What changed between two archives, file by file and package by package.
+ */
+export function compareArchives(base: ApkAnalysis, other: ApkAnalysis): ApkComparison {
+    const basePackages = new Map(base.dexPackages.map(p => [p.name, p]));
+    const otherPackages = new Map(other.dexPackages.map(p => [p.name, p]));
+    const packageNames = new Set([...basePackages.keys(), ...otherPackages.keys()]);
+
+    const dexPackages = Array.from(packageNames)
+        .map(name => ({
+            name,
+            oldClasses: basePackages.get(name)?.classes ?? 0,
+            newClasses: otherPackages.get(name)?.classes ?? 0,
+            oldMethods: basePackages.get(name)?.definedMethods ?? 0,
+            newMethods: otherPackages.get(name)?.definedMethods ?? 0
+        }))
+        .filter(p => p.oldClasses !== p.newClasses || p.oldMethods !== p.newMethods)
+        .sort((a, b) => Math.abs(b.newMethods - b.oldMethods) - Math.abs(a.newMethods - a.oldMethods));
+
+    return { base, other, tree: diffTrees(base.tree, other.tree), dexPackages };
+}
+
+/**
+ * Deflated entries already are what is downloaded; stored ones are compressed to estimate it.
+ */
+async function estimateDownloadSize(archive: ZipArchive, entry: ZipEntry): Promise<number> {
+    if (entry.method !== 0 || entry.size === 0) {
+        return entry.compressedSize;
+    }
+    const compressed = await deflateRaw(archive.read(entry));
+    return Math.min(entry.compressedSize, compressed.length);
+}
+
+function buildTree(entries: ZipEntry[], downloadSizes: Map<ZipEntry, number>): ArchiveNode {
+    const root: ArchiveNode = { name: '/', path: '', rawSize: 0, downloadSize: 0, children: [] };
+    const nodesByPath = new Map<string, ArchiveNode>([['', root]]);
+
+    for (const entry of entries) {
+        if (entry.name.endsWith('/')) {
+            continue;
+        }
+        const rawSize = entry.compressedSize;
+        const downloadSize = downloadSizes.get(entry) ?? rawSize;
+        root.rawSize += rawSize;
+        root.downloadSize += downloadSize;
+
+        let parent = root;
+        const segments = entry.name.split('/');
+        segments.forEach((segment, index) => {
+            const nodePath = segments.slice(0, index + 1).join('/');
+            let node = nodesByPath.get(nodePath);
+            if (!node) {
+                node = {
+                    name: segment,
+                    path: nodePath,
+                    rawSize: 0,
+                    downloadSize: 0,
+                    children: index < segments.length - 1 ? [] : undefined
+                };
+                nodesByPath.set(nodePath, node);
+                parent.children?.push(node);
+            }
+            node.rawSize += rawSize;
+            node.downloadSize += downloadSize;
+            parent = node;
+        });
+    }
+
+    sortTree(root);
+    return root;
+}
+
+function sortTree(node: ArchiveNode): void {
+    node.children?.sort((a, b) => b.rawSize - a.rawSize);
+    node.children?.forEach(sortTree);
+}
+
+/** APK: lib/<abi>/*.so; bundle: <module>/lib/<abi>/*.so */
+function readNativeLibraries(entries: ZipEntry[], downloadSizes: Map<ZipEntry, number>, format: 'apk' | 'aab'): NativeLibraries[] {
+    const pattern = format === 'aab' ? /^[^/]+\/lib\/([^/]+)\/([^/]+\.so)$/ : /^lib\/([^/]+)\/([^/]+\.so)$/;
+    const byAbi = new Map<string, NativeLibraries>();
+
+    for (const entry of entries) {
+        const match = pattern.exec(entry.name);
+        if (!match) {
+            continue;
+        }
+        let abi = byAbi.get(match[1]);
+        if (!abi) {
+            abi = { abi: match[1], rawSize: 0, downloadSize: 0, libraries: [] };
+            byAbi.set(match[1], abi);
+        }
+        const downloadSize = downloadSizes.get(entry) ?? entry.compressedSize;
+        abi.libraries.push({ name: match[2], path: entry.name, rawSize: entry.compressedSize, downloadSize });
+        abi.rawSize += entry.compressedSize;
+        abi.downloadSize += downloadSize;
+    }
+
+    const abis = Array.from(byAbi.values());
+    abis.forEach(abi => abi.libraries.sort((a, b) => b.rawSize - a.rawSize));
+    return abis.sort((a, b) => a.abi.localeCompare(b.abi));
+}
+
+function readManifest(archive: ZipArchive, format: 'apk' | 'aab', analysis: ApkAnalysis): void {
+    const entryName = format === 'aab' ? 'base/manifest/AndroidManifest.xml' : 'AndroidManifest.xml';
+    const entry = archive.getEntry(entryName);
+    if (!entry) {
+        analysis.manifestError = `${entryName} not found`;
+        return;
+    }
+
+    try {
+        const data = archive.read(entry);
+        const root = format === 'aab' ? decodeProtoXml(data) : decodeBinaryXml(data);
+        analysis.manifest = formatXml(root);
+        analysis.manifestSummary = summarizeManifest(root);
+    } catch (error) {
+        analysis.manifestError = `Could not decode ${entryName}: ${error instanceof Error ? error.message : String(error)}`;
+    }
+}
+
+function summarizeManifest(manifest: XmlElementNode): ManifestSummary {
+    const elements = (parent: XmlElementNode, name: string) =>
+        parent.children.filter((c): c is XmlElementNode => typeof c !== 'string' && c.name === name);
+    const usesSdk = elements(manifest, 'uses-sdk')[0];
+    const application = elements(manifest, 'application')[0];
+
+    const components: Record<string, number> = {};
+    if (application) {
+        for (const tag of COMPONENT_TAGS) {
+            const count = elements(application, tag).length;
+            if (count > 0) {
+                components[tag] = count;
+            }
+        }
+    }
+
+    return {
+        packageName: manifest.attributes.find(a => a.name === 'package')?.value,
+        versionCode: androidAttribute(manifest, 'versionCode'),
+        versionName: androidAttribute(manifest, 'versionName'),
+        minSdk: usesSdk && androidAttribute(usesSdk, 'minSdkVersion'),
+        targetSdk: usesSdk && androidAttribute(usesSdk, 'targetSdkVersion'),
+        debuggable: application ? androidAttribute(application, 'debuggable') === 'true' : false,
+        permissions: [...elements(manifest, 'uses-permission'), ...elements(manifest, 'uses-permission-sdk-23')]
+            .map(permission => androidAttribute(permission, 'name'))
+            .filter((name): name is string => !!name)
+            .sort(),
+        components
+    };
+}
+
+function diffTrees(base: ArchiveNode | undefined, other: ArchiveNode | undefined, name = '/', nodePath = ''): ArchiveDiffNode {
+    const diff: ArchiveDiffNode = {
+        name,
+        path: nodePath,
+        oldRawSize: base?.rawSize ?? 0,
+        newRawSize: other?.rawSize ?? 0,
+        oldDownloadSize: base?.downloadSize ?? 0,
+        newDownloadSize: other?.downloadSize ?? 0
+    };
+
+    if (base?.children || other?.children) {
+        const baseChildren = new Map((base?.children ?? []).map(child => [child.name, child]));
+        const otherChildren = new Map((other?.children ?? []).map(child => [child.name, child]));
+        const names = new Set([...baseChildren.keys(), ...otherChildren.keys()]);
+        diff.children = Array.from(names)
+            .map(childName => {
+                const child = otherChildren.get(childName) ?? baseChildren.get(childName);
+                return diffTrees(baseChildren.get(childName), otherChildren.get(childName), childName, child?.path ?? childName);
+            })
+            .sort((a, b) => Math.abs(b.newRawSize - b.oldRawSize) - Math.abs(a.newRawSize - a.oldRawSize));
+    }
+    return diff;
+}
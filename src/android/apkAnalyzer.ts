@@ -0,0 +1,920 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ApkAnalysis, ApkComparison, analyzeArchive, compareArchives } from './apkAnalysis';
+import { DEX_METHOD_LIMIT } from './dexFile';
+import { ModuleRegistry } from '../build/moduleRegistry';
+import { VariantManager } from '../build/variantManager';
+
+/**
+ * `output-metadata.json`, written by AGP next to the APKs of a variant
+ */
+interface OutputMetadata {
+    elements?: { outputFile?: string }[];
+}
+
+/**
+ * Messages sent FROM the webview TO the extension
+ */
+type WebviewToExtensionMessage =
+    | { type: 'openArchive' }
+    | { type: 'compareWith' }
+    | { type: 'closeComparison' }
+    | { type: 'openManifest' };
+
+/**
+ * Messages sent FROM the extension TO the webview
+ */
+type ExtensionToWebviewMessage =
+    | { type: 'update'; data: AnalyzerData };
+
+type AnalyzerData =
+    | { mode: 'empty' }
+    | { mode: 'single'; analysis: ApkAnalysis; methodLimit: number }
+    | { mode: 'compare'; comparison: ApkComparison };
+
+/**
+ * APK Analyzer: the file tree of an APK or app bundle with raw and download sizes, its
+ * decoded manifest, classes and methods per package and native libraries per ABI, or what
+ * changed compared with another archive. Everything is read locally, without the SDK tools.
+ */
+export class ApkAnalyzerPanel implements vscode.Disposable {
+    private static instance: ApkAnalyzerPanel | undefined;
+    private panel: vscode.WebviewPanel | undefined;
+    private analysis: ApkAnalysis | undefined;
+    private comparison: ApkComparison | undefined;
+
+    private constructor(
+        private readonly moduleRegistry?: ModuleRegistry,
+        private readonly variantManager?: VariantManager
+    ) {}
+
+    public static getInstance(moduleRegistry?: ModuleRegistry, variantManager?: VariantManager): ApkAnalyzerPanel {
+        if (!ApkAnalyzerPanel.instance) {
+            ApkAnalyzerPanel.instance = new ApkAnalyzerPanel(moduleRegistry, variantManager);
+        }
+        return ApkAnalyzerPanel.instance;
+    }
+
+    /**
+     * Analyze an APK or app bundle, asking for one when no file is given.
+     */
+    public async analyze(file?: string): Promise<void> {
+        const target = file ?? await this.pickArchive('Select an APK or app bundle to analyze');
+        if (!target) {
+            return;
+        }
+
+        const analysis = await this.read(target);
+        if (analysis) {
+            this.analysis = analysis;
+            this.comparison = undefined;
+            this.show();
+        }
+    }
+
+    /**
+     * Compare the analyzed archive with another one, which is treated as the older build.
+     */
+    public async compareWith(file?: string): Promise<void> {
+        if (!this.analysis) {
+            await this.analyze();
+            if (!this.analysis) {
+                return;
+            }
+        }
+
+        const target = file ?? await this.pickArchive(`Select an APK or app bundle to compare ${path.basename(this.analysis.file)} with`);
+        if (!target) {
+            return;
+        }
+
+        const base = await this.read(target);
+        if (base && this.analysis) {
+            this.comparison = compareArchives(base, this.analysis);
+            this.show();
+        }
+    }
+
+    private async read(file: string): Promise<ApkAnalysis | undefined> {
+        try {
+            return await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: `Android: Analyzing ${path.basename(file)}` },
+                () => analyzeArchive(file)
+            );
+        } catch (error) {
+            vscode.window.showErrorMessage(`Android Linter: Could not analyze ${path.basename(file)}: ${error instanceof Error ? error.message : String(error)}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * The APKs and bundles built for the selected variants, or a file from the file system.
+     */
+    private async pickArchive(placeHolder: string): Promise<string | undefined> {
+        const browse = { label: '$(folder-opened) Browse...', file: undefined as string | undefined };
+        const candidates = this.findVariantOutputs().map(output => ({
+            label: path.basename(output.file),
+            description: `${output.module} · ${output.variant}`,
+            detail: vscode.workspace.asRelativePath(output.file),
+            file: output.file as string | undefined
+        }));
+
+        const picked = candidates.length > 0
+            ? await vscode.window.showQuickPick([...candidates, browse], { placeHolder, title: 'APK Analyzer' })
+            : browse;
+        if (!picked) {
+            return undefined;
+        }
+        if (picked.file) {
+            return picked.file;
+        }
+
+        const uris = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            openLabel: 'Analyze',
+            filters: { 'Android packages': ['apk', 'aab'] }
+        });
+        return uris?.[0]?.fsPath;
+    }
+
+    private findVariantOutputs(): { file: string; module: string; variant: string }[] {
+        if (!this.moduleRegistry || !this.variantManager) {
+            return [];
+        }
+
+        const outputs: { file: string; module: string; variant: string }[] = [];
+        for (const module of this.moduleRegistry.getModules(['application'])) {
+            const variant = this.variantManager.getCurrentVariant(module.path);
+            const dirs = this.variantManager.getOutputDirs(module);
+            for (const file of [...readApkOutputs(dirs.apk), ...listFiles(dirs.bundle, '.aab')]) {
+                outputs.push({ file, module: module.path, variant });
+            }
+        }
+        return outputs;
+    }
+
+    private show(): void {
+        if (this.panel) {
+            this.panel.reveal(vscode.ViewColumn.One);
+            this.update();
+            return;
+        }
+
+        this.panel = vscode.window.createWebviewPanel(
+            'androidApkAnalyzer',
+            'APK Analyzer',
+            vscode.ViewColumn.One,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            }
+        );
+
+        this.panel.webview.html = this.getWebviewContent();
+
+        this.panel.webview.onDidReceiveMessage(
+            message => this.handleWebviewMessage(message),
+            undefined
+        );
+
+        this.panel.onDidDispose(() => {
+            this.panel = undefined;
+        });
+
+        this.update();
+    }
+
+    private update(): void {
+        if (!this.panel) {
+            return;
+        }
+
+        if (this.analysis) {
+            this.panel.title = `APK Analyzer: ${path.basename(this.analysis.file)}`;
+        }
+        const data: AnalyzerData = this.comparison
+            ? { mode: 'compare', comparison: this.comparison }
+            : this.analysis
+                ? { mode: 'single', analysis: this.analysis, methodLimit: DEX_METHOD_LIMIT }
+                : { mode: 'empty' };
+        const message: ExtensionToWebviewMessage = { type: 'update', data };
+        this.panel.webview.postMessage(message);
+    }
+
+    private async handleWebviewMessage(message: WebviewToExtensionMessage): Promise<void> {
+        switch (message.type) {
+            case 'openArchive':
+                await this.analyze();
+                break;
+            case 'compareWith':
+                await this.compareWith();
+                break;
+            case 'closeComparison':
+                this.comparison = undefined;
+                this.update();
+                break;
+            case 'openManifest':
+                if (this.analysis?.manifest) {
+                    const document = await vscode.workspace.openTextDocument({ language: 'xml', content: this.analysis.manifest });
+                    await vscode.window.showTextDocument(document, { viewColumn: vscode.ViewColumn.Beside });
+                }
+                break;
+        }
+    }
+
+    private getWebviewContent(): string {
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>APK Analyzer</title>
+    <style>
+        * {
+            box-sizing: border-box;
+        }
+
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            padding: 12px 20px;
+        }
+
+        h1 {
+            font-size: 16px;
+            font-weight: 600;
+            margin: 16px 0 0;
+        }
+
+        h2 {
+            font-size: 13px;
+            font-weight: 600;
+            text-transform: uppercase;
+            margin: 24px 0 8px;
+            opacity: 0.8;
+        }
+
+        #toolbar {
+            display: flex;
+            gap: 8px;
+            align-items: center;
+        }
+
+        button {
+            padding: 4px 10px;
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            border-radius: 2px;
+            cursor: pointer;
+        }
+
+        button.secondary {
+            background-color: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+        }
+
+        input {
+            background-color: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border, transparent);
+            padding: 3px 6px;
+            width: 260px;
+        }
+
+        .subtitle {
+            opacity: 0.7;
+        }
+
+        /* Summary cards */
+        #cards {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 12px;
+            margin-top: 16px;
+        }
+
+        .card {
+            min-width: 120px;
+            padding: 10px 14px;
+            border: 1px solid var(--vscode-widget-border);
+            border-radius: 4px;
+        }
+
+        .card .value {
+            font-size: 20px;
+            font-weight: 600;
+        }
+
+        .card .label {
+            opacity: 0.8;
+        }
+
+        .larger { color: var(--vscode-errorForeground); }
+        .smaller { color: var(--vscode-charts-green); }
+        .near-limit { color: var(--vscode-editorWarning-foreground); }
+
+        .columns {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 32px;
+        }
+
+        .columns > div {
+            flex: 1;
+            min-width: 280px;
+        }
+
+        /* File tree */
+        .tree-row {
+            display: flex;
+            align-items: center;
+            padding: 1px 0;
+        }
+
+        .tree-row:hover {
+            background-color: var(--vscode-list-hoverBackground);
+        }
+
+        .tree-name {
+            flex: 1;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+
+        .tree-name.dir {
+            cursor: pointer;
+        }
+
+        .tree-size {
+            width: 110px;
+            text-align: right;
+            padding-right: 8px;
+        }
+
+        .tree-header {
+            font-weight: 600;
+            opacity: 0.8;
+            border-bottom: 1px solid var(--vscode-widget-border);
+        }
+
+        /* Bar lists */
+        .bar-row {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            margin: 3px 0;
+        }
+
+        .bar-label {
+            width: 40%;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+
+        .bar {
+            height: 10px;
+            background-color: var(--vscode-charts-blue);
+            border-radius: 2px;
+        }
+
+        .bar-count {
+            opacity: 0.8;
+        }
+
+        table {
+            border-collapse: collapse;
+            width: 100%;
+        }
+
+        th {
+            text-align: left;
+            font-weight: 600;
+            padding: 3px 8px 3px 0;
+            opacity: 0.8;
+        }
+
+        td {
+            padding: 3px 8px 3px 0;
+            vertical-align: top;
+        }
+
+        td.number, th.number {
+            text-align: right;
+        }
+
+        ul {
+            margin: 4px 0;
+            padding-left: 20px;
+        }
+
+        pre {
+            max-height: 400px;
+            overflow: auto;
+            padding: 8px;
+            background-color: var(--vscode-textCodeBlock-background);
+            font-family: var(--vscode-editor-font-family);
+            font-size: var(--vscode-editor-font-size);
+        }
+
+        .empty {
+            opacity: 0.7;
+            font-style: italic;
+        }
+    </style>
+</head>
+<body>
+    <div id="toolbar">
+        <button id="open-btn">Open APK...</button>
+        <button id="compare-btn" class="secondary">Compare with...</button>
+        <button id="close-compare-btn" class="secondary">Close Comparison</button>
+        <button id="manifest-btn" class="secondary">Open Manifest</button>
+    </div>
+
+    <div id="content"></div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+        const MAX_PACKAGES = 200;
+
+        document.getElementById('open-btn').addEventListener('click', () => {
+            vscode.postMessage({ type: 'openArchive' });
+        });
+
+        document.getElementById('compare-btn').addEventListener('click', () => {
+            vscode.postMessage({ type: 'compareWith' });
+        });
+
+        document.getElementById('close-compare-btn').addEventListener('click', () => {
+            vscode.postMessage({ type: 'closeComparison' });
+        });
+
+        document.getElementById('manifest-btn').addEventListener('click', () => {
+            vscode.postMessage({ type: 'openManifest' });
+        });
+
+        window.addEventListener('message', event => {
+            const msg = event.data;
+            switch (msg.type) {
+                case 'update':
+                    render(msg.data);
+                    break;
+            }
+        });
+
+        function render(data) {
+            const content = document.getElementById('content');
+            content.innerHTML = '';
+            document.getElementById('compare-btn').style.display = data.mode === 'empty' ? 'none' : '';
+            document.getElementById('close-compare-btn').style.display = data.mode === 'compare' ? '' : 'none';
+            document.getElementById('manifest-btn').style.display =
+                data.mode === 'single' && data.analysis.manifest ? '' : 'none';
+
+            if (data.mode === 'single') {
+                renderAnalysis(content, data.analysis, data.methodLimit);
+            } else if (data.mode === 'compare') {
+                renderComparison(content, data.comparison);
+            } else {
+                content.appendChild(emptyMessage('Open an APK or app bundle to analyze it'));
+            }
+        }
+
+        // ── Single archive ──────────────────────────────────────────
+
+        function renderAnalysis(content, analysis, methodLimit) {
+            const manifest = analysis.manifestSummary;
+            content.appendChild(heading('h1', fileName(analysis.file)));
+            content.appendChild(subtitle(analysis.file));
+
+            const methodReferences = analysis.dexFiles.reduce((sum, dex) => sum + dex.referencedMethods, 0);
+            const classes = analysis.dexFiles.reduce((sum, dex) => sum + dex.classes, 0);
+            content.appendChild(cards([
+                ['File Size', formatBytes(analysis.fileSize)],
+                ['Download Size (est.)', formatBytes(analysis.downloadSize)],
+                ['Classes', classes],
+                ['Method References', methodReferences],
+                ['Version', manifest ? (manifest.versionName || '?') + ' (' + (manifest.versionCode || '?') + ')' : '—'],
+                ['Min / Target SDK', manifest ? (manifest.minSdk || '?') + ' / ' + (manifest.targetSdk || '?') : '—']
+            ]));
+
+            content.appendChild(heading('h2', 'Files'));
+            const tree = document.createElement('div');
+            tree.appendChild(treeHeader(['Raw Size', 'Download Size', '% of Download']));
+            for (const child of analysis.tree.children || []) {
+                appendTreeNode(tree, child, 0, node => [
+                    formatBytes(node.rawSize),
+                    formatBytes(node.downloadSize),
+                    percent(node.downloadSize, analysis.downloadSize)
+                ]);
+            }
+            content.appendChild(tree);
+
+            const columns = document.createElement('div');
+            columns.className = 'columns';
+            const manifestColumn = document.createElement('div');
+            const nativeColumn = document.createElement('div');
+            columns.appendChild(manifestColumn);
+            columns.appendChild(nativeColumn);
+            content.appendChild(columns);
+
+            renderManifest(manifestColumn, analysis);
+            renderNativeLibraries(nativeColumn, analysis.nativeLibraries);
+            renderDex(content, analysis, methodLimit);
+
+            if (analysis.manifest) {
+                content.appendChild(heading('h2', 'AndroidManifest.xml'));
+                const pre = document.createElement('pre');
+                pre.textContent = analysis.manifest;
+                content.appendChild(pre);
+            }
+        }
+
+        function renderManifest(container, analysis) {
+            container.appendChild(heading('h2', 'Manifest'));
+            const manifest = analysis.manifestSummary;
+            if (!manifest) {
+                container.appendChild(emptyMessage(analysis.manifestError || 'No manifest'));
+                return;
+            }
+
+            const rows = [
+                ['Package', manifest.packageName || '?'],
+                ['Debuggable', manifest.debuggable ? 'Yes' : 'No'],
+                ...Object.entries(manifest.components).map(([tag, count]) => [tag, count])
+            ];
+            container.appendChild(table(['', ''], rows, []));
+
+            const permissionsTitle = document.createElement('p');
+            permissionsTitle.textContent = manifest.permissions.length + ' permission(s)';
+            container.appendChild(permissionsTitle);
+            const list = document.createElement('ul');
+            for (const permission of manifest.permissions) {
+                const item = document.createElement('li');
+                item.textContent = permission;
+                list.appendChild(item);
+            }
+            container.appendChild(list);
+        }
+
+        function renderNativeLibraries(container, abis) {
+            container.appendChild(heading('h2', 'Native Libraries'));
+            if (abis.length === 0) {
+                container.appendChild(emptyMessage('No native libraries'));
+                return;
+            }
+
+            for (const abi of abis) {
+                const title = document.createElement('p');
+                title.textContent = abi.abi + ': ' + abi.libraries.length + ' librar' + (abi.libraries.length === 1 ? 'y' : 'ies') +
+                    ', ' + formatBytes(abi.rawSize) + ' raw, ' + formatBytes(abi.downloadSize) + ' download';
+                container.appendChild(title);
+                container.appendChild(bars(abi.libraries.map(lib => [lib.name, lib.rawSize, formatBytes(lib.rawSize)])));
+            }
+        }
+
+        function renderDex(content, analysis, methodLimit) {
+            content.appendChild(heading('h2', 'DEX Files'));
+            for (const error of analysis.dexErrors) {
+                content.appendChild(emptyMessage(error));
+            }
+            if (analysis.dexFiles.length === 0) {
+                if (analysis.dexErrors.length === 0) {
+                    content.appendChild(emptyMessage('No DEX files'));
+                }
+                return;
+            }
+
+            content.appendChild(table(
+                ['File', 'Classes', 'Defined Methods', 'Method References', '% of ' + methodLimit],
+                analysis.dexFiles.map(dex => [
+                    dex.name,
+                    dex.classes,
+                    dex.definedMethods,
+                    dex.referencedMethods,
+                    percent(dex.referencedMethods, methodLimit)
+                ]),
+                [1, 2, 3, 4],
+                (row, dex) => {
+                    if (dex[3] > methodLimit * 0.9) {
+                        row.className = 'near-limit';
+                    }
+                }
+            ));
+
+            content.appendChild(heading('h2', 'Packages'));
+            const filter = document.createElement('input');
+            filter.placeholder = 'Filter packages';
+            content.appendChild(filter);
+            const packages = document.createElement('div');
+            content.appendChild(packages);
+
+            const renderPackages = () => {
+                const text = filter.value.trim().toLowerCase();
+                const matching = analysis.dexPackages.filter(p => p.name.toLowerCase().includes(text));
+                packages.innerHTML = '';
+                packages.appendChild(table(
+                    ['Package', 'Classes', 'Defined Methods', 'Method References'],
+                    matching.slice(0, MAX_PACKAGES).map(p => [p.name, p.classes, p.definedMethods, p.referencedMethods]),
+                    [1, 2, 3]
+                ));
+                if (matching.length > MAX_PACKAGES) {
+                    packages.appendChild(emptyMessage((matching.length - MAX_PACKAGES) + ' more; filter to narrow down'));
+                }
+            };
+            filter.addEventListener('input', renderPackages);
+            renderPackages();
+        }
+
+        // ── Comparison ──────────────────────────────────────────────
+
+        function renderComparison(content, comparison) {
+            const { base, other } = comparison;
+            content.appendChild(heading('h1', fileName(base.file) + ' → ' + fileName(other.file)));
+            content.appendChild(subtitle(base.file + ' → ' + other.file));
+
+            const total = (analysis, key) => analysis.dexFiles.reduce((sum, dex) => sum + dex[key], 0);
+            content.appendChild(cards([
+                ['File Size', formatBytes(other.fileSize), other.fileSize - base.fileSize, true],
+                ['Download Size (est.)', formatBytes(other.downloadSize), other.downloadSize - base.downloadSize, true],
+                ['Classes', total(other, 'classes'), total(other, 'classes') - total(base, 'classes'), false],
+                ['Method References', total(other, 'referencedMethods'),
+                    total(other, 'referencedMethods') - total(base, 'referencedMethods'), false]
+            ]));
+
+            content.appendChild(heading('h2', 'Changed Files'));
+            const changed = (comparison.tree.children || []).filter(isChanged);
+            if (changed.length === 0) {
+                content.appendChild(emptyMessage('Both archives contain the same files with the same sizes'));
+            } else {
+                const tree = document.createElement('div');
+                tree.appendChild(treeHeader(['Old Size', 'New Size', 'Difference', 'Download Diff.']));
+                for (const child of changed) {
+                    appendTreeNode(tree, child, 0, node => [
+                        formatBytes(node.oldRawSize),
+                        formatBytes(node.newRawSize),
+                        delta(node.newRawSize - node.oldRawSize, true),
+                        delta(node.newDownloadSize - node.oldDownloadSize, true)
+                    ], isChanged);
+                }
+                content.appendChild(tree);
+            }
+
+            content.appendChild(heading('h2', 'Changed Packages'));
+            if (comparison.dexPackages.length === 0) {
+                content.appendChild(emptyMessage('No package gained or lost classes or methods'));
+            } else {
+                content.appendChild(table(
+                    ['Package', 'Classes', 'Difference', 'Defined Methods', 'Difference'],
+                    comparison.dexPackages.slice(0, MAX_PACKAGES).map(p => [
+                        p.name,
+                        p.oldClasses + ' → ' + p.newClasses,
+                        delta(p.newClasses - p.oldClasses, false),
+                        p.oldMethods + ' → ' + p.newMethods,
+                        delta(p.newMethods - p.oldMethods, false)
+                    ]),
+                    [1, 2, 3, 4]
+                ));
+            }
+        }
+
+        function isChanged(node) {
+            return node.oldRawSize !== node.newRawSize || node.oldDownloadSize !== node.newDownloadSize;
+        }
+
+        // ── Building blocks ─────────────────────────────────────────
+
+        function cards(entries) {
+            const container = document.createElement('div');
+            container.id = 'cards';
+            for (const [label, value, change, isBytes] of entries) {
+                const card = document.createElement('div');
+                card.className = 'card';
+                const valueDiv = document.createElement('div');
+                valueDiv.className = 'value';
+                valueDiv.textContent = value;
+                const labelDiv = document.createElement('div');
+                labelDiv.className = 'label';
+                labelDiv.textContent = label;
+                card.appendChild(valueDiv);
+                card.appendChild(labelDiv);
+                if (change !== undefined) {
+                    card.appendChild(delta(change, isBytes));
+                }
+                container.appendChild(card);
+            }
+            return container;
+        }
+
+        function treeHeader(columns) {
+            const row = document.createElement('div');
+            row.className = 'tree-row tree-header';
+            const name = document.createElement('span');
+            name.className = 'tree-name';
+            name.textContent = 'Path';
+            row.appendChild(name);
+            for (const column of columns) {
+                const cell = document.createElement('span');
+                cell.className = 'tree-size';
+                cell.textContent = column;
+                row.appendChild(cell);
+            }
+            return row;
+        }
+
+        /** Directories expand on click; cells are text or elements */
+        function appendTreeNode(container, node, depth, cellsOf, include) {
+            const row = document.createElement('div');
+            row.className = 'tree-row';
+
+            const name = document.createElement('span');
+            name.className = 'tree-name' + (node.children ? ' dir' : '');
+            name.style.paddingLeft = (depth * 16) + 'px';
+            name.textContent = (node.children ? '▸ ' : '  ') + node.name;
+            name.title = node.path;
+            row.appendChild(name);
+
+            for (const value of cellsOf(node)) {
+                const cell = document.createElement('span');
+                cell.className = 'tree-size';
+                if (value instanceof Node) {
+                    cell.appendChild(value);
+                } else {
+                    cell.textContent = value;
+                }
+                row.appendChild(cell);
+            }
+            container.appendChild(row);
+
+            if (node.children) {
+                const children = document.createElement('div');
+                children.style.display = 'none';
+                let rendered = false;
+                name.addEventListener('click', () => {
+                    const expand = children.style.display === 'none';
+                    if (expand && !rendered) {
+                        for (const child of node.children.filter(c => !include || include(c))) {
+                            appendTreeNode(children, child, depth + 1, cellsOf, include);
+                        }
+                        rendered = true;
+                    }
+                    children.style.display = expand ? '' : 'none';
+                    name.textContent = (expand ? '▾ ' : '▸ ') + node.name;
+                });
+                container.appendChild(children);
+            }
+        }
+
+        /** Numeric columns are right-aligned; cells are text or elements */
+        function table(headers, rows, numericColumns, decorate) {
+            const tableEl = document.createElement('table');
+            if (headers.some(Boolean)) {
+                const header = document.createElement('tr');
+                headers.forEach((title, i) => {
+                    const th = document.createElement('th');
+                    th.textContent = title;
+                    if (numericColumns.includes(i)) {
+                        th.className = 'number';
+                    }
+                    header.appendChild(th);
+                });
+                tableEl.appendChild(header);
+            }
+
+            for (const values of rows) {
+                const row = document.createElement('tr');
+                values.forEach((value, i) => {
+                    const td = document.createElement('td');
+                    if (numericColumns.includes(i)) {
+                        td.className = 'number';
+                    }
+                    if (value instanceof Node) {
+                        td.appendChild(value);
+                    } else {
+                        td.textContent = value;
+                    }
+                    row.appendChild(td);
+                });
+                if (decorate) {
+                    decorate(row, values);
+                }
+                tableEl.appendChild(row);
+            }
+            return tableEl;
+        }
+
+        function bars(entries) {
+            const container = document.createElement('div');
+            const max = Math.max(1, ...entries.map(entry => entry[1]));
+            for (const [label, value, text] of entries) {
+                const row = document.createElement('div');
+                row.className = 'bar-row';
+
+                const labelEl = document.createElement('span');
+                labelEl.className = 'bar-label';
+                labelEl.textContent = label;
+                labelEl.title = label;
+
+                const bar = document.createElement('div');
+                bar.className = 'bar';
+                bar.style.width = Math.max(2, Math.round((value / max) * 45)) + '%';
+
+                const countEl = document.createElement('span');
+                countEl.className = 'bar-count';
+                countEl.textContent = text;
+
+                row.appendChild(labelEl);
+                row.appendChild(bar);
+                row.appendChild(countEl);
+                container.appendChild(row);
+            }
+            return container;
+        }
+
+        /** Growth is shown as a regression */
+        function delta(change, isBytes) {
+            const span = document.createElement('span');
+            span.className = change > 0 ? 'larger' : change < 0 ? 'smaller' : '';
+            const sign = change > 0 ? '+' : change < 0 ? '−' : '±';
+            span.textContent = sign + (isBytes ? formatBytes(Math.abs(change)) : Math.abs(change));
+            return span;
+        }
+
+        function heading(tag, text) {
+            const el = document.createElement(tag);
+            el.textContent = text;
+            return el;
+        }
+
+        function subtitle(text) {
+            const p = document.createElement('p');
+            p.className = 'subtitle';
+            p.textContent = text;
+            return p;
+        }
+
+        function fileName(file) {
+            return file.split(/[\\\\/]/).pop();
+        }
+
+        function percent(value, total) {
+            return total > 0 ? (value * 100 / total).toFixed(1) + '%' : '—';
+        }
+
+        function formatBytes(bytes) {
+            if (bytes < 1024) {
+                return bytes + ' B';
+            }
+            if (bytes < 1024 * 1024) {
+                return (bytes / 1024).toFixed(1) + ' KB';
+            }
+            return (bytes / (1024 * 1024)).toFixed(2) + ' MB';
+        }
+
+        function emptyMessage(text) {
+            const p = document.createElement('p');
+            p.className = 'empty';
+            p.textContent = text;
+            return p;
+        }
+    </script>
+</body>
+</html>`;
+    }
+
+    public dispose(): void {
+        if (this.panel) {
+            this.panel.dispose();
+        }
+        ApkAnalyzerPanel.instance = undefined;
+    }
+}
+
+/**
+ * The APKs listed in a variant's `output-metadata.json`; all APKs in the folder without one.
+ */
+function readApkOutputs(dir: string): string[] {
+    try {
+        const metadata = JSON.parse(fs.readFileSync(path.join(dir, 'output-metadata.json'), 'utf8')) as OutputMetadata;
+        return (metadata.elements ?? [])
+            .map(element => element.outputFile)
+            .filter((file): file is string => !!file)
+            .map(file => path.resolve(dir, file))
+            .filter(file => fs.existsSync(file));
+    } catch {
+        return listFiles(dir, '.apk');
+    }
+}
+
+function listFiles(dir: string, extension: string): string[] {
+    if (!fs.existsSync(dir)) {
+        return [];
+    }
+    return fs.readdirSync(dir)
+        .filter(name => name.endsWith(extension))
+        .map(name => path.join(dir, name));
+}
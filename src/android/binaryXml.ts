@@ -0,0 +1,463 @@
+/**
+ * Decodes the compiled XML of Android packages: the binary chunk format of APKs (AXML)
+ * and the aapt2 protobuf format of app bundles, into one element tree that can be
+ * printed as XML again.
+ */
+
+export const ANDROID_NAMESPACE = 'http://schemas.android.com/apk/res/android';
+
+export interface XmlElementNode {
+    name: string;
+    namespaceUri?: string;
+    /** Namespaces declared on this element, by prefix */
+    namespaces: Map<string, string>;
+    attributes: XmlAttributeNode[];
+    children: (XmlElementNode | string)[];
+}
+
+export interface XmlAttributeNode {
+    name: string;
+    namespaceUri?: string;
+    value: string;
+}
+
+// ── Binary XML (APK) ──────────────────────────────────────────────
+
+const RES_STRING_POOL_TYPE = 0x0001;
+const RES_XML_TYPE = 0x0003;
+const RES_XML_START_NAMESPACE_TYPE = 0x0100;
+const RES_XML_START_ELEMENT_TYPE = 0x0102;
+const RES_XML_END_ELEMENT_TYPE = 0x0103;
+const RES_XML_CDATA_TYPE = 0x0104;
+const RES_XML_RESOURCE_MAP_TYPE = 0x0180;
+const UTF8_FLAG = 1 << 8;
+const NO_INDEX = 0xffffffff;
+
+/**
+ * Framework attributes by resource id, for manifests whose attribute names were stripped.
+ */
+const FRAMEWORK_ATTRIBUTES: Record<number, string> = {
+    0x01010000: 'theme',
+    0x01010001: 'label',
+    0x01010002: 'icon',
+    0x01010003: 'name',
+    0x01010006: 'permission',
+    0x0101000c: 'hasCode',
+    0x0101000e: 'enabled',
+    0x0101000f: 'debuggable',
+    0x01010010: 'exported',
+    0x0101001e: 'screenOrientation',
+    0x0101020c: 'minSdkVersion',
+    0x0101021b: 'versionCode',
+    0x0101021c: 'versionName',
+    0x01010270: 'targetSdkVersion',
+    0x01010271: 'maxSdkVersion',
+    0x01010280: 'allowBackup',
+    0x0101028e: 'required',
+    0x0101052c: 'roundIcon',
+    0x0101057a: 'appComponentFactory'
+};
+
+/**
+ * Decode an APK's binary XML, e.g. `AndroidManifest.xml`.
+ */
+export function decodeBinaryXml(data: Buffer): XmlElementNode {
+    if (data.readUInt16LE(0) !== RES_XML_TYPE) {
+        throw new Error('Not a binary XML file');
+    }
+
+    let strings: string[] = [];
+    let resourceIds: number[] = [];
+    const pendingNamespaces = new Map<string, string>();
+    const stack: XmlElementNode[] = [];
+    let root: XmlElementNode | undefined;
+
+    let offset = data.readUInt16LE(2);
+    while (offset + 8 <= data.length) {
+        const type = data.readUInt16LE(offset);
+        const headerSize = data.readUInt16LE(offset + 2);
+        const size = data.readUInt32LE(offset + 4);
+        if (size < 8) {
+            break;
+        }
+        // Tree nodes: chunk header, line number and comment, then the node's own fields
+        const ext = offset + headerSize;
+        const string = (index: number) => index === NO_INDEX ? undefined : strings[index];
+
+        switch (type) {
+            case RES_STRING_POOL_TYPE:
+                strings = readStringPool(data, offset);
+                break;
+            case RES_XML_RESOURCE_MAP_TYPE:
+                resourceIds = [];
+                for (let i = offset + headerSize; i < offset + size; i += 4) {
+                    resourceIds.push(data.readUInt32LE(i));
+                }
+                break;
+            case RES_XML_START_NAMESPACE_TYPE:
+                pendingNamespaces.set(string(data.readUInt32LE(ext)) ?? '', string(data.readUInt32LE(ext + 4)) ?? '');
+                break;
+            case RES_XML_START_ELEMENT_TYPE: {
+                const element: XmlElementNode = {
+                    name: string(data.readUInt32LE(ext + 4)) ?? '',
+                    namespaceUri: string(data.readUInt32LE(ext)),
+                    namespaces: new Map(pendingNamespaces),
+                    attributes: [],
+                    children: []
+                };
+                pendingNamespaces.clear();
+
+                const attributeStart = data.readUInt16LE(ext + 8);
+                const attributeSize = data.readUInt16LE(ext + 10);
+                const attributeCount = data.readUInt16LE(ext + 12);
+                for (let i = 0; i < attributeCount; i++) {
+                    const attribute = ext + attributeStart + i * attributeSize;
+                    const nameIndex = data.readUInt32LE(attribute + 4);
+                    const rawValue = data.readUInt32LE(attribute + 8);
+                    element.attributes.push({
+                        name: string(nameIndex) || FRAMEWORK_ATTRIBUTES[resourceIds[nameIndex]] || `attr_0x${(resourceIds[nameIndex] ?? 0).toString(16)}`,
+                        namespaceUri: string(data.readUInt32LE(attribute)),
+                        value: string(rawValue) ?? formatTypedValue(data.readUInt8(attribute + 15), data.readUInt32LE(attribute + 16), strings)
+                    });
+                }
+
+                if (stack.length > 0) {
+                    stack[stack.length - 1].children.push(element);
+                } else {
+                    root = root ?? element;
+                }
+                stack.push(element);
+                break;
+            }
+            case RES_XML_END_ELEMENT_TYPE:
+                stack.pop();
+                break;
+            case RES_XML_CDATA_TYPE: {
+                const text = string(data.readUInt32LE(ext));
+                if (text && stack.length > 0) {
+                    stack[stack.length - 1].children.push(text);
+                }
+                break;
+            }
+        }
+        offset += size;
+    }
+
+    if (!root) {
+        throw new Error('Binary XML file has no root element');
+    }
+    return root;
+}
+
+function readStringPool(data: Buffer, chunk: number): string[] {
+    const headerSize = data.readUInt16LE(chunk + 2);
+    const count = data.readUInt32LE(chunk + 8);
+    const isUtf8 = (data.readUInt32LE(chunk + 16) & UTF8_FLAG) !== 0;
+    const stringsStart = chunk + data.readUInt32LE(chunk + 20);
+
+    const strings: string[] = [];
+    for (let i = 0; i < count; i++) {
+        let offset = stringsStart + data.readUInt32LE(chunk + headerSize + i * 4);
+        if (isUtf8) {
+            // UTF-16 length, then the UTF-8 byte length, each one or two bytes
+            offset += data[offset] & 0x80 ? 2 : 1;
+            let length = data[offset];
+            if (length & 0x80) {
+                length = ((length & 0x7f) << 8) | data[offset + 1];
+                offset++;
+            }
+            offset++;
+            strings.push(data.toString('utf8', offset, offset + length));
+        } else {
+            let length = data.readUInt16LE(offset);
+            if (length & 0x8000) {
+                length = ((length & 0x7fff) << 16) | data.readUInt16LE(offset + 2);
+                offset += 2;
+            }
+            offset += 2;
+            strings.push(data.toString('utf16le', offset, offset + length * 2));
+        }
+    }
+    return strings;
+}
+
+/** `Res_value` data types */
+function formatTypedValue(dataType: number, value: number, strings: string[]): string {
+    switch (dataType) {
+        case 0x01:
+            return `@0x${hex(value)}`;
+        case 0x02:
+            return `?0x${hex(value)}`;
+        case 0x03:
+            return strings[value] ?? '';
+        case 0x04:
+            return String(uint32ToFloat(value));
+        case 0x05:
+            return `${complexToFloat(value)}${['px', 'dp', 'sp', 'pt', 'in', 'mm'][value & 0xf] ?? ''}`;
+        case 0x06:
+            return `${complexToFloat(value) * 100}${(value & 0xf) === 0 ? '%' : '%p'}`;
+        case 0x11:
+            return `0x${hex(value)}`;
+        case 0x12:
+            return value !== 0 ? 'true' : 'false';
+        case 0x1c:
+        case 0x1d:
+        case 0x1e:
+        case 0x1f:
+            return `#${hex(value)}`;
+        default:
+            return String(value | 0);
+    }
+}
+
+/** Dimensions and fractions: a 24-bit mantissa with a radix, as in `TypedValue.complexToFloat` */
+function complexToFloat(complex: number): number {
+    const radix = [1 / (1 << 8), 1 / (1 << 15), 1 / (1 << 23), 1 / 2 ** 31][(complex >> 4) & 0x3];
+    return Math.round((complex & 0xffffff00) * radix * 1000) / 1000;
+}
+
+function uint32ToFloat(bits: number): number {
+    const buffer = Buffer.alloc(4);
+    buffer.writeUInt32LE(bits >>> 0);
+    return buffer.readFloatLE(0);
+}
+
+function hex(value: number): string {
+    return (value >>> 0).toString(16).padStart(8, '0');
+}
+
+// ── Protobuf XML (app bundle) ─────────────────────────────────────
+
+/**
+ * Decode the aapt2 protobuf XML of an app bundle, e.g. `base/manifest/AndroidManifest.xml`.
+ */
+export function decodeProtoXml(data: Buffer): XmlElementNode {
+    // XmlNode { XmlElement element = 1; string text = 2; }
+    const element = readFields(data).find(field => field.number === 1);
+    if (!element || !Buffer.isBuffer(element.value)) {
+        throw new Error('Protobuf XML file has no root element');
+    }
+    return readProtoElement(element.value);
+}
+
+interface ProtoField {
+    number: number;
+    value: number | Buffer;
+}
+
+function readProtoElement(data: Buffer): XmlElementNode {
+    // XmlElement { namespace_declaration = 1; namespace_uri = 2; name = 3; attribute = 4; child = 5; }
+    const element: XmlElementNode = { name: '', namespaces: new Map(), attributes: [], children: [] };
+    for (const field of readFields(data)) {
+        if (!Buffer.isBuffer(field.value)) {
+            continue;
+        }
+        switch (field.number) {
+            case 1: {
+                const namespace = readFields(field.value);
+                element.namespaces.set(protoString(namespace, 1), protoString(namespace, 2));
+                break;
+            }
+            case 2:
+                element.namespaceUri = field.value.toString('utf8') || undefined;
+                break;
+            case 3:
+                element.name = field.value.toString('utf8');
+                break;
+            case 4:
+                element.attributes.push(readProtoAttribute(field.value));
+                break;
+            case 5: {
+                const child = readFields(field.value);
+                const childElement = child.find(f => f.number === 1)?.value;
+                if (Buffer.isBuffer(childElement)) {
+                    element.children.push(readProtoElement(childElement));
+                } else if (child.some(f => f.number === 2)) {
+                    element.children.push(protoString(child, 2));
+                }
+                break;
+            }
+        }
+    }
+    return element;
+}
+
+function readProtoAttribute(data: Buffer): XmlAttributeNode {
+    // XmlAttribute { namespace_uri = 1; name = 2; value = 3; resource_id = 5; compiled_item = 6; }
+    const fields = readFields(data);
+    const resourceId = fields.find(f => f.number === 5)?.value;
+    const name = protoString(fields, 2)
+        || (typeof resourceId === 'number' && FRAMEWORK_ATTRIBUTES[resourceId])
+        || `attr_0x${hex(typeof resourceId === 'number' ? resourceId : 0)}`;
+
+    let value = protoString(fields, 3);
+    const item = fields.find(f => f.number === 6)?.value;
+    if (!value && Buffer.isBuffer(item)) {
+        value = formatProtoItem(item);
+    }
+    return { name, namespaceUri: protoString(fields, 1) || undefined, value };
+}
+
+/** `Item { Reference ref = 1; String str = 2; RawString raw_str = 3; Primitive prim = 7; }` */
+function formatProtoItem(data: Buffer): string {
+    for (const field of readFields(data)) {
+        if (!Buffer.isBuffer(field.value)) {
+            continue;
+        }
+        const inner = readFields(field.value);
+        switch (field.number) {
+            case 1: {
+                const name = protoString(inner, 3);
+                const id = inner.find(f => f.number === 2)?.value;
+                return name ? `@${name}` : `@0x${hex(typeof id === 'number' ? id : 0)}`;
+            }
+            case 2:
+            case 3:
+                return protoString(inner, 1);
+            case 7:
+                return formatProtoPrimitive(inner);
+        }
+    }
+    return '';
+}
+
+/** `Primitive { float = 3; int_decimal = 6; int_hexadecimal = 7; boolean = 8; colors = 9..12 }` */
+function formatProtoPrimitive(fields: ProtoField[]): string {
+    const field = fields[0];
+    if (!field || typeof field.value !== 'number') {
+        return '';
+    }
+    switch (field.number) {
+        case 3:
+            return String(uint32ToFloat(field.value));
+        case 6:
+            return String(field.value | 0);
+        case 7:
+            return `0x${hex(field.value)}`;
+        case 8:
+            return field.value !== 0 ? 'true' : 'false';
+        case 9:
+        case 10:
+        case 11:
+        case 12:
+            return `#${hex(field.value)}`;
+        default:
+            return String(field.value);
+    }
+}
+
+function protoString(fields: ProtoField[], number: number): string {
+    const value = fields.find(f => f.number === number)?.value;
+    return Buffer.isBuffer(value) ? value.toString('utf8') : '';
+}
+
+/**
+ * The fields of one protobuf message; varints and fixed values as numbers, the rest as bytes.
+ * Varints beyond 2^53 are read as signed 64-bit values, which is how negative int32 values
+ * are encoded; resource ids and flags never reach them.
+ */
+function readFields(data: Buffer): ProtoField[] {
+    const fields: ProtoField[] = [];
+    let offset = 0;
+
+    const readVarint = () => {
+        let result = BigInt(0);
+        let shift = BigInt(0);
+        let byte: number;
+        do {
+            byte = data[offset++];
+            result |= BigInt(byte & 0x7f) << shift;
+            shift += BigInt(7);
+        } while (byte & 0x80 && offset < data.length);
+        return result <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(result) : Number(BigInt.asIntN(64, result));
+    };
+
+    while (offset < data.length) {
+        const key = readVarint();
+        const number = Math.floor(key / 8);
+        switch (key & 0x7) {
+            case 0:
+                fields.push({ number, value: readVarint() });
+                break;
+            case 1:
+                fields.push({ number, value: Number(data.readBigUInt64LE(offset)) });
+                offset += 8;
+                break;
+            case 2: {
+                const length = readVarint();
+                fields.push({ number, value: data.subarray(offset, offset + length) });
+                offset += length;
+                break;
+            }
+            case 5:
+                fields.push({ number, value: data.readUInt32LE(offset) });
+                offset += 4;
+                break;
+            default:
+                throw new Error(`Unsupported protobuf wire type ${key & 0x7}`);
+        }
+    }
+    return fields;
+}
+
+// ── Formatting ────────────────────────────────────────────────────
+
+/**
+ * Print a decoded element tree as indented XML.
+ */
+export function formatXml(root: XmlElementNode): string {
+    const prefixes = new Map<string, string>();
+    const lines = ['<?xml version="1.0" encoding="utf-8"?>'];
+
+    const qualify = (name: string, namespaceUri?: string) => {
+        const prefix = namespaceUri ? prefixes.get(namespaceUri) : undefined;
+        return prefix ? `${prefix}:${name}` : name;
+    };
+
+    const write = (element: XmlElementNode, depth: number) => {
+        const indent = '    '.repeat(depth);
+        element.namespaces.forEach((uri, prefix) => prefixes.set(uri, prefix));
+
+        const attributes = [
+            ...Array.from(element.namespaces, ([prefix, uri]) => `xmlns:${prefix}="${escapeXml(uri)}"`),
+            ...element.attributes.map(a => `${qualify(a.name, a.namespaceUri)}="${escapeXml(a.value)}"`)
+        ];
+        const tag = qualify(element.name, element.namespaceUri);
+        const open = attributes.length <= 1
+            ? `${indent}<${[tag, ...attributes].join(' ')}`
+            : `${indent}<${tag}\n${attributes.map(a => `${indent}    ${a}`).join('\n')}`;
+
+        if (element.children.length === 0) {
+            lines.push(`${open} />`);
+            return;
+        }
+        lines.push(`${open}>`);
+        for (const child of element.children) {
+            if (typeof child === 'string') {
+                lines.push(`${indent}    ${escapeXml(child)}`);
+            } else {
+                write(child, depth + 1);
+            }
+        }
+        lines.push(`${indent}</${tag}>`);
+    };
+
+    write(root, 0);
+    return lines.join('\n');
+}
+
+/**
+ * An attribute in the Android namespace, falling back to one without a namespace.
+ */
+export function androidAttribute(element: XmlElementNode, name: string): string | undefined {
+    const matches = element.attributes.filter(a => a.name === name);
+    return (matches.find(a => a.namespaceUri === ANDROID_NAMESPACE) ?? matches[0])?.value;
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,171 @@
+/**
+ * Reads the class and method tables of DEX files to count classes and methods per package,
+ * like the APK Analyzer of Android Studio. Only the header, the id tables and the class
+ * definitions are read; code is not.
+ */
+
+/** Method references one DEX file can hold */
+export const DEX_METHOD_LIMIT = 65536;
+
+export interface DexPackageStats {
+    /** e.g. `com.example.app`, `(default)` for classes without a package */
+    name: string;
+    /** Classes defined in the DEX file */
+    classes: number;
+    /** Methods of the classes defined in the DEX file */
+    definedMethods: number;
+    /** Method references, including methods of the framework and other DEX files */
+    referencedMethods: number;
+}
+
+export interface DexFileStats {
+    name: string;
+    classes: number;
+    definedMethods: number;
+    referencedMethods: number;
+    packages: DexPackageStats[];
+}
+
+const DEFAULT_PACKAGE = '(default)';
+
+export function readDexFile(name: string, data: Buffer): DexFileStats {
+    if (data.length < 0x70 || data.toString('latin1', 0, 4) !== 'dex\n') {
+        throw new Error(`${name} is not a DEX file`);
+    }
+
+    const stringIdsOffset = data.readUInt32LE(0x3c);
+    const typeIdsOffset = data.readUInt32LE(0x44);
+    const methodIdsSize = data.readUInt32LE(0x58);
+    const methodIdsOffset = data.readUInt32LE(0x5c);
+    const classDefsSize = data.readUInt32LE(0x60);
+    const classDefsOffset = data.readUInt32LE(0x64);
+    checkBounds(data, methodIdsOffset, methodIdsSize * 8, 'method ids');
+    checkBounds(data, classDefsOffset, classDefsSize * 32, 'class definitions');
+
+    // Type descriptors are only read for the types that are used, and only once
+    const packagesByType = new Map<number, string>();
+    const packageOfType = (typeIndex: number) => {
+        let packageName = packagesByType.get(typeIndex);
+        if (packageName === undefined) {
+            checkBounds(data, typeIdsOffset + typeIndex * 4, 4, 'type ids');
+            const descriptorIndex = data.readUInt32LE(typeIdsOffset + typeIndex * 4);
+            checkBounds(data, stringIdsOffset + descriptorIndex * 4, 4, 'string ids');
+            packageName = descriptorToPackage(readString(data, data.readUInt32LE(stringIdsOffset + descriptorIndex * 4)));
+            packagesByType.set(typeIndex, packageName);
+        }
+        return packageName;
+    };
+
+    const packages = new Map<string, DexPackageStats>();
+    const statsOf = (packageName: string) => {
+        let stats = packages.get(packageName);
+        if (!stats) {
+            stats = { name: packageName, classes: 0, definedMethods: 0, referencedMethods: 0 };
+            packages.set(packageName, stats);
+        }
+        return stats;
+    };
+
+    // method_id_item: class_idx (u16), proto_idx (u16), name_idx (u32)
+    for (let i = 0; i < methodIdsSize; i++) {
+        statsOf(packageOfType(data.readUInt16LE(methodIdsOffset + i * 8))).referencedMethods++;
+    }
+
+    // class_def_item: class_idx at 0, class_data_off at 24; 32 bytes each
+    let definedMethods = 0;
+    for (let i = 0; i < classDefsSize; i++) {
+        const classDef = classDefsOffset + i * 32;
+        const stats = statsOf(packageOfType(data.readUInt32LE(classDef)));
+        stats.classes++;
+
+        const classDataOffset = data.readUInt32LE(classDef + 24);
+        if (classDataOffset !== 0) {
+            const methods = countClassMethods(data, classDataOffset);
+            stats.definedMethods += methods;
+            definedMethods += methods;
+        }
+    }
+
+    return {
+        name,
+        classes: classDefsSize,
+        definedMethods,
+        referencedMethods: methodIdsSize,
+        packages: Array.from(packages.values())
+    };
+}
+
+/**
+ * Add up the per-package counts of several DEX files, e.g. `classes.dex`, `classes2.dex`...
+ */
+export function mergeDexPackages(files: DexFileStats[]): DexPackageStats[] {
+    const merged = new Map<string, DexPackageStats>();
+    for (const stats of files.flatMap(file => file.packages)) {
+        const total = merged.get(stats.name);
+        if (total) {
+            total.classes += stats.classes;
+            total.definedMethods += stats.definedMethods;
+            total.referencedMethods += stats.referencedMethods;
+        } else {
+            merged.set(stats.name, { ...stats });
+        }
+    }
+    return Array.from(merged.values()).sort((a, b) => b.definedMethods - a.definedMethods || b.referencedMethods - a.referencedMethods);
+}
+
+/**
+ * class_data_item: static and instance field counts, then direct and virtual method counts.
+ */
+function countClassMethods(data: Buffer, offset: number): number {
+    let position = offset;
+    const readUleb128 = () => {
+        let result = 0;
+        let shift = 0;
+        let byte: number;
+        do {
+            checkBounds(data, position, 1, 'class data');
+            byte = data[position++];
+            result |= (byte & 0x7f) << shift;
+            shift += 7;
+        } while (byte & 0x80 && shift < 35);
+        return result >>> 0;
+    };
+
+    readUleb128(); // static fields
+    readUleb128(); // instance fields
+    return readUleb128() + readUleb128();
+}
+
+/**
+ * string_data_item: the UTF-16 length as ULEB128, then zero-terminated MUTF-8.
+ */
+function readString(data: Buffer, offset: number): string {
+    checkBounds(data, offset, 1, 'string data');
+    let start = offset;
+    while (data[start] & 0x80) {
+        start++;
+    }
+    start++;
+    const end = data.indexOf(0, start);
+    return data.toString('utf8', start, end < 0 ? data.length : end);
+}
+
+/**
+ * Fail with a descriptive error, rather than a RangeError or garbage counts, when a table
+ * or item runs past the end of the data.
+ */
+function checkBounds(data: Buffer, offset: number, length: number, record: string): void {
+    if (offset < 0 || offset + length > data.length) {
+        throw new Error(`Truncated or corrupt DEX file: reading the ${record} at offset ${offset} goes past the end of the file`);
+    }
+}
+
+/** `Lcom/example/Foo;` -> `com.example`, `[Ljava/lang/String;` -> `java.lang` */
+function descriptorToPackage(descriptor: string): string {
+    const type = descriptor.replace(/^\[+/, '');
+    if (!type.startsWith('L')) {
+        return DEFAULT_PACKAGE;
+    }
+    const slash = type.lastIndexOf('/');
+    return slash > 0 ? type.substring(1, slash).replace(/\//g, '.') : DEFAULT_PACKAGE;
+}
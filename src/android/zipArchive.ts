@@ -0,0 +1,161 @@
+import * as zlib from 'zlib';
+
+/**
+ * Minimal ZIP reader for APKs and app bundles: the central directory, plus the content of
+ * stored and deflated entries. Zip64 archives are supported; encryption and spanning are not.
+ */
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP64_EXTRA_ID = 0x0001;
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+export interface ZipEntry {
+    name: string;
+    /** 0 = stored, 8 = deflated */
+    method: number;
+    compressedSize: number;
+    size: number;
+    localHeaderOffset: number;
+}
+
+export class ZipArchive {
+    public readonly entries: ZipEntry[];
+    private readonly byName: Map<string, ZipEntry>;
+
+    constructor(private readonly data: Buffer) {
+        this.entries = readCentralDirectory(data);
+        this.byName = new Map(this.entries.map(entry => [entry.name, entry]));
+    }
+
+    public getEntry(name: string): ZipEntry | undefined {
+        return this.byName.get(name);
+    }
+
+    /**
+     * The uncompressed content of an entry.
+     */
+    public read(entry: ZipEntry): Buffer {
+        const offset = entry.localHeaderOffset;
+        checkBounds(this.data, offset, 30, `local header of ${entry.name}`);
+        if (this.data.readUInt32LE(offset) !== LOCAL_HEADER_SIGNATURE) {
+            throw new Error(`Corrupt ZIP entry ${entry.name}`);
+        }
+        // The local header's name and extra field lengths may differ from the central directory's
+        const start = offset + 30 + this.data.readUInt16LE(offset + 26) + this.data.readUInt16LE(offset + 28);
+        checkBounds(this.data, start, entry.compressedSize, `content of ${entry.name}`);
+        const raw = this.data.subarray(start, start + entry.compressedSize);
+
+        switch (entry.method) {
+            case METHOD_STORED:
+                return raw;
+            case METHOD_DEFLATED:
+                try {
+                    return zlib.inflateRawSync(raw);
+                } catch (error) {
+                    throw new Error(`Corrupt ZIP entry ${entry.name}: ${error instanceof Error ? error.message : String(error)}`);
+                }
+            default:
+                throw new Error(`Unsupported compression method ${entry.method} for ${entry.name}`);
+        }
+    }
+}
+
+function readCentralDirectory(data: Buffer): ZipEntry[] {
+    const eocd = findEndOfCentralDirectory(data);
+    let count = data.readUInt16LE(eocd + 10);
+    let offset = data.readUInt32LE(eocd + 16);
+
+    if (count === 0xffff || offset === 0xffffffff) {
+        const locator = eocd - 20;
+        if (locator >= 0 && data.readUInt32LE(locator) === ZIP64_LOCATOR_SIGNATURE) {
+            const zip64Eocd = Number(data.readBigUInt64LE(locator + 8));
+            checkBounds(data, zip64Eocd, 56, 'Zip64 end of central directory');
+            if (data.readUInt32LE(zip64Eocd) === ZIP64_EOCD_SIGNATURE) {
+                count = Number(data.readBigUInt64LE(zip64Eocd + 32));
+                offset = Number(data.readBigUInt64LE(zip64Eocd + 48));
+            }
+        }
+    }
+
+    const entries: ZipEntry[] = [];
+    for (let i = 0; i < count; i++) {
+        checkBounds(data, offset, 46, 'central directory');
+        if (data.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) {
+            throw new Error('Corrupt ZIP central directory');
+        }
+        const nameLength = data.readUInt16LE(offset + 28);
+        const extraLength = data.readUInt16LE(offset + 30);
+        const commentLength = data.readUInt16LE(offset + 32);
+        checkBounds(data, offset + 46, nameLength + extraLength, 'central directory');
+        const entry: ZipEntry = {
+            name: data.toString('utf8', offset + 46, offset + 46 + nameLength),
+            method: data.readUInt16LE(offset + 10),
+            compressedSize: data.readUInt32LE(offset + 20),
+            size: data.readUInt32LE(offset + 24),
+            localHeaderOffset: data.readUInt32LE(offset + 42)
+        };
+        readZip64Extra(entry, data.subarray(offset + 46 + nameLength, offset + 46 + nameLength + extraLength));
+        entries.push(entry);
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+}
+
+/**
+ * The end of central directory record is last, followed by a comment of up to 64 KB.
+ */
+function findEndOfCentralDirectory(data: Buffer): number {
+    const lowest = Math.max(0, data.length - 22 - 0xffff);
+    for (let offset = data.length - 22; offset >= lowest; offset--) {
+        if (data.readUInt32LE(offset) === EOCD_SIGNATURE) {
+            return offset;
+        }
+    }
+    throw new Error('Not a ZIP archive');
+}
+
+/**
+ * Fail with a descriptive error, rather than a RangeError from the buffer, when a record
+ * runs past the end of the data.
+ */
+function checkBounds(data: Buffer, offset: number, length: number, record: string): void {
+    if (offset < 0 || offset + length > data.length) {
+        throw new Error(`Truncated or corrupt ZIP archive: reading the ${record} at offset ${offset} goes past the end of the file`);
+    }
+}
+
+/**
+ * Zip64 extra fields hold the values whose 32-bit fields are saturated, in this order.
+ */
+function readZip64Extra(entry: ZipEntry, extra: Buffer): void {
+    let offset = 0;
+    while (offset + 4 <= extra.length) {
+        const id = extra.readUInt16LE(offset);
+        const size = extra.readUInt16LE(offset + 2);
+        if (id === ZIP64_EXTRA_ID) {
+            let field = offset + 4;
+            const next = () => {
+                checkBounds(extra, field, 8, `Zip64 extra field of ${entry.name}`);
+                const value = Number(extra.readBigUInt64LE(field));
+                field += 8;
+                return value;
+            };
+            if (entry.size === 0xffffffff) {
+                entry.size = next();
+            }
+            if (entry.compressedSize === 0xffffffff) {
+                entry.compressedSize = next();
+            }
+            if (entry.localHeaderOffset === 0xffffffff) {
+                entry.localHeaderOffset = next();
+            }
+            return;
+        }
+        offset += 4 + size;
+    }
+}
@@ -8,6 +8,8 @@ import { Logger } from './logger';
 
 const execFileAsync = promisify(execFile);
 
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
 export interface AndroidDevice {
     id: string;
     label: string;
@@ -113,6 +115,24 @@ export class AndroidDeviceManager implements vscode.Disposable {
         }
     }
 
+    /**
+     * The device's screen as PNG, from `adb exec-out screencap -p`.
+     */
+    public async captureScreen(deviceId: string): Promise<Buffer> {
+        const adbPath = this.getAdbPath();
+        const { stdout } = await execFileAsync(
+            adbPath,
+            ['-s', deviceId, 'exec-out', 'screencap', '-p'],
+            { encoding: 'buffer', timeout: 30000, maxBuffer: 64 * 1024 * 1024 }
+        );
+
+        // A locked or secure screen, or an old device, prints an error instead of an image
+        if (!stdout.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+            throw new Error(stdout.toString('utf8').trim() || 'screencap returned no image');
+        }
+        return stdout;
+    }
+
     public async monkeyLaunch(deviceId: string, packageName: string): Promise<void> {
         const adbPath = this.getAdbPath();
         try {
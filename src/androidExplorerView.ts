@@ -22,6 +22,7 @@ export class AndroidExplorerView implements vscode.TreeDataProvider<TreeNode> {
     private isLogcatRunning: boolean = false;
     private isGradleRunning: boolean = false;
     private currentAppId?: string;
+    private currentVariant?: string;
 
     constructor(
         private readonly deviceManager: AndroidDeviceManager,
@@ -59,6 +60,10 @@ export class AndroidExplorerView implements vscode.TreeDataProvider<TreeNode> {
         this.refresh();
     }
 
+    getSelectedDevice(): AndroidDevice | undefined {
+        return this.selectedDevice;
+    }
+
     setLogcatRunning(running: boolean): void {
         this.isLogcatRunning = running;
         this.refresh();
@@ -69,8 +74,11 @@ export class AndroidExplorerView implements vscode.TreeDataProvider<TreeNode> {
         this.refresh();
     }
 
-    setCurrentAppId(appId: string | undefined): void {
+    setCurrentAppId(appId: string | undefined, variant?: string): void {
         this.currentAppId = appId;
+        if (variant) {
+            this.currentVariant = variant;
+        }
         this.refresh();
     }
 
@@ -280,6 +288,23 @@ export class AndroidExplorerView implements vscode.TreeDataProvider<TreeNode> {
         }
         nodes.push(deviceNode);
 
+        // Build Variant
+        if (this.currentVariant) {
+            const variantNode = new TreeNode(
+                'Build Variant',
+                'status-item',
+                vscode.TreeItemCollapsibleState.None
+            );
+            variantNode.iconPath = new vscode.ThemeIcon('symbol-enum');
+            variantNode.description = this.currentVariant;
+            variantNode.tooltip = `Selected build variant: ${this.currentVariant}\nClick to change`;
+            variantNode.command = {
+                command: 'android-linter.selectVariant',
+                title: 'Select Build Variant'
+            };
+            nodes.push(variantNode);
+        }
+
         // App ID
         const appNode = new TreeNode(
             'Application ID',
@@ -289,7 +314,9 @@ export class AndroidExplorerView implements vscode.TreeDataProvider<TreeNode> {
         if (this.currentAppId) {
             appNode.iconPath = new vscode.ThemeIcon('package', new vscode.ThemeColor('symbolIcon.packageForeground'));
             appNode.description = this.currentAppId;
-            appNode.tooltip = `📦 Current app package:\n${this.currentAppId}`;
+            appNode.tooltip = this.currentVariant
+                ? `📦 Current app package (${this.currentVariant}):\n${this.currentAppId}`
+                : `📦 Current app package:\n${this.currentAppId}`;
         } else {
             appNode.iconPath = new vscode.ThemeIcon('question', new vscode.ThemeColor('disabledForeground'));
             appNode.description = 'Not detected';
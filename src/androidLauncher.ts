@@ -1,8 +1,12 @@
 import * as vscode from 'vscode';
-import { GradleCommandError, GradleProcessManager } from './gradleProcessManager';
+import { GradleCommandError, GradleProcessManager, formatGradleProgress } from './gradleProcessManager';
 import { AndroidDevice, AndroidDeviceManager } from './androidDeviceManager';
 import { LogcatManager } from './logcatManager';
 import { detectApplicationId, resolveManifestLauncher } from './androidProjectInfo';
+import { GradleModule, moduleFromName, moduleTask } from './build/gradleModules';
+import { ModuleRegistry } from './build/moduleRegistry';
+import { VariantManager } from './build/variantManager';
+import { GradleFailureReporter } from './gradleFailureReporter';
 import { CONFIG_NAMESPACE, CONFIG_KEYS } from './constants';
 import { Logger } from './logger';
 
@@ -11,32 +15,56 @@ export class AndroidAppLauncher implements vscode.Disposable {
     private readonly deviceManager: AndroidDeviceManager;
     private readonly logcatManager: LogcatManager;
     private readonly logger: Logger;
+    private readonly moduleRegistry?: ModuleRegistry;
+    private readonly failureReporter?: GradleFailureReporter;
+    private variantManager?: VariantManager;
     private lastDeviceId?: string;
-    private onAppIdDetected?: (appId: string) => void;
+    private lastModule?: GradleModule;
+    private onAppIdDetected?: (appId: string, variant?: string) => void;
 
     constructor(
         gradleManager: GradleProcessManager,
         deviceManager: AndroidDeviceManager,
         logcatManager: LogcatManager,
-        outputChannel: vscode.OutputChannel
+        outputChannel: vscode.OutputChannel,
+        moduleRegistry?: ModuleRegistry,
+        failureReporter?: GradleFailureReporter
     ) {
         this.gradleManager = gradleManager;
         this.deviceManager = deviceManager;
         this.logcatManager = logcatManager;
+        this.moduleRegistry = moduleRegistry;
+        this.failureReporter = failureReporter;
         this.logger = Logger.create(outputChannel, 'Launcher');
     }
 
-    public setAppIdCallback(callback: (appId: string) => void): void {
+    public setAppIdCallback(callback: (appId: string, variant?: string) => void): void {
         this.onAppIdDetected = callback;
     }
 
-    public async launch(): Promise<void> {
+    /**
+     * Resolve applicationIds for the module's selected build variant.
+     */
+    public setVariantManager(variantManager: VariantManager): void {
+        this.variantManager = variantManager;
+    }
+
+    /**
+     * Install and launch an application module, picked from the active editor
+     * or a quick pick when the project has several. `gradleArgs` are passed to the install task.
+     */
+    public async launch(module?: GradleModule, gradleArgs: string[] = []): Promise<void> {
         const workspaceFolder = this.getPrimaryWorkspace();
         if (!workspaceFolder) {
             vscode.window.showWarningMessage('Android Linter: No workspace folder found.');
             return;
         }
 
+        const appModule = module ?? await this.pickAppModule(workspaceFolder.uri.fsPath);
+        if (!appModule) {
+            return;
+        }
+
         const devices = await this.deviceManager.listDevices();
         if (devices.length === 0) {
             vscode.window.showWarningMessage('Android Linter: No Android devices detected. Connect a device or start an emulator.');
@@ -49,23 +77,26 @@ export class AndroidAppLauncher implements vscode.Disposable {
         }
 
         this.lastDeviceId = selectedDevice.id;
+        this.lastModule = appModule;
 
-        const applicationId = await this.resolveApplicationId(workspaceFolder.uri.fsPath);
+        const applicationId = await this.resolveApplicationId(workspaceFolder.uri.fsPath, appModule);
         if (!applicationId) {
-            vscode.window.showWarningMessage('Android Linter: Unable to determine applicationId. Set android-linter.launchApplicationId in settings.');
+            vscode.window.showWarningMessage(`Android Linter: Unable to determine the applicationId of ${appModule.path}. Set android-linter.launchApplicationId in settings.`);
             return;
         }
 
         // Notify callback of detected app ID
         if (this.onAppIdDetected) {
-            this.onAppIdDetected(applicationId);
+            this.onAppIdDetected(applicationId, this.variantManager?.getCurrentVariant(appModule.path));
         }
 
         const config = vscode.workspace.getConfiguration(CONFIG_NAMESPACE);
-        const installTask = config.get<string>(CONFIG_KEYS.LAUNCH_INSTALL_TASK) || 'installDebug';
+        // Qualified so only the picked module is installed; follows the selected variant unless configured
+        const installTask = moduleTask(appModule, config.get<string>(CONFIG_KEYS.LAUNCH_INSTALL_TASK)
+            || this.variantManager?.getInstallTask(appModule.path)
+            || 'installDebug');
         const installTimeout = config.get<number>(CONFIG_KEYS.LAUNCH_INSTALL_TIMEOUT_MS) || 240000;
         const autoStartLogcat = config.get<boolean>(CONFIG_KEYS.LOGCAT_AUTO_START_ON_LAUNCH, true);
-        const moduleName = config.get<string>(CONFIG_KEYS.LAUNCH_MODULE) || 'app';
 
         let wasCancelled = false;
 
@@ -83,10 +114,11 @@ export class AndroidAppLauncher implements vscode.Disposable {
                     progress.report({ message: 'Running Gradle task...' });
                     await this.gradleManager.runCommand(
                         workspaceFolder.uri.fsPath,
-                        [installTask],
+                        [installTask, ...gradleArgs],
                         {
                             timeout: installTimeout,
-                            cancellationToken: token
+                            cancellationToken: token,
+                            onProgress: gradleProgress => progress.report({ message: formatGradleProgress(gradleProgress) })
                         }
                     );
                 }
@@ -98,8 +130,9 @@ export class AndroidAppLauncher implements vscode.Disposable {
             }
 
             this.logger.success(`Gradle task ${installTask} completed`);
+            this.failureReporter?.clear();
         } catch (error) {
-            if (wasCancelled) {
+            if (wasCancelled || (error instanceof GradleCommandError && error.cancelled)) {
                 this.logger.log('⚪ Installation cancelled');
                 return;
             }
@@ -109,17 +142,28 @@ export class AndroidAppLauncher implements vscode.Disposable {
                 return;
             }
 
+            if (error instanceof GradleCommandError && this.failureReporter) {
+                // Reported without waiting, so the launch command finishes while the notification is open
+                this.failureReporter.report(error, {
+                    action: `Install ${installTask}`,
+                    workspaceRoot: workspaceFolder.uri.fsPath,
+                    retry: gradleArgs.includes('--stacktrace') ? undefined : extraArgs => this.launch(appModule, [...gradleArgs, ...extraArgs])
+                }).catch(reportError => {
+                    this.logger.error(`Failed to report the install failure: ${reportError instanceof Error ? reportError.message : String(reportError)}`);
+                });
+                return;
+            }
+
             if (error instanceof GradleCommandError) {
                 this.logger.error(`Gradle install failed: ${error.stderr || error.stdout}`);
             }
-
-            vscode.window.showErrorMessage('Android Linter: Failed to install debug build. Check Output for details.');
+            vscode.window.showErrorMessage(`Android Linter: Failed to install ${installTask}. Check Output for details.`);
             return;
         }
 
         let componentName = await this.deviceManager.resolveLaunchableActivity(selectedDevice.id, applicationId);
         if (!componentName) {
-            const manifestLauncher = await resolveManifestLauncher(workspaceFolder.uri.fsPath, moduleName);
+            const manifestLauncher = await resolveManifestLauncher(workspaceFolder.uri.fsPath, appModule.dir);
             componentName = manifestLauncher?.componentName;
         }
 
@@ -163,11 +207,16 @@ export class AndroidAppLauncher implements vscode.Disposable {
 
         this.lastDeviceId = selectedDevice.id;
 
-        const applicationId = await this.resolveApplicationId(workspaceFolder.uri.fsPath);
+        const appModule = this.lastModule ?? await this.pickAppModule(workspaceFolder.uri.fsPath);
+        if (!appModule) {
+            return;
+        }
+        this.lastModule = appModule;
+        const applicationId = await this.resolveApplicationId(workspaceFolder.uri.fsPath, appModule);
 
         // Notify callback of detected app ID
         if (applicationId && this.onAppIdDetected) {
-            this.onAppIdDetected(applicationId);
+            this.onAppIdDetected(applicationId, this.variantManager?.getCurrentVariant(appModule.path));
         }
 
         await this.logcatManager.start(selectedDevice.id, applicationId);
@@ -180,7 +229,7 @@ export class AndroidAppLauncher implements vscode.Disposable {
     public async relaunchApp(): Promise<void> {
         this.logger.log('🔄 Relaunching app...');
         await this.stopApp();
-        await this.launch();
+        await this.launch(this.lastModule);
         this.logger.success('Relaunch complete');
     }
 
@@ -192,12 +241,12 @@ export class AndroidAppLauncher implements vscode.Disposable {
         }
 
         const deviceId = this.lastDeviceId;
-        if (!deviceId) {
+        if (!deviceId || !this.lastModule) {
             vscode.window.showWarningMessage('Android Linter: No app has been launched yet.');
             return;
         }
 
-        const applicationId = await this.resolveApplicationId(workspaceFolder.uri.fsPath);
+        const applicationId = await this.resolveApplicationId(workspaceFolder.uri.fsPath, this.lastModule);
         if (!applicationId) {
             vscode.window.showWarningMessage('Android Linter: Could not determine application ID to stop.');
             return;
@@ -237,28 +286,53 @@ export class AndroidAppLauncher implements vscode.Disposable {
         return selected?.device;
     }
 
-    private async resolveApplicationId(workspaceRoot: string): Promise<string | undefined> {
+    private async pickAppModule(workspaceRoot: string): Promise<GradleModule | undefined> {
+        const fallback = this.getLaunchModule(workspaceRoot);
+        if (!this.moduleRegistry) {
+            return fallback;
+        }
+
+        return this.moduleRegistry.pickModule({
+            types: ['application'],
+            contextUri: vscode.window.activeTextEditor?.document.uri,
+            preferred: this.lastModule?.path ?? fallback.path,
+            fallback,
+            placeHolder: 'Select the app module to run'
+        });
+    }
+
+    private getLaunchModule(workspaceRoot: string): GradleModule {
+        if (this.moduleRegistry) {
+            return this.moduleRegistry.getDefaultAppModule();
+        }
+        const config = vscode.workspace.getConfiguration(CONFIG_NAMESPACE);
+        return moduleFromName(workspaceRoot, config.get<string>(CONFIG_KEYS.LAUNCH_MODULE) || 'app');
+    }
+
+    private async resolveApplicationId(workspaceRoot: string, module: GradleModule): Promise<string | undefined> {
+        // The configured applicationId belongs to the configured launch module
         const config = vscode.workspace.getConfiguration(CONFIG_NAMESPACE);
+        const isLaunchModule = module.path === this.getLaunchModule(workspaceRoot).path;
         const fromSettings = (config.get<string>(CONFIG_KEYS.LAUNCH_APPLICATION_ID) || '').trim();
-        if (fromSettings) {
+        if (fromSettings && isLaunchModule) {
             return fromSettings;
         }
 
-        const moduleName = config.get<string>(CONFIG_KEYS.LAUNCH_MODULE) || 'app';
-        const detected = await detectApplicationId(workspaceRoot, moduleName);
+        const variant = this.variantManager?.getCurrentVariant(module.path);
+        const detected = await detectApplicationId(workspaceRoot, module.dir, variant);
         if (detected) {
             return detected;
         }
 
         const provided = await vscode.window.showInputBox({
-            prompt: 'Enter the applicationId (e.g. com.example.app)',
+            prompt: `Enter the applicationId of ${module.path} (e.g. com.example.app)`,
             placeHolder: 'com.example.app',
             ignoreFocusOut: true
         });
 
         if (provided) {
             const remember = config.get<boolean>(CONFIG_KEYS.LAUNCH_REMEMBER_APPLICATION_ID, true);
-            if (remember) {
+            if (remember && isLaunchModule) {
                 await config.update(CONFIG_KEYS.LAUNCH_APPLICATION_ID, provided.trim(), vscode.ConfigurationTarget.Workspace);
             }
             return provided.trim();
@@ -2,17 +2,23 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { promises as fsPromises } from 'fs';
 import { createStream, QualifiedTag } from 'sax';
+import { capitalize, extractBlock, readNamedBlocks, readStringProperty } from './build/gradleDsl';
 
 export interface LauncherComponentInfo {
     packageName: string;
     componentName: string;
 }
 
+/**
+ * Detect the applicationId of a module for a build variant such as `freeStagingDebug`.
+ * `moduleDir` is the module's directory, absolute or relative to the workspace root (e.g. `app`).
+ */
 export async function detectApplicationId(
     workspaceRoot: string,
-    moduleName = 'app'
+    moduleDir = 'app',
+    variant = 'debug'
 ): Promise<string | undefined> {
-    const candidates = buildGradleCandidates(workspaceRoot, moduleName);
+    const candidates = buildGradleCandidates(workspaceRoot, moduleDir);
 
     for (const candidate of candidates) {
         if (!fs.existsSync(candidate)) {
@@ -21,7 +27,7 @@ export async function detectApplicationId(
 
         try {
             const content = await fsPromises.readFile(candidate, 'utf8');
-            const applicationId = parseApplicationId(content);
+            const applicationId = parseApplicationId(content, variant);
             if (applicationId) {
                 return applicationId;
             }
@@ -31,7 +37,7 @@ export async function detectApplicationId(
     }
 
     // Fallback to manifest package if available
-    const manifestInfo = await resolveManifestLauncher(workspaceRoot, moduleName);
+    const manifestInfo = await resolveManifestLauncher(workspaceRoot, moduleDir);
     if (manifestInfo) {
         return manifestInfo.packageName;
     }
@@ -41,9 +47,9 @@ export async function detectApplicationId(
 
 export async function resolveManifestLauncher(
     workspaceRoot: string,
-    moduleName = 'app'
+    moduleDir = 'app'
 ): Promise<LauncherComponentInfo | undefined> {
-    const manifestPaths = getManifestCandidates(workspaceRoot, moduleName);
+    const manifestPaths = getManifestCandidates(workspaceRoot, moduleDir);
 
     for (const manifestPath of manifestPaths) {
         if (!fs.existsSync(manifestPath)) {
@@ -63,10 +69,10 @@ export async function resolveManifestLauncher(
     return undefined;
 }
 
-function buildGradleCandidates(workspaceRoot: string, moduleName: string): string[] {
+function buildGradleCandidates(workspaceRoot: string, moduleDir: string): string[] {
     const files = [
-        path.join(workspaceRoot, moduleName, 'build.gradle'),
-        path.join(workspaceRoot, moduleName, 'build.gradle.kts'),
+        path.resolve(workspaceRoot, moduleDir, 'build.gradle'),
+        path.resolve(workspaceRoot, moduleDir, 'build.gradle.kts'),
         path.join(workspaceRoot, 'build.gradle'),
         path.join(workspaceRoot, 'build.gradle.kts')
     ];
@@ -74,30 +80,83 @@ function buildGradleCandidates(workspaceRoot: string, moduleName: string): strin
     return files;
 }
 
-function getManifestCandidates(workspaceRoot: string, moduleName: string): string[] {
+function getManifestCandidates(workspaceRoot: string, moduleDir: string): string[] {
     return [
-        path.join(workspaceRoot, moduleName, 'src', 'main', 'AndroidManifest.xml'),
+        path.resolve(workspaceRoot, moduleDir, 'src', 'main', 'AndroidManifest.xml'),
         path.join(workspaceRoot, 'src', 'main', 'AndroidManifest.xml')
     ];
 }
 
-function parseApplicationId(content: string): string | undefined {
-    const baseMatch = content.match(/applicationId\s*(?:=)?\s*["']([^"']+)["']/);
-    if (!baseMatch) {
+/**
+ * The applicationId of a variant: the highest-priority flavor's `applicationId`, else
+ * `defaultConfig`'s, else the `namespace`; followed by the `defaultConfig`, flavor and
+ * build type `applicationIdSuffix`es.
+ */
+export function parseApplicationId(content: string, variant = 'debug'): string | undefined {
+    const android = extractBlock(content, 'android') ?? content;
+    const defaultConfig = extractBlock(android, 'defaultConfig') ?? '';
+    const flavorBlocks = readNamedBlocks(extractBlock(android, 'productFlavors') ?? '');
+    const buildTypeBlocks = readNamedBlocks(extractBlock(android, 'buildTypes') ?? '');
+
+    const { flavors, buildType } = splitVariantName(
+        variant,
+        Array.from(flavorBlocks.keys()),
+        ['debug', 'release', ...buildTypeBlocks.keys()]
+    );
+
+    // Flavors appear in the variant name by dimension priority, highest first
+    const flavorApplicationId = flavors
+        .map(flavor => readStringProperty(flavorBlocks.get(flavor) ?? '', 'applicationId'))
+        .find(id => id !== undefined);
+    const baseApplicationId = flavorApplicationId
+        ?? readStringProperty(defaultConfig, 'applicationId')
+        ?? readStringProperty(android, 'namespace');
+    if (!baseApplicationId) {
         return undefined;
     }
 
-    let applicationId = baseMatch[1];
+    const suffixes = [
+        readStringProperty(defaultConfig, 'applicationIdSuffix'),
+        ...[...flavors].reverse().map(flavor => readStringProperty(flavorBlocks.get(flavor) ?? '', 'applicationIdSuffix')),
+        buildType ? readStringProperty(buildTypeBlocks.get(buildType) ?? '', 'applicationIdSuffix') : undefined
+    ];
 
-    const suffixMatch = content.match(
-        /buildTypes\s*\{[\s\S]*?debug[\s\S]*?applicationIdSuffix\s*(?:=)?\s*["']([^"']+)["']/
-    );
+    let applicationId = baseApplicationId;
+    for (const suffix of suffixes) {
+        if (suffix) {
+            applicationId += suffix.startsWith('.') ? suffix : `.${suffix}`;
+        }
+    }
+    return applicationId;
+}
 
-    if (suffixMatch) {
-        applicationId += suffixMatch[1];
+/**
+ * Split `freeStagingDebug` into its flavors (`free`, `staging`) and build type (`debug`).
+ */
+function splitVariantName(
+    variant: string,
+    flavorNames: string[],
+    buildTypeNames: string[]
+): { flavors: string[]; buildType?: string } {
+    const lower = variant.toLowerCase();
+    const buildType = buildTypeNames
+        .filter(name => lower.endsWith(name.toLowerCase()))
+        .sort((a, b) => b.length - a.length)[0];
+
+    let rest = buildType ? variant.slice(0, variant.length - buildType.length) : variant;
+    const flavors: string[] = [];
+    while (rest) {
+        const flavor = flavorNames
+            .filter(name => rest.startsWith(flavors.length === 0 ? name : capitalize(name)))
+            .sort((a, b) => b.length - a.length)[0];
+        if (!flavor) {
+            break;
+        }
+        flavors.push(flavor);
+        rest = rest.slice(flavor.length);
     }
 
-    return applicationId;
+    return { flavors, buildType };
 }
 
 function toComponentName(packageName: string, activityName: string): string {
@@ -0,0 +1,647 @@
+import * as vscode from 'vscode';
+import { BuildProfile, ProfiledTask } from './buildProfile';
+import { CONFIG_NAMESPACE, CONFIG_KEYS, COMMANDS } from '../constants';
+
+const HISTORY_KEY = 'buildAnalyzer.history';
+const DEFAULT_HISTORY_SIZE = 10;
+/** Tasks kept per stored run besides the flagged ones; large builds run thousands */
+const MAX_STORED_TASKS = 200;
+
+/**
+ * Messages sent FROM the webview TO the extension
+ */
+type WebviewToExtensionMessage =
+    | { type: 'analyzeBuild' }
+    | { type: 'openReport'; file: string }
+    | { type: 'clearHistory' };
+
+/**
+ * Messages sent FROM the extension TO the webview
+ */
+type ExtensionToWebviewMessage =
+    | { type: 'update'; data: AnalyzerData };
+
+interface AnalyzerData {
+    /** Oldest first */
+    runs: BuildProfile[];
+}
+
+/**
+ * The last profiled builds, kept in workspaceState so runs can be compared.
+ */
+export class BuildProfileHistory {
+    constructor(private readonly context: vscode.ExtensionContext) {}
+
+    public async record(profile: BuildProfile): Promise<void> {
+        const size = vscode.workspace.getConfiguration(CONFIG_NAMESPACE)
+            .get<number>(CONFIG_KEYS.BUILD_PROFILE_HISTORY_SIZE) || DEFAULT_HISTORY_SIZE;
+        const runs = [...this.getRuns(), trimTasks(profile)].slice(-Math.max(1, size));
+        await this.context.workspaceState.update(HISTORY_KEY, runs);
+    }
+
+    public getRuns(): BuildProfile[] {
+        return this.context.workspaceState.get<BuildProfile[]>(HISTORY_KEY) ?? [];
+    }
+
+    public async clear(): Promise<void> {
+        await this.context.workspaceState.update(HISTORY_KEY, undefined);
+    }
+}
+
+/**
+ * Build Analyzer: where the time of a profiled build went (configuration, slowest tasks,
+ * modules) and which tasks missed the build cache or could not build incrementally,
+ * compared with an earlier profiled build.
+ */
+export class BuildAnalyzerPanel implements vscode.Disposable {
+    private static instance: BuildAnalyzerPanel | undefined;
+    private panel: vscode.WebviewPanel | undefined;
+
+    private constructor(private readonly history: BuildProfileHistory) {}
+
+    public static getInstance(history: BuildProfileHistory): BuildAnalyzerPanel {
+        if (!BuildAnalyzerPanel.instance) {
+            BuildAnalyzerPanel.instance = new BuildAnalyzerPanel(history);
+        }
+        return BuildAnalyzerPanel.instance;
+    }
+
+    public show(): void {
+        if (this.panel) {
+            this.panel.reveal(vscode.ViewColumn.One);
+            this.update();
+            return;
+        }
+
+        this.panel = vscode.window.createWebviewPanel(
+            'androidBuildAnalyzer',
+            'Build Analyzer',
+            vscode.ViewColumn.One,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            }
+        );
+
+        this.panel.webview.html = this.getWebviewContent();
+
+        this.panel.webview.onDidReceiveMessage(
+            message => this.handleWebviewMessage(message),
+            undefined
+        );
+
+        this.panel.onDidDispose(() => {
+            this.panel = undefined;
+        });
+
+        this.update();
+    }
+
+    /**
+     * Send the recorded runs to the webview, if it is open.
+     */
+    public update(): void {
+        if (!this.panel) {
+            return;
+        }
+
+        const message: ExtensionToWebviewMessage = { type: 'update', data: { runs: this.history.getRuns() } };
+        this.panel.webview.postMessage(message);
+    }
+
+    private async handleWebviewMessage(message: WebviewToExtensionMessage): Promise<void> {
+        switch (message.type) {
+            case 'analyzeBuild':
+                await vscode.commands.executeCommand(COMMANDS.ANALYZE_BUILD);
+                break;
+            case 'openReport':
+                await vscode.env.openExternal(vscode.Uri.file(message.file));
+                break;
+            case 'clearHistory':
+                await this.history.clear();
+                this.update();
+                break;
+        }
+    }
+
+    private getWebviewContent(): string {
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Build Analyzer</title>
+    <style>
+        * {
+            box-sizing: border-box;
+        }
+
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            padding: 12px 20px;
+        }
+
+        h2 {
+            font-size: 13px;
+            font-weight: 600;
+            text-transform: uppercase;
+            margin: 24px 0 8px;
+            opacity: 0.8;
+        }
+
+        #toolbar {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 8px;
+            align-items: center;
+        }
+
+        button {
+            padding: 4px 10px;
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            border-radius: 2px;
+            cursor: pointer;
+        }
+
+        button.secondary {
+            background-color: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+        }
+
+        select {
+            background-color: var(--vscode-dropdown-background);
+            color: var(--vscode-dropdown-foreground);
+            border: 1px solid var(--vscode-dropdown-border);
+            padding: 2px 4px;
+        }
+
+        /* Summary cards */
+        #cards {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 12px;
+            margin-top: 16px;
+        }
+
+        .card {
+            min-width: 120px;
+            padding: 10px 14px;
+            border: 1px solid var(--vscode-widget-border);
+            border-radius: 4px;
+        }
+
+        .card .value {
+            font-size: 24px;
+            font-weight: 600;
+        }
+
+        .card .label {
+            opacity: 0.8;
+        }
+
+        .slower { color: var(--vscode-errorForeground); }
+        .faster { color: var(--vscode-charts-green); }
+
+        .delta {
+            font-size: 11px;
+        }
+
+        .columns {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 32px;
+        }
+
+        .columns > div {
+            flex: 1;
+            min-width: 240px;
+        }
+
+        /* Bar lists */
+        .bar-row {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            margin: 3px 0;
+        }
+
+        .bar-label {
+            width: 40%;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+
+        .bar {
+            height: 10px;
+            background-color: var(--vscode-charts-blue);
+            border-radius: 2px;
+        }
+
+        .bar-count {
+            opacity: 0.8;
+        }
+
+        a {
+            color: var(--vscode-textLink-foreground);
+            cursor: pointer;
+            text-decoration: none;
+        }
+
+        a:hover {
+            text-decoration: underline;
+        }
+
+        /* History chart */
+        #history svg {
+            width: 100%;
+            height: 180px;
+        }
+
+        #history .line { fill: none; stroke: var(--vscode-charts-blue); stroke-width: 2; }
+        #history .point { fill: var(--vscode-charts-blue); }
+        #history .selected { fill: var(--vscode-charts-orange); }
+        #history .axis { stroke: var(--vscode-widget-border); }
+        #history text { fill: var(--vscode-descriptionForeground); font-size: 10px; }
+
+        table {
+            border-collapse: collapse;
+            width: 100%;
+        }
+
+        th {
+            text-align: left;
+            font-weight: 600;
+            padding: 3px 8px 3px 0;
+            opacity: 0.8;
+        }
+
+        td {
+            padding: 3px 8px 3px 0;
+            vertical-align: top;
+        }
+
+        .empty {
+            opacity: 0.7;
+            font-style: italic;
+        }
+    </style>
+</head>
+<body>
+    <div id="toolbar">
+        <button id="analyze-btn">Profile Build</button>
+        <label>Run <select id="run-select"></select></label>
+        <label>Compare with <select id="compare-select"></select></label>
+        <a id="report-link">Open Gradle Report</a>
+        <button id="clear-history-btn" class="secondary">Clear History</button>
+    </div>
+
+    <div id="cards"></div>
+
+    <div class="columns">
+        <div>
+            <h2>Build Phases</h2>
+            <div id="phases"></div>
+        </div>
+        <div>
+            <h2>Task Time by Module</h2>
+            <div id="modules"></div>
+        </div>
+    </div>
+
+    <h2>Slowest Tasks</h2>
+    <div id="slowest"></div>
+
+    <div class="columns">
+        <div>
+            <h2>Configuration by Project</h2>
+            <div id="configuration"></div>
+        </div>
+        <div>
+            <h2>History</h2>
+            <div id="history"></div>
+        </div>
+    </div>
+
+    <h2>Cache Misses</h2>
+    <div id="cache-misses"></div>
+
+    <h2>Non-incremental Tasks</h2>
+    <div id="non-incremental"></div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+        const TOP_TASKS = 15;
+        let runs = [];
+        let selected = -1;
+        let compared = -1;
+
+        document.getElementById('analyze-btn').addEventListener('click', () => {
+            vscode.postMessage({ type: 'analyzeBuild' });
+        });
+
+        document.getElementById('clear-history-btn').addEventListener('click', () => {
+            vscode.postMessage({ type: 'clearHistory' });
+        });
+
+        document.getElementById('report-link').addEventListener('click', () => {
+            const run = runs[selected];
+            if (run && run.reportFile) {
+                vscode.postMessage({ type: 'openReport', file: run.reportFile });
+            }
+        });
+
+        document.getElementById('run-select').addEventListener('change', event => {
+            selected = Number(event.target.value);
+            compared = selected - 1;
+            render();
+        });
+
+        document.getElementById('compare-select').addEventListener('change', event => {
+            compared = Number(event.target.value);
+            render();
+        });
+
+        window.addEventListener('message', event => {
+            const msg = event.data;
+            switch (msg.type) {
+                case 'update':
+                    runs = msg.data.runs;
+                    // A new run is shown against the one before it
+                    selected = runs.length - 1;
+                    compared = selected - 1;
+                    render();
+                    break;
+            }
+        });
+
+        function render() {
+            renderRunSelectors();
+            const run = runs[selected];
+            const previous = compared >= 0 ? runs[compared] : undefined;
+            document.getElementById('report-link').style.display = run && run.reportFile ? '' : 'none';
+
+            renderCards(run, previous);
+            renderBars(document.getElementById('phases'), run ? run.phases.map(p => [p.name, p.durationMs]) : [], previous &&
+                new Map(previous.phases.map(p => [p.name, p.durationMs])));
+            renderBars(document.getElementById('modules'), run ? run.moduleTotals.map(m => [m.module, m.durationMs]) : [], previous &&
+                new Map(previous.moduleTotals.map(m => [m.module, m.durationMs])));
+            renderBars(document.getElementById('configuration'), run ? run.configurationByModule.map(m => [m.module, m.durationMs]) : [], previous &&
+                new Map(previous.configurationByModule.map(m => [m.module, m.durationMs])));
+            renderTasks(document.getElementById('slowest'), run ? run.tasks.slice(0, TOP_TASKS) : [], previous,
+                'No tasks recorded', task => task.result || 'EXECUTED');
+            renderTasks(document.getElementById('cache-misses'), run ? run.tasks.filter(t => t.cacheMiss || t.cachingDisabledReason) : [], previous,
+                'Every cacheable task was up to date or restored from the build cache',
+                task => task.cacheMiss ? 'Stored new cache entry' : 'Not cached: ' + task.cachingDisabledReason);
+            renderTasks(document.getElementById('non-incremental'), run ? run.tasks.filter(t => t.fullRebuild) : [], previous,
+                'No incremental task had to rebuild all of its inputs', () => 'Full rebuild');
+            renderHistory();
+        }
+
+        function renderRunSelectors() {
+            const label = run => new Date(run.timestamp).toLocaleString() + ' — ' + run.task + ' (' + formatDuration(run.totalMs) + ')';
+
+            const runSelect = document.getElementById('run-select');
+            runSelect.innerHTML = '';
+            runs.forEach((run, i) => runSelect.appendChild(option(i, label(run), i === selected)));
+
+            const compareSelect = document.getElementById('compare-select');
+            compareSelect.innerHTML = '';
+            compareSelect.appendChild(option(-1, 'Nothing', compared < 0));
+            runs.forEach((run, i) => {
+                if (i !== selected) {
+                    compareSelect.appendChild(option(i, label(run), i === compared));
+                }
+            });
+        }
+
+        function option(value, text, isSelected) {
+            const el = document.createElement('option');
+            el.value = value;
+            el.textContent = text;
+            el.selected = isSelected;
+            return el;
+        }
+
+        function renderCards(run, previous) {
+            const container = document.getElementById('cards');
+            container.innerHTML = '';
+            if (!run) {
+                container.appendChild(emptyMessage('Profile a build to see where its time goes'));
+                return;
+            }
+
+            const executed = run => run.resultCounts.EXECUTED || 0;
+            const fromCache = run => run.resultCounts['FROM-CACHE'] || 0;
+            const cards = [
+                ['Total Build Time', run.totalMs, previous && previous.totalMs, true],
+                ['Configuration', run.configurationMs, previous && previous.configurationMs, true],
+                ['Tasks Executed', executed(run), previous && executed(previous), false],
+                ['From Cache', fromCache(run), previous && fromCache(previous), false],
+                ['Cache Misses', run.tasks.filter(t => t.cacheMiss).length, previous && previous.tasks.filter(t => t.cacheMiss).length, false]
+            ];
+
+            for (const [label, value, before, isDuration] of cards) {
+                const card = document.createElement('div');
+                card.className = 'card';
+                const valueDiv = document.createElement('div');
+                valueDiv.className = 'value';
+                valueDiv.textContent = isDuration ? formatDuration(value) : value;
+                const labelDiv = document.createElement('div');
+                labelDiv.className = 'label';
+                labelDiv.textContent = label;
+                card.appendChild(valueDiv);
+                card.appendChild(labelDiv);
+                if (before !== undefined) {
+                    card.appendChild(delta(value, before, isDuration));
+                }
+                container.appendChild(card);
+            }
+        }
+
+        /** Durations in milliseconds, optionally with the compared run's values by label */
+        function renderBars(container, entries, previousByLabel) {
+            container.innerHTML = '';
+            if (entries.length === 0) {
+                container.appendChild(emptyMessage('Nothing recorded'));
+                return;
+            }
+
+            entries.sort((a, b) => b[1] - a[1]);
+            const max = Math.max(1, entries[0][1]);
+            for (const [label, duration] of entries) {
+                const row = document.createElement('div');
+                row.className = 'bar-row';
+
+                const labelEl = document.createElement('span');
+                labelEl.className = 'bar-label';
+                labelEl.textContent = label;
+                labelEl.title = label;
+
+                const bar = document.createElement('div');
+                bar.className = 'bar';
+                bar.style.width = Math.max(2, Math.round((duration / max) * 45)) + '%';
+
+                const countEl = document.createElement('span');
+                countEl.className = 'bar-count';
+                countEl.textContent = formatDuration(duration);
+
+                row.appendChild(labelEl);
+                row.appendChild(bar);
+                row.appendChild(countEl);
+                if (previousByLabel && previousByLabel.has(label)) {
+                    row.appendChild(delta(duration, previousByLabel.get(label), true));
+                }
+                container.appendChild(row);
+            }
+        }
+
+        function renderTasks(container, tasks, previous, emptyText, describe) {
+            container.innerHTML = '';
+            if (tasks.length === 0) {
+                container.appendChild(emptyMessage(runs.length === 0 ? 'No profiled builds yet' : emptyText));
+                return;
+            }
+
+            const previousByPath = new Map(previous ? previous.tasks.map(t => [t.path, t.durationMs]) : []);
+            const table = document.createElement('table');
+            const header = document.createElement('tr');
+            for (const title of ['Task', 'Duration', previous ? 'Change' : '', 'Details']) {
+                const th = document.createElement('th');
+                th.textContent = title;
+                header.appendChild(th);
+            }
+            table.appendChild(header);
+
+            for (const task of tasks) {
+                const row = document.createElement('tr');
+
+                const pathCell = document.createElement('td');
+                pathCell.textContent = task.path;
+
+                const durationCell = document.createElement('td');
+                durationCell.textContent = formatDuration(task.durationMs);
+
+                const deltaCell = document.createElement('td');
+                if (previousByPath.has(task.path)) {
+                    deltaCell.appendChild(delta(task.durationMs, previousByPath.get(task.path), true));
+                }
+
+                const detailCell = document.createElement('td');
+                detailCell.textContent = describe(task);
+
+                row.appendChild(pathCell);
+                row.appendChild(durationCell);
+                row.appendChild(deltaCell);
+                row.appendChild(detailCell);
+                table.appendChild(row);
+            }
+            container.appendChild(table);
+        }
+
+        function renderHistory() {
+            const container = document.getElementById('history');
+            container.innerHTML = '';
+            if (runs.length === 0) {
+                container.appendChild(emptyMessage('Profile a build to start recording history'));
+                return;
+            }
+
+            const width = 600, height = 180, pad = 28;
+            const max = Math.max(1, ...runs.map(r => r.totalMs));
+            const step = runs.length > 1 ? (width - pad * 2) / (runs.length - 1) : 0;
+            const x = i => pad + i * step;
+            const y = total => height - pad - (total / max) * (height - pad * 2);
+
+            const ns = 'http://www.w3.org/2000/svg';
+            const svg = document.createElementNS(ns, 'svg');
+            svg.setAttribute('viewBox', '0 0 ' + width + ' ' + height);
+            svg.setAttribute('preserveAspectRatio', 'none');
+
+            const axis = document.createElementNS(ns, 'line');
+            axis.setAttribute('class', 'axis');
+            axis.setAttribute('x1', pad);
+            axis.setAttribute('x2', width - pad);
+            axis.setAttribute('y1', height - pad);
+            axis.setAttribute('y2', height - pad);
+            svg.appendChild(axis);
+
+            const line = document.createElementNS(ns, 'polyline');
+            line.setAttribute('class', 'line');
+            line.setAttribute('points', runs.map((r, i) => x(i) + ',' + y(r.totalMs)).join(' '));
+            svg.appendChild(line);
+
+            runs.forEach((r, i) => {
+                const point = document.createElementNS(ns, 'circle');
+                point.setAttribute('class', i === selected ? 'point selected' : 'point');
+                point.setAttribute('cx', x(i));
+                point.setAttribute('cy', y(r.totalMs));
+                point.setAttribute('r', 3);
+                const title = document.createElementNS(ns, 'title');
+                title.textContent = new Date(r.timestamp).toLocaleString() + ': ' + r.task + ' in ' + formatDuration(r.totalMs);
+                point.appendChild(title);
+                svg.appendChild(point);
+            });
+
+            const top = document.createElementNS(ns, 'text');
+            top.setAttribute('x', 0);
+            top.setAttribute('y', pad);
+            top.textContent = formatDuration(max);
+            svg.appendChild(top);
+
+            container.appendChild(svg);
+        }
+
+        /** Slower builds and more executed tasks are shown as regressions */
+        function delta(value, before, isDuration) {
+            const span = document.createElement('span');
+            const diff = value - before;
+            span.className = 'delta ' + (diff > 0 ? 'slower' : diff < 0 ? 'faster' : '');
+            const sign = diff > 0 ? '+' : diff < 0 ? '−' : '±';
+            span.textContent = sign + (isDuration ? formatDuration(Math.abs(diff)) : Math.abs(diff));
+            return span;
+        }
+
+        function formatDuration(ms) {
+            if (ms < 1000) {
+                return ms + 'ms';
+            }
+            const seconds = ms / 1000;
+            if (seconds < 60) {
+                return seconds.toFixed(1) + 's';
+            }
+            return Math.floor(seconds / 60) + 'm ' + Math.round(seconds % 60) + 's';
+        }
+
+        function emptyMessage(text) {
+            const p = document.createElement('p');
+            p.className = 'empty';
+            p.textContent = text;
+            return p;
+        }
+    </script>
+</body>
+</html>`;
+    }
+
+    public dispose(): void {
+        if (this.panel) {
+            this.panel.dispose();
+        }
+        BuildAnalyzerPanel.instance = undefined;
+    }
+}
+
+/**
+ * Keep the slowest tasks and every flagged one, so stored runs stay small.
+ */
+function trimTasks(profile: BuildProfile): BuildProfile {
+    const isFlagged = (task: ProfiledTask) => task.cacheMiss || task.cachingDisabledReason || task.fullRebuild;
+    const tasks = profile.tasks.filter((task, index) => index < MAX_STORED_TASKS || isFlagged(task));
+    return { ...profile, tasks };
+}
@@ -0,0 +1,176 @@
+/**
+ * Reads the HTML report written by `gradlew --profile` (`build/reports/profile/profile-*.html`)
+ * and the `--info` console output of the same build, which tells which tasks missed the
+ * build cache and which incremental tasks had to rebuild everything.
+ */
+
+export interface ProfiledTask {
+    /** e.g. `:app:compileDebugKotlin` */
+    path: string;
+    /** Project path, `:` for the root project */
+    module: string;
+    durationMs: number;
+    /** `UP-TO-DATE`, `FROM-CACHE`, `NO-SOURCE`, `SKIPPED`...; empty when the task ran */
+    result: string;
+    /** Cacheable, but ran and stored a new cache entry */
+    cacheMiss?: boolean;
+    /** Why Gradle did not use the build cache for the task */
+    cachingDisabledReason?: string;
+    /** An incremental task that had to process all of its inputs */
+    fullRebuild?: boolean;
+}
+
+export interface BuildProfile {
+    timestamp: number;
+    /** The profiled task, e.g. `:app:assembleDebug` */
+    task: string;
+    /** The HTML report the profile was read from */
+    reportFile?: string;
+    totalMs: number;
+    /** Summary rows: Startup, Settings and buildSrc, Configuring Projects, Task Execution... */
+    phases: { name: string; durationMs: number }[];
+    configurationMs: number;
+    configurationByModule: { module: string; durationMs: number }[];
+    /** Task execution time per project */
+    moduleTotals: { module: string; durationMs: number }[];
+    /** Number of tasks per result, `EXECUTED` for tasks that ran */
+    resultCounts: Record<string, number>;
+    /** Slowest first */
+    tasks: ProfiledTask[];
+}
+
+/**
+ * Parse a `--profile` HTML report. Its tabs are `<h2>` headed tables of
+ * description/duration(/result) rows.
+ */
+export function parseProfileReport(html: string, task: string, timestamp: number): BuildProfile {
+    const tables = readTables(html);
+
+    const phases = (tables.get('Summary') ?? [])
+        .map(([name, duration]) => ({ name, durationMs: parseDuration(duration) }));
+    const phase = (pattern: RegExp) => phases.find(p => pattern.test(p.name))?.durationMs ?? 0;
+
+    const configurationRows = tables.get('Configuration') ?? [];
+    const configurationByModule = configurationRows
+        .filter(([project]) => project !== 'All projects')
+        .map(([module, duration]) => ({ module, durationMs: parseDuration(duration) }))
+        .sort((a, b) => b.durationMs - a.durationMs);
+
+    const moduleTotals: BuildProfile['moduleTotals'] = [];
+    const tasks: ProfiledTask[] = [];
+    const resultCounts: Record<string, number> = {};
+    for (const [name, duration, result = ''] of tables.get('Task Execution') ?? []) {
+        if (result === '(total)') {
+            moduleTotals.push({ module: name, durationMs: parseDuration(duration) });
+        } else if (name.startsWith(':')) {
+            tasks.push({ path: name, module: projectOf(name), durationMs: parseDuration(duration), result });
+            const key = result || 'EXECUTED';
+            resultCounts[key] = (resultCounts[key] ?? 0) + 1;
+        }
+    }
+
+    return {
+        timestamp,
+        task,
+        totalMs: phase(/^Total Build Time/i),
+        phases: phases.filter(p => !/^Total Build Time/i.test(p.name)),
+        configurationMs: phase(/^Configuring Projects/i)
+            || parseDuration(configurationRows.find(([project]) => project === 'All projects')?.[1] ?? ''),
+        configurationByModule,
+        moduleTotals: moduleTotals.sort((a, b) => b.durationMs - a.durationMs),
+        resultCounts,
+        tasks: tasks.sort((a, b) => b.durationMs - a.durationMs)
+    };
+}
+
+/**
+ * Mark cache misses, tasks that cannot be cached and full rebuilds of incremental tasks
+ * from the `--info` output of the profiled build.
+ */
+export function applyBuildLog(profile: BuildProfile, output: string): void {
+    const byPath = new Map(profile.tasks.map(task => [task.path, task]));
+    const lines = output.split(/\r?\n/);
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        const stored = /Stored cache entry for task '([^']+)'/.exec(line);
+        if (stored) {
+            const task = byPath.get(stored[1]);
+            if (task) {
+                task.cacheMiss = true;
+            }
+            continue;
+        }
+
+        // Caching disabled for task ':app:x' because:
+        //   Not worth caching.
+        const disabled = /Caching disabled for task '([^']+)' because:\s*(.*)$/.exec(line);
+        if (disabled) {
+            const task = byPath.get(disabled[1]);
+            if (task) {
+                task.cachingDisabledReason = (disabled[2] || lines[i + 1] || '').trim().replace(/\.$/, '');
+            }
+            continue;
+        }
+
+        const rebuild = /full rebuild for incremental task '([^']+)'/.exec(line)
+            ?? /Task '([^']+)' is not incremental/.exec(line);
+        if (rebuild) {
+            const task = byPath.get(rebuild[1]);
+            if (task) {
+                task.fullRebuild = true;
+            }
+        }
+    }
+}
+
+/**
+ * `1h2m3.45s`, `2m0.10s`, `0.123s` -> milliseconds.
+ */
+export function parseDuration(text: string): number {
+    const match = /^(?:(\d+)h)?\s*(?:(\d+)m)?\s*(?:([\d.]+)s)?$/.exec(text.trim());
+    if (!match) {
+        return 0;
+    }
+    const [, hours, minutes, seconds] = match;
+    return Math.round(((Number(hours ?? 0) * 60 + Number(minutes ?? 0)) * 60 + Number(seconds ?? 0)) * 1000);
+}
+
+/** `:feature:login:compileDebugKotlin` -> `:feature:login`, `:clean` -> `:` */
+function projectOf(taskPath: string): string {
+    const index = taskPath.lastIndexOf(':');
+    return index > 0 ? taskPath.substring(0, index) : ':';
+}
+
+/**
+ * The rows of each tab's table, keyed by the tab's `<h2>` title.
+ */
+function readTables(html: string): Map<string, string[][]> {
+    const tables = new Map<string, string[][]>();
+    const sections = html.split(/<h2>/i).slice(1);
+
+    for (const section of sections) {
+        const title = decode(section.substring(0, section.search(/<\/h2>/i)));
+        const rows: string[][] = [];
+        for (const row of section.matchAll(/<tr[^>]*>([\s\S]*?)<\/tr>/gi)) {
+            const cells = Array.from(row[1].matchAll(/<td[^>]*>([\s\S]*?)<\/td>/gi), cell => decode(cell[1]));
+            if (cells.length > 0) {
+                rows.push(cells);
+            }
+        }
+        tables.set(title, rows);
+    }
+    return tables;
+}
+
+function decode(html: string): string {
+    return html
+        .replace(/<[^>]+>/g, '')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&')
+        .trim();
+}
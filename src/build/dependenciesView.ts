@@ -0,0 +1,330 @@
+import * as vscode from 'vscode';
+import { GradleProcessManager } from '../gradleProcessManager';
+import { GradleModule, moduleTask } from './gradleModules';
+import { ModuleRegistry } from './moduleRegistry';
+import { VariantManager } from './variantManager';
+import { Logger } from '../logger';
+import { VIEWS } from '../constants';
+import { Dependency, isConflict, parseDependencyTree } from './dependencyTree';
+
+interface DependencyTree {
+    configuration: string;
+    dependencies: Dependency[];
+}
+
+type DependencyNodeKind =
+    | { type: 'module'; module: GradleModule }
+    | { type: 'dependency'; dependency: Dependency }
+    | { type: 'message' };
+
+/**
+ * "Dependencies" view: the resolved runtime classpath of every application and library
+ * module for its selected build variant, and of every JVM module, as printed by
+ * `gradlew :module:dependencies`. Trees are cached per module and configuration until
+ * the project is synced or refreshed.
+ */
+export class DependenciesView implements vscode.TreeDataProvider<DependencyNode>, vscode.Disposable {
+    private _onDidChangeTreeData: vscode.EventEmitter<DependencyNode | undefined | null | void> = new vscode.EventEmitter<DependencyNode | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<DependencyNode | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    private readonly cache = new Map<string, DependencyTree>();
+    private readonly loading = new Map<string, Promise<DependencyTree | undefined>>();
+    private readonly loadErrors = new Map<string, string>();
+    /** Gradle runs one `dependencies` task at a time */
+    private queue: Promise<unknown> = Promise.resolve();
+    private filter = '';
+    private treeView: vscode.TreeView<DependencyNode> | undefined;
+    private readonly logger: Logger;
+
+    constructor(
+        private readonly gradleManager: GradleProcessManager,
+        private readonly moduleRegistry: ModuleRegistry,
+        private readonly variantManager: VariantManager | undefined,
+        private readonly workspaceRoot: string
+    ) {
+        this.logger = Logger.getInstance();
+        // The cache is keyed by variant, so a refresh shows the new variant's tree
+        variantManager?.onVariantChanged(() => this.refresh());
+    }
+
+    setTreeView(treeView: vscode.TreeView<DependencyNode>): void {
+        this.treeView = treeView;
+        this.updateDescription();
+    }
+
+    refresh(): void {
+        this.updateDescription();
+        this._onDidChangeTreeData.fire();
+    }
+
+    /**
+     * Drop every cached tree; expanded modules are resolved again.
+     */
+    clearCache(): void {
+        this.cache.clear();
+        this.loadErrors.clear();
+        this.refresh();
+    }
+
+    /**
+     * Ask for an artifact and show only the paths that pull it in.
+     */
+    async promptFilter(): Promise<void> {
+        const value = await vscode.window.showInputBox({
+            title: 'Why Is This Dependency Here?',
+            prompt: 'Show the dependency paths leading to artifacts whose group:artifact contains this text',
+            placeHolder: 'e.g. okhttp or androidx.annotation:annotation',
+            value: this.filter
+        });
+        if (value !== undefined) {
+            this.filter = value.trim();
+            this.refresh();
+        }
+    }
+
+    clearFilter(): void {
+        this.filter = '';
+        this.refresh();
+    }
+
+    getTreeItem(element: DependencyNode): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: DependencyNode): Promise<DependencyNode[]> {
+        if (!element) {
+            return this.getModuleNodes();
+        }
+
+        const kind = element.kind;
+        switch (kind.type) {
+            case 'module':
+                return this.getModuleChildren(element, kind.module);
+            case 'dependency':
+                return this.filterDependencies(kind.dependency.children)
+                    .map((dependency, i) => this.createDependencyNode(dependency, `${element.id}/${i}`));
+            default:
+                return [];
+        }
+    }
+
+    private getModuleNodes(): DependencyNode[] {
+        const modules = this.moduleRegistry.getModules(['application', 'library', 'jvm']);
+        if (modules.length === 0) {
+            return [message('No application or library modules found', 'info')];
+        }
+
+        return modules.map(module => {
+            const key = this.cacheKey(module);
+            // Expanding a module resolves its tree, so a search only opens the ones already resolved
+            const node = new DependencyNode(
+                module.path,
+                { type: 'module', module },
+                this.filter && this.cache.has(key) ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed
+            );
+            // Ids change with the variant and the filter so VS Code does not reuse stale expansion state
+            node.id = `${key}|${this.filter}`;
+            node.description = this.getConfiguration(module);
+            node.iconPath = new vscode.ThemeIcon(module.type === 'application' ? 'device-mobile' : 'library');
+            return node;
+        });
+    }
+
+    private async getModuleChildren(element: DependencyNode, module: GradleModule): Promise<DependencyNode[]> {
+        const key = this.cacheKey(module);
+
+        const error = this.loadErrors.get(key);
+        if (error) {
+            return [message(`Failed to resolve dependencies: ${error}`, 'error')];
+        }
+
+        const tree = this.cache.get(key) ?? await this.load(module);
+        if (!tree) {
+            return [message(`Failed to resolve dependencies: ${this.loadErrors.get(key) ?? 'unknown error'}`, 'error')];
+        }
+        if (tree.dependencies.length === 0) {
+            return [message(`No dependencies in ${tree.configuration}`, 'info')];
+        }
+
+        const visible = this.filterDependencies(tree.dependencies);
+        if (visible.length === 0) {
+            return [message(`No path to "${this.filter}"`, 'info')];
+        }
+        return visible.map((dependency, i) => this.createDependencyNode(dependency, `${element.id}/${i}`));
+    }
+
+    /**
+     * Resolve a module's tree for its selected variant. Concurrent requests share one run.
+     */
+    private load(module: GradleModule): Promise<DependencyTree | undefined> {
+        const key = this.cacheKey(module);
+        const pending = this.loading.get(key);
+        if (pending) {
+            return pending;
+        }
+
+        const configuration = this.getConfiguration(module);
+        const run = this.queue.then(async () => {
+            try {
+                const result = await vscode.window.withProgress(
+                    { location: { viewId: VIEWS.DEPENDENCIES }, title: `Resolving ${module.path} dependencies` },
+                    () => this.gradleManager.runCommand(
+                        this.workspaceRoot,
+                        [moduleTask(module, 'dependencies'), '--configuration', configuration]
+                    )
+                );
+                const tree: DependencyTree = { configuration, dependencies: parseDependencyTree(result.stdout) };
+                this.cache.set(key, tree);
+                this.logger.success(`Resolved ${countDependencies(tree.dependencies)} dependencies of ${module.path} (${configuration})`);
+                return tree;
+            } catch (error) {
+                const reason = error instanceof Error ? error.message : String(error);
+                this.loadErrors.set(key, reason);
+                this.logger.error(`Failed to resolve dependencies of ${module.path}: ${reason}`);
+                return undefined;
+            } finally {
+                this.loading.delete(key);
+            }
+        });
+
+        this.loading.set(key, run);
+        this.queue = run;
+        return run;
+    }
+
+    private createDependencyNode(dependency: Dependency, id: string): DependencyNode {
+        const collapsible = dependency.children.length === 0
+            ? vscode.TreeItemCollapsibleState.None
+            : this.filter ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed;
+        const node = new DependencyNode(dependency.id, { type: 'dependency', dependency }, collapsible);
+        node.id = id;
+        node.description = describeVersion(dependency);
+        node.tooltip = describeTooltip(dependency);
+        node.contextValue = 'dependency';
+
+        if (this.filter && matchesFilter(dependency, this.filter)) {
+            const start = dependency.id.toLowerCase().indexOf(this.filter.toLowerCase());
+            node.label = { label: dependency.id, highlights: start >= 0 ? [[start, start + this.filter.length]] : [] };
+        }
+
+        if (dependency.failed || dependency.unresolved) {
+            node.iconPath = new vscode.ThemeIcon('error', new vscode.ThemeColor('errorForeground'));
+        } else if (isConflict(dependency)) {
+            node.iconPath = new vscode.ThemeIcon('arrow-up', new vscode.ThemeColor('editorWarning.foreground'));
+        } else if (dependency.constraint) {
+            node.iconPath = new vscode.ThemeIcon('lock');
+        } else if (dependency.omitted) {
+            node.iconPath = new vscode.ThemeIcon('references');
+        } else {
+            node.iconPath = new vscode.ThemeIcon(dependency.id.startsWith('project ') ? 'folder-library' : 'package');
+        }
+        return node;
+    }
+
+    /** With a filter, only dependencies that are or pull in a match */
+    private filterDependencies(dependencies: Dependency[]): Dependency[] {
+        if (!this.filter) {
+            return dependencies;
+        }
+        return dependencies.filter(dependency => containsMatch(dependency, this.filter));
+    }
+
+    /**
+     * `<variant>RuntimeClasspath` for Android modules; JVM modules have no variants.
+     */
+    private getConfiguration(module: GradleModule): string {
+        if (module.type === 'jvm') {
+            return 'runtimeClasspath';
+        }
+        return `${this.variantManager?.getCurrentVariant(module.path) ?? 'debug'}RuntimeClasspath`;
+    }
+
+    private cacheKey(module: GradleModule): string {
+        return `${module.path}|${this.getConfiguration(module)}`;
+    }
+
+    private updateDescription(): void {
+        if (this.treeView) {
+            this.treeView.description = this.filter ? `why "${this.filter}"` : undefined;
+        }
+    }
+
+    dispose(): void {
+        this._onDidChangeTreeData.dispose();
+    }
+}
+
+export class DependencyNode extends vscode.TreeItem {
+    constructor(
+        label: string,
+        public readonly kind: DependencyNodeKind,
+        collapsibleState: vscode.TreeItemCollapsibleState
+    ) {
+        super(label, collapsibleState);
+    }
+}
+
+/**
+ * `1.6.0 → 1.7.0`, `1.12.0 (constraint)`, `1.0 (see above)`...
+ */
+function describeVersion(dependency: Dependency): string {
+    let version = dependency.requestedVersion ?? '';
+    if (dependency.resolvedVersion) {
+        version = version ? `${version} → ${dependency.resolvedVersion}` : dependency.resolvedVersion;
+    }
+
+    const notes: string[] = [];
+    if (dependency.constraint) {
+        notes.push('constraint');
+    }
+    if (dependency.omitted) {
+        notes.push('see above');
+    }
+    if (dependency.unresolved) {
+        notes.push('not resolved');
+    }
+    if (dependency.failed) {
+        notes.push('failed');
+    }
+    return notes.length > 0 ? `${version} (${notes.join(', ')})`.trim() : version;
+}
+
+function describeTooltip(dependency: Dependency): string {
+    const lines = [dependency.id];
+    if (dependency.requestedVersion) {
+        lines.push(`Requested: ${dependency.requestedVersion}`);
+    }
+    if (dependency.resolvedVersion) {
+        lines.push(isConflict(dependency)
+            ? `Resolved: ${dependency.resolvedVersion} (conflict resolution or a constraint picked another version)`
+            : `Resolved: ${dependency.resolvedVersion}`);
+    }
+    if (dependency.constraint) {
+        lines.push('A dependency constraint, not a dependency');
+    }
+    if (dependency.omitted) {
+        lines.push('Dependencies omitted: listed where this artifact first appears');
+    }
+    if (dependency.unresolved || dependency.failed) {
+        lines.push('Gradle could not resolve this dependency');
+    }
+    return lines.join('\n');
+}
+
+function matchesFilter(dependency: Dependency, filter: string): boolean {
+    return dependency.id.toLowerCase().includes(filter.toLowerCase());
+}
+
+function containsMatch(dependency: Dependency, filter: string): boolean {
+    return matchesFilter(dependency, filter) || dependency.children.some(child => containsMatch(child, filter));
+}
+
+function countDependencies(dependencies: Dependency[]): number {
+    return dependencies.reduce((count, dependency) => count + 1 + countDependencies(dependency.children), 0);
+}
+
+function message(text: string, icon: string): DependencyNode {
+    const node = new DependencyNode(text, { type: 'message' }, vscode.TreeItemCollapsibleState.None);
+    node.iconPath = new vscode.ThemeIcon(icon);
+    return node;
+}
@@ -0,0 +1,106 @@
+/**
+ * Reads the dependency trees Gradle prints for `gradlew dependencies --configuration <name>`.
+ */
+
+/**
+ * A node of the `gradlew dependencies` tree.
+ */
+export interface Dependency {
+    /** `group:artifact`, or `project :core` for module dependencies */
+    id: string;
+    /** Version as declared, e.g. `1.2`, `{strictly 1.0}`; empty when managed by a BOM or constraint */
+    requestedVersion?: string;
+    /** Version (or module) Gradle selected instead, from `1.2 -> 1.5` */
+    resolvedVersion?: string;
+    /** `(c)`: a dependency constraint, not a dependency */
+    constraint: boolean;
+    /** `(*)`: children already listed earlier in the tree */
+    omitted: boolean;
+    /** `(n)`: not resolved */
+    unresolved: boolean;
+    failed: boolean;
+    children: Dependency[];
+}
+
+/**
+ * Parse the ASCII tree printed by `gradlew dependencies --configuration <name>`:
+ *
+ *     +--- androidx.core:core-ktx:1.12.0
+ *     |    +--- androidx.annotation:annotation:1.6.0 -> 1.7.0 (*)
+ *     |    \--- androidx.core:core:1.12.0 (c)
+ *     \--- project :core
+ */
+export function parseDependencyTree(output: string): Dependency[] {
+    const roots: Dependency[] = [];
+    const stack: Dependency[] = [];
+
+    for (const line of output.split(/\r?\n/)) {
+        const match = /^((?:[|\s] {4})*)[+\\]--- (.+)$/.exec(line);
+        if (!match) {
+            // The legend after the tree ends it
+            if (roots.length > 0 && line.trim() === '') {
+                break;
+            }
+            continue;
+        }
+
+        const depth = match[1].length / 5;
+        const dependency = parseDependency(match[2]);
+        stack.length = depth;
+        const parent = stack[depth - 1];
+        if (parent) {
+            parent.children.push(dependency);
+        } else {
+            roots.push(dependency);
+        }
+        stack.push(dependency);
+    }
+
+    return roots;
+}
+
+function parseDependency(text: string): Dependency {
+    const dependency: Dependency = {
+        id: '',
+        constraint: false,
+        omitted: false,
+        unresolved: false,
+        failed: false,
+        children: []
+    };
+
+    let rest = text.trim();
+    let marker: RegExpExecArray | null;
+    while ((marker = /\s+(\(\*\)|\(c\)|\(n\)|FAILED)$/.exec(rest)) !== null) {
+        switch (marker[1]) {
+            case '(*)': dependency.omitted = true; break;
+            case '(c)': dependency.constraint = true; break;
+            case '(n)': dependency.unresolved = true; break;
+            case 'FAILED': dependency.failed = true; break;
+        }
+        rest = rest.substring(0, marker.index);
+    }
+
+    const [requested, resolved] = rest.split(' -> ');
+    dependency.resolvedVersion = resolved?.trim();
+
+    if (requested.startsWith('project ')) {
+        dependency.id = requested.trim();
+        return dependency;
+    }
+
+    // group:artifact[:version]; the version may be a rich constraint such as {strictly 1.0}
+    const parts = requested.trim().split(':');
+    dependency.id = parts.slice(0, 2).join(':');
+    dependency.requestedVersion = parts.slice(2).join(':') || undefined;
+    return dependency;
+}
+
+/** `1.2 -> 1.5`: Gradle picked a different version than the one requested */
+export function isConflict(dependency: Dependency): boolean {
+    // {strictly 1.0} -> 1.0 is the requested version, not a conflict
+    const requested = dependency.requestedVersion?.replace(/^\{\w+\s+|\}$/g, '');
+    return !!requested
+        && !!dependency.resolvedVersion
+        && requested !== dependency.resolvedVersion;
+}
@@ -0,0 +1,127 @@
+/**
+ * Small helpers for reading values out of Groovy and Kotlin DSL build scripts without
+ * evaluating them. They understand the common declarative forms only.
+ */
+
+const CONTAINER_CALLS = ['create', 'getByName', 'register', 'maybeCreate', 'named'];
+const NON_ENTRY_BLOCKS = new Set(['all', 'configureEach', 'whenObjectAdded', 'matching', 'each', 'forEach']);
+
+/**
+ * The content between the braces of the first `name { ... }` block, or undefined.
+ */
+export function extractBlock(content: string, blockName: string): string | undefined {
+    const match = new RegExp(`\\b${blockName}\\s*\\{`).exec(content);
+    if (!match) {
+        return undefined;
+    }
+
+    const start = match.index + match[0].length;
+    let depth = 1;
+    for (let i = start; i < content.length; i++) {
+        if (content[i] === '{') {
+            depth++;
+        } else if (content[i] === '}') {
+            depth--;
+            if (depth === 0) {
+                return content.substring(start, i);
+            }
+        }
+    }
+    return undefined;
+}
+
+/**
+ * The entries of a named domain object container such as `buildTypes` or `productFlavors`,
+ * mapped to their configuration bodies. Handles `name { }` (Groovy) and
+ * `create("name") { }` / `getByName("name") { }` / `register("name")` (KTS).
+ */
+export function readNamedBlocks(blockContent: string): Map<string, string> {
+    const entries = new Map<string, string>();
+    const callPattern = new RegExp(`(?:${CONTAINER_CALLS.join('|')})\\s*\\(\\s*["'](\\w+)["']\\s*\\)\\s*(\\{)?`, 'y');
+    const groovyPattern = /(\w+)\s*\{/y;
+
+    let depth = 0;
+    for (let i = 0; i < blockContent.length; i++) {
+        const char = blockContent[i];
+        if (char === '{') {
+            depth++;
+            continue;
+        }
+        if (char === '}') {
+            depth--;
+            continue;
+        }
+        if (depth !== 0 || !/\w/.test(char) || (i > 0 && /[\w.]/.test(blockContent[i - 1]))) {
+            continue;
+        }
+
+        callPattern.lastIndex = i;
+        groovyPattern.lastIndex = i;
+        const call = callPattern.exec(blockContent);
+        const match = call ?? groovyPattern.exec(blockContent);
+        if (!match) {
+            continue;
+        }
+        const name = match[1];
+        if (NON_ENTRY_BLOCKS.has(name) || CONTAINER_CALLS.includes(name)) {
+            continue;
+        }
+
+        const hasBody = call ? call[2] !== undefined : true;
+        const end = match.index + match[0].length;
+        const body = hasBody ? readUntilClosingBrace(blockContent, end) : '';
+        entries.set(name, (entries.get(name) ?? '') + body);
+        i = hasBody ? end + body.length : end - 1;
+    }
+
+    return entries;
+}
+
+/**
+ * A string assignment directly in a block body: `name = "value"`, `name "value"`
+ * or `name.set("value")`.
+ */
+export function readStringProperty(body: string, name: string): string | undefined {
+    const match = new RegExp(`\\b${name}\\s*(?:=\\s*|\\.set\\s*\\(\\s*|\\(\\s*|\\s+)["']([^"']*)["']`).exec(topLevel(body));
+    return match?.[1];
+}
+
+/**
+ * `debug` -> `Debug`, as used when joining flavor and build type names into a variant.
+ */
+export function capitalize(name: string): string {
+    return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function readUntilClosingBrace(content: string, start: number): string {
+    let depth = 1;
+    for (let i = start; i < content.length; i++) {
+        if (content[i] === '{') {
+            depth++;
+        } else if (content[i] === '}') {
+            depth--;
+            if (depth === 0) {
+                return content.substring(start, i);
+            }
+        }
+    }
+    return content.substring(start);
+}
+
+/**
+ * The body with nested blocks removed, so properties of inner blocks are not picked up.
+ */
+function topLevel(body: string): string {
+    let result = '';
+    let depth = 0;
+    for (const char of body) {
+        if (char === '{') {
+            depth++;
+        } else if (char === '}') {
+            depth = Math.max(0, depth - 1);
+        } else if (depth === 0) {
+            result += char;
+        }
+    }
+    return result;
+}
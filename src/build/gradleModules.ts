@@ -0,0 +1,239 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+const SETTINGS_FILES = ['settings.gradle.kts', 'settings.gradle'];
+const BUILD_FILES = ['build.gradle.kts', 'build.gradle'];
+
+/** What a module builds, from the plugins its build file applies; only Android modules have build variants */
+export type GradleModuleType = 'application' | 'library' | 'test' | 'jvm' | 'other';
+
+/**
+ * A Gradle project included in the build.
+ */
+export interface GradleModule {
+    /** Gradle project path, e.g. `:feature:login` (`:` for the root project) */
+    path: string;
+    /** Absolute directory of the project */
+    dir: string;
+    type: GradleModuleType;
+}
+
+/** Modules by workspace root, until a settings or build file changes */
+const moduleCache = new Map<string, GradleModule[]>();
+
+/**
+ * The modules of `readGradleModules`, read once per workspace until `clearModuleCache`.
+ */
+export function getGradleModules(workspaceRoot: string): GradleModule[] {
+    let modules = moduleCache.get(workspaceRoot);
+    if (!modules) {
+        modules = readGradleModules(workspaceRoot);
+        moduleCache.set(workspaceRoot, modules);
+    }
+    return modules;
+}
+
+/**
+ * Forget the cached modules, so the next `getGradleModules` re-reads the settings and build files.
+ */
+export function clearModuleCache(workspaceRoot: string): void {
+    moduleCache.delete(workspaceRoot);
+}
+
+/**
+ * Read the modules included from `settings.gradle(.kts)`.
+ * Handles Groovy (`include ':a', ':b'`) and KTS (`include(":a", ":b")`) forms,
+ * including lists spanning several lines, and `project(":a").projectDir = ...`
+ * overrides. Returns an empty list when no settings file exists.
+ */
+export function readGradleModules(workspaceRoot: string): GradleModule[] {
+    const settingsFile = SETTINGS_FILES
+        .map(name => path.join(workspaceRoot, name))
+        .find(candidate => fs.existsSync(candidate));
+    if (!settingsFile) {
+        return [];
+    }
+
+    let content: string;
+    try {
+        content = stripComments(fs.readFileSync(settingsFile, 'utf8'));
+    } catch {
+        return [];
+    }
+
+    const projectDirs = readProjectDirOverrides(content, workspaceRoot);
+    const modules = new Map<string, GradleModule>();
+    // Groovy lists continue on the next line after a trailing comma
+    const includePattern = /\binclude(?:\s*\(([^)]*)\)|[ \t]+((?:[^\n]*,[ \t]*\r?\n)*[^\n]*))/g;
+    let match;
+    while ((match = includePattern.exec(content)) !== null) {
+        const args = match[1] ?? match[2] ?? '';
+        const namePattern = /["']([^"']+)["']/g;
+        let nameMatch;
+        while ((nameMatch = namePattern.exec(args)) !== null) {
+            const projectPath = normalizeProjectPath(nameMatch[1]);
+            if (!modules.has(projectPath)) {
+                const dir = projectDirs.get(projectPath) ?? defaultProjectDir(workspaceRoot, projectPath);
+                modules.set(projectPath, createModule(projectPath, dir));
+            }
+        }
+    }
+
+    return Array.from(modules.values());
+}
+
+/**
+ * Classify a module from the plugins applied in its build file: `com.android.application`
+ * (or its version catalog alias) is an application, `com.android.test` a test module,
+ * the Android library and dynamic feature plugins a library, and the Java or Kotlin JVM
+ * plugins a plain JVM module.
+ */
+export function classifyModule(moduleDir: string): GradleModuleType {
+    const buildFile = BUILD_FILES
+        .map(name => path.join(moduleDir, name))
+        .find(candidate => fs.existsSync(candidate));
+    if (!buildFile) {
+        return 'other';
+    }
+
+    let plugins: string;
+    try {
+        plugins = readPluginDeclarations(stripComments(fs.readFileSync(buildFile, 'utf8')));
+    } catch {
+        return 'other';
+    }
+
+    if (/com\.android\.application|android[.-]?application|androidApplication/i.test(plugins)) {
+        return 'application';
+    }
+    if (/com\.android\.test|android[.-]test\b|androidTest\b/i.test(plugins)) {
+        return 'test';
+    }
+    if (/com\.android\.(?:library|dynamic-feature)|android[.-]?library|androidLibrary|dynamic[.-]?feature/i.test(plugins)) {
+        return 'library';
+    }
+    if (/java-library|["'`]java["'`]|^\s*java\s*$|kotlin\s*\(\s*["']jvm["']|kotlin[.-]jvm|kotlinJvm/im.test(plugins)) {
+        return 'jvm';
+    }
+    return 'other';
+}
+
+/**
+ * Find the module that owns a file: the included module with the deepest directory
+ * containing it, or else the nearest directory with a build file below the workspace root.
+ */
+export function findModuleForFile(
+    workspaceRoot: string,
+    filePath: string,
+    modules: GradleModule[] = getGradleModules(workspaceRoot)
+): GradleModule | undefined {
+    let owner: GradleModule | undefined;
+    for (const module of modules) {
+        if (isInside(module.dir, filePath) && (!owner || module.dir.length > owner.dir.length)) {
+            owner = module;
+        }
+    }
+    if (owner) {
+        return owner;
+    }
+
+    let dir = path.dirname(filePath);
+    while (isInside(workspaceRoot, dir)) {
+        if (BUILD_FILES.some(name => fs.existsSync(path.join(dir, name)))) {
+            const relative = path.relative(workspaceRoot, dir);
+            const segments = relative ? relative.split(path.sep) : [];
+            return createModule(`:${segments.join(':')}`, dir);
+        }
+
+        const parent = path.dirname(dir);
+        if (parent === dir) {
+            break;
+        }
+        dir = parent;
+    }
+
+    return undefined;
+}
+
+/**
+ * Build the module for a configured module name such as `app` or `:feature:login`.
+ */
+export function moduleFromName(workspaceRoot: string, name: string): GradleModule {
+    const projectPath = normalizeProjectPath(name);
+    const included = getGradleModules(workspaceRoot).find(module => module.path === projectPath);
+    return included ?? createModule(projectPath, defaultProjectDir(workspaceRoot, projectPath));
+}
+
+/**
+ * Qualify a task name with a module path: `:app` + `lintDebug` -> `:app:lintDebug`.
+ */
+export function moduleTask(module: GradleModule, task: string): string {
+    return module.path === ':' ? `:${task}` : `${module.path}:${task}`;
+}
+
+function createModule(projectPath: string, dir: string): GradleModule {
+    return { path: projectPath, dir, type: classifyModule(dir) };
+}
+
+function defaultProjectDir(workspaceRoot: string, projectPath: string): string {
+    return path.join(workspaceRoot, ...projectPath.split(':').filter(Boolean));
+}
+
+/**
+ * Directories set with `project(":a").projectDir = file("libs/a")` (KTS) or
+ * `project(':a').projectDir = new File(rootDir, 'libs/a')` (Groovy), by project path.
+ */
+function readProjectDirOverrides(content: string, workspaceRoot: string): Map<string, string> {
+    const overrides = new Map<string, string>();
+    const pattern = /project\s*\(\s*["']([^"']+)["']\s*\)\s*\.projectDir\s*=\s*(?:new\s+)?(?:file|File)\s*\(\s*(?:(?:rootDir|settingsDir|rootProject\.projectDir)\s*,\s*)?["']([^"']+)["']/g;
+    let match;
+    while ((match = pattern.exec(content)) !== null) {
+        overrides.set(normalizeProjectPath(match[1]), path.resolve(workspaceRoot, match[2]));
+    }
+    return overrides;
+}
+
+/**
+ * The `plugins { }` block and `apply plugin:` / `apply(plugin = ...)` lines of a build file.
+ */
+function readPluginDeclarations(content: string): string {
+    const declarations: string[] = [];
+
+    const block = /\bplugins\s*\{/.exec(content);
+    if (block) {
+        let depth = 1;
+        let i = block.index + block[0].length;
+        for (; i < content.length && depth > 0; i++) {
+            if (content[i] === '{') {
+                depth++;
+            } else if (content[i] === '}') {
+                depth--;
+            }
+        }
+        declarations.push(content.substring(block.index + block[0].length, i));
+    }
+
+    const applyPattern = /\bapply\s*(?:\(\s*plugin\s*=|plugin\s*:)\s*["']([^"']+)["']/g;
+    let match;
+    while ((match = applyPattern.exec(content)) !== null) {
+        declarations.push(match[1]);
+    }
+
+    return declarations.join('\n');
+}
+
+function normalizeProjectPath(name: string): string {
+    const trimmed = name.trim();
+    return trimmed.startsWith(':') ? trimmed : `:${trimmed}`;
+}
+
+function isInside(dir: string, filePath: string): boolean {
+    const relative = path.relative(dir, filePath);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+function stripComments(content: string): string {
+    return content
+        .replace(/\/\*[\s\S]*?\*\//g, '')
+        .replace(/(^|[^:])\/\/.*$/gm, '$1');
+}
@@ -0,0 +1,371 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { GradleProcessManager } from '../gradleProcessManager';
+import { Logger } from '../logger';
+import { COMMANDS } from '../constants';
+
+const CACHE_KEY = 'gradleTasks.cache';
+const FAVORITES_KEY = 'gradleTasks.favorites';
+const RECENT_KEY = 'gradleTasks.recent';
+const MAX_RECENT = 10;
+
+/** Task type contributed in package.json `taskDefinitions` */
+export const GRADLE_TASK_TYPE = 'android-gradle';
+
+/**
+ * A task listed by `gradlew tasks --all`
+ */
+export interface GradleTask {
+    /** Fully qualified path, e.g. `:app:assembleDebug` */
+    path: string;
+    name: string;
+    /** Project path, `:` for the root project */
+    project: string;
+    group: string;
+    description?: string;
+}
+
+interface TaskCache {
+    timestamp: number;
+    tasks: GradleTask[];
+}
+
+type GradleTaskItemType =
+    | 'section'
+    | 'module'
+    | 'group'
+    | 'task'
+    | 'message';
+
+/**
+ * "Gradle Tasks" view: pinned and recently run tasks, then every module's tasks
+ * grouped by task group. The task list is cached per workspace until refreshed.
+ */
+export class GradleTasksView implements vscode.TreeDataProvider<GradleTaskNode>, vscode.Disposable {
+    private _onDidChangeTreeData: vscode.EventEmitter<GradleTaskNode | undefined | null | void> = new vscode.EventEmitter<GradleTaskNode | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<GradleTaskNode | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    private loading: Promise<void> | undefined;
+    private loadError: string | undefined;
+    private readonly logger: Logger;
+
+    constructor(
+        private readonly gradleManager: GradleProcessManager,
+        private readonly context: vscode.ExtensionContext,
+        private readonly workspaceRoot: string
+    ) {
+        this.logger = Logger.getInstance();
+    }
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    /**
+     * Re-read the task list from Gradle.
+     */
+    async reload(): Promise<void> {
+        if (this.loading) {
+            return this.loading;
+        }
+
+        this.loadError = undefined;
+        this.loading = (async () => {
+            try {
+                const result = await this.gradleManager.runCommand(this.workspaceRoot, ['tasks', '--all']);
+                const tasks = parseGradleTasks(result.stdout);
+                const cache: TaskCache = { timestamp: Date.now(), tasks };
+                await this.context.workspaceState.update(CACHE_KEY, cache);
+                this.logger.success(`Loaded ${tasks.length} Gradle task(s)`);
+            } catch (error) {
+                this.loadError = error instanceof Error ? error.message : String(error);
+                this.logger.error(`Failed to list Gradle tasks: ${this.loadError}`);
+            } finally {
+                this.loading = undefined;
+                this.refresh();
+            }
+        })();
+        this.refresh();
+        return this.loading;
+    }
+
+    getTasks(): GradleTask[] {
+        return this.context.workspaceState.get<TaskCache>(CACHE_KEY)?.tasks ?? [];
+    }
+
+    /**
+     * Whether the task list was loaded; a project may list no tasks at all.
+     */
+    private isLoaded(): boolean {
+        return this.context.workspaceState.get<TaskCache>(CACHE_KEY) !== undefined;
+    }
+
+    /**
+     * Run a task in a terminal and remember it as recently run.
+     */
+    async runTask(taskPath: string): Promise<void> {
+        const executable = this.gradleManager.resolveGradleExecutable(this.workspaceRoot);
+        if (!executable) {
+            vscode.window.showErrorMessage('Android Linter: Gradle wrapper not found in workspace. Set android-linter.gradlePath if using a custom location.');
+            return;
+        }
+
+        const folder = vscode.workspace.workspaceFolders?.find(f => f.uri.fsPath === this.workspaceRoot);
+        const task = new vscode.Task(
+            { type: GRADLE_TASK_TYPE, task: taskPath },
+            folder ?? vscode.TaskScope.Workspace,
+            taskPath,
+            'Android',
+            new vscode.ShellExecution(executable, [taskPath], { cwd: this.workspaceRoot })
+        );
+        task.presentationOptions = { reveal: vscode.TaskRevealKind.Always, panel: vscode.TaskPanelKind.Dedicated, clear: true };
+
+        const recent = [taskPath, ...this.getRecent().filter(p => p !== taskPath)].slice(0, MAX_RECENT);
+        await this.context.workspaceState.update(RECENT_KEY, recent);
+        this.refresh();
+
+        await vscode.tasks.executeTask(task);
+    }
+
+    /**
+     * Pick a task from the cached list and run it.
+     */
+    async pickAndRunTask(): Promise<void> {
+        if (!this.isLoaded()) {
+            await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: 'Loading Gradle tasks...' },
+                () => this.reload()
+            );
+        }
+
+        const favorites = new Set(this.getFavorites());
+        const picked = await vscode.window.showQuickPick(
+            this.getTasks().map(task => ({
+                label: task.path,
+                description: favorites.has(task.path) ? `$(pinned) ${task.group}` : task.group,
+                detail: task.description,
+                task
+            })),
+            { placeHolder: 'Select a Gradle task to run', matchOnDescription: true, matchOnDetail: true }
+        );
+        if (picked) {
+            await this.runTask(picked.task.path);
+        }
+    }
+
+    async pin(taskPath: string): Promise<void> {
+        const favorites = this.getFavorites();
+        if (!favorites.includes(taskPath)) {
+            await this.context.workspaceState.update(FAVORITES_KEY, [...favorites, taskPath]);
+            this.refresh();
+        }
+    }
+
+    async unpin(taskPath: string): Promise<void> {
+        await this.context.workspaceState.update(FAVORITES_KEY, this.getFavorites().filter(p => p !== taskPath));
+        this.refresh();
+    }
+
+    getTreeItem(element: GradleTaskNode): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(element?: GradleTaskNode): GradleTaskNode[] {
+        if (!element) {
+            return this.getRootNodes();
+        }
+
+        switch (element.type) {
+            case 'section':
+                return element.id === 'favorites'
+                    ? this.getFavorites().map(taskPath => this.createTaskNode(this.findTask(taskPath)))
+                    : this.getRecent().map(taskPath => this.createTaskNode(this.findTask(taskPath)));
+            case 'module':
+                return this.getGroupNodes(element.tasks);
+            case 'group':
+                return element.tasks
+                    .sort((a, b) => a.name.localeCompare(b.name))
+                    .map(task => this.createTaskNode(task));
+            default:
+                return [];
+        }
+    }
+
+    private getRootNodes(): GradleTaskNode[] {
+        if (!this.isLoaded()) {
+            if (!this.loading && !this.loadError) {
+                this.reload();
+            }
+            const message = this.loadError
+                ? new GradleTaskNode(`Failed to load tasks: ${this.loadError}`, 'message', vscode.TreeItemCollapsibleState.None)
+                : new GradleTaskNode('Loading Gradle tasks...', 'message', vscode.TreeItemCollapsibleState.None);
+            message.iconPath = new vscode.ThemeIcon(this.loadError ? 'error' : 'loading~spin');
+            return [message];
+        }
+
+        const tasks = this.getTasks();
+        if (tasks.length === 0) {
+            const message = new GradleTaskNode('No Gradle tasks found', 'message', vscode.TreeItemCollapsibleState.None);
+            message.iconPath = new vscode.ThemeIcon('info');
+            return [message];
+        }
+
+        const nodes: GradleTaskNode[] = [];
+
+        const favorites = this.getFavorites();
+        if (favorites.length > 0) {
+            const section = new GradleTaskNode('Pinned', 'section', vscode.TreeItemCollapsibleState.Expanded);
+            section.id = 'favorites';
+            section.iconPath = new vscode.ThemeIcon('pinned');
+            nodes.push(section);
+        }
+
+        const recent = this.getRecent();
+        if (recent.length > 0) {
+            const section = new GradleTaskNode('Recently Run', 'section', vscode.TreeItemCollapsibleState.Collapsed);
+            section.id = 'recent';
+            section.iconPath = new vscode.ThemeIcon('history');
+            nodes.push(section);
+        }
+
+        const byProject = groupBy(tasks, task => task.project);
+        const projects = Array.from(byProject.keys()).sort((a, b) =>
+            a === ':' ? -1 : b === ':' ? 1 : a.localeCompare(b));
+        for (const project of projects) {
+            const label = project === ':' ? path.basename(this.workspaceRoot) : project;
+            const node = new GradleTaskNode(label, 'module', vscode.TreeItemCollapsibleState.Collapsed, byProject.get(project)!);
+            node.id = `module:${project}`;
+            node.iconPath = new vscode.ThemeIcon(project === ':' ? 'root-folder' : 'package');
+            node.description = project === ':' ? 'root project' : undefined;
+            nodes.push(node);
+        }
+
+        return nodes;
+    }
+
+    private getGroupNodes(tasks: GradleTask[]): GradleTaskNode[] {
+        return Array.from(groupBy(tasks, task => task.group))
+            .sort(([a], [b]) => a === 'Other' ? 1 : b === 'Other' ? -1 : a.localeCompare(b))
+            .map(([group, groupTasks]) => {
+                const node = new GradleTaskNode(group, 'group', vscode.TreeItemCollapsibleState.Collapsed, groupTasks);
+                node.id = `group:${groupTasks[0].project}:${group}`;
+                node.iconPath = new vscode.ThemeIcon('folder');
+                node.description = `${groupTasks.length}`;
+                return node;
+            });
+    }
+
+    private createTaskNode(task: GradleTask): GradleTaskNode {
+        const pinned = this.getFavorites().includes(task.path);
+        const node = new GradleTaskNode(task.name, 'task', vscode.TreeItemCollapsibleState.None, [task]);
+        node.description = task.project === ':' ? task.description : `${task.project} · ${task.description ?? ''}`;
+        node.tooltip = task.description ? `${task.path}\n${task.description}` : task.path;
+        node.iconPath = new vscode.ThemeIcon(pinned ? 'pinned' : 'gear');
+        node.contextValue = pinned ? 'gradleTaskPinned' : 'gradleTask';
+        node.command = {
+            command: COMMANDS.RUN_GRADLE_TASK,
+            title: 'Run Task',
+            arguments: [node]
+        };
+        return node;
+    }
+
+    /** Tasks that are no longer listed (e.g. a renamed module) still show up by path */
+    private findTask(taskPath: string): GradleTask {
+        return this.getTasks().find(task => task.path === taskPath) ?? taskFromPath(taskPath, 'Other');
+    }
+
+    private getFavorites(): string[] {
+        return this.context.workspaceState.get<string[]>(FAVORITES_KEY) ?? [];
+    }
+
+    private getRecent(): string[] {
+        return this.context.workspaceState.get<string[]>(RECENT_KEY) ?? [];
+    }
+
+    dispose(): void {
+        this._onDidChangeTreeData.dispose();
+    }
+}
+
+export class GradleTaskNode extends vscode.TreeItem {
+    constructor(
+        public readonly label: string,
+        public readonly type: GradleTaskItemType,
+        public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+        public readonly tasks: GradleTask[] = []
+    ) {
+        super(label, collapsibleState);
+    }
+}
+
+/**
+ * Parse the output of `gradlew tasks --all`: groups are a title underlined with dashes,
+ * followed by `[project:]name - description` lines. The "Rules" section is skipped.
+ */
+export function parseGradleTasks(output: string): GradleTask[] {
+    const lines = output.split(/\r?\n/);
+    const tasks: GradleTask[] = [];
+    const seen = new Set<string>();
+    let group: string | undefined;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trimEnd();
+        const next = lines[i + 1]?.trimEnd() ?? '';
+
+        if (line && /^-+$/.test(next) && next.length === line.length) {
+            group = line === 'Rules' ? undefined : line.replace(/ tasks$/i, '');
+            i++;
+            continue;
+        }
+
+        if (line.startsWith('To see') || line.startsWith('BUILD ')) {
+            group = undefined;
+            continue;
+        }
+        if (!group || !line) {
+            continue;
+        }
+
+        const match = /^([\w.:-]+)(?:\s+-\s+(.*))?$/.exec(line);
+        if (!match) {
+            continue;
+        }
+
+        const task = taskFromPath(match[1], group, match[2]?.trim());
+        if (!seen.has(task.path)) {
+            seen.add(task.path);
+            tasks.push(task);
+        }
+    }
+
+    return tasks;
+}
+
+/**
+ * `app:lint` (as listed by `tasks --all`) or `:app:lint` -> task in project `:app`; `lint` -> root project.
+ */
+function taskFromPath(taskPath: string, group: string, description?: string): GradleTask {
+    const segments = taskPath.split(':').filter(Boolean);
+    const name = segments.pop() ?? taskPath;
+    const project = segments.length > 0 ? `:${segments.join(':')}` : ':';
+    return {
+        path: project === ':' ? `:${name}` : `${project}:${name}`,
+        name,
+        project,
+        group: group.charAt(0).toUpperCase() + group.slice(1),
+        description: description || undefined
+    };
+}
+
+function groupBy(tasks: GradleTask[], key: (task: GradleTask) => string): Map<string, GradleTask[]> {
+    const groups = new Map<string, GradleTask[]>();
+    for (const task of tasks) {
+        const value = key(task);
+        if (!groups.has(value)) {
+            groups.set(value, []);
+        }
+        groups.get(value)!.push(task);
+    }
+    return groups;
+}
@@ -0,0 +1,106 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { GradleModule, GradleModuleType, clearModuleCache, findModuleForFile, getGradleModules, moduleFromName } from './gradleModules';
+import { CONFIG_NAMESPACE, CONFIG_KEYS } from '../constants';
+
+const TYPE_LABELS: Record<GradleModuleType, string> = {
+    application: 'Application',
+    library: 'Library',
+    test: 'Test',
+    jvm: 'JVM Library',
+    other: 'Module'
+};
+
+export interface ModulePickOptions {
+    /** Only offer modules of these types */
+    types?: GradleModuleType[];
+    /** A file whose module is used without asking, when it has one of `types` */
+    contextUri?: vscode.Uri;
+    /** Module path listed first in the quick pick */
+    preferred?: string;
+    /** Returned when the project has no matching module */
+    fallback?: GradleModule;
+    placeHolder?: string;
+}
+
+/**
+ * The modules included from `settings.gradle(.kts)`, classified as application,
+ * library, test or JVM modules. Read lazily and re-read when a settings or build file changes.
+ */
+export class ModuleRegistry {
+    constructor(private readonly workspaceRoot: string) {}
+
+    /**
+     * Re-read the settings file and the modules' build files.
+     */
+    reload(): GradleModule[] {
+        clearModuleCache(this.workspaceRoot);
+        return this.getModules();
+    }
+
+    getModules(types?: GradleModuleType[]): GradleModule[] {
+        const modules = getGradleModules(this.workspaceRoot);
+        return types ? modules.filter(module => types.includes(module.type)) : [...modules];
+    }
+
+    getModule(projectPath: string): GradleModule | undefined {
+        return this.getModules().find(module => module.path === projectPath);
+    }
+
+    findModuleForFile(filePath: string): GradleModule | undefined {
+        return findModuleForFile(this.workspaceRoot, filePath, this.getModules());
+    }
+
+    /**
+     * The configured `launchModule`, or else the first application module.
+     */
+    getDefaultAppModule(): GradleModule {
+        const configured = vscode.workspace.getConfiguration(CONFIG_NAMESPACE)
+            .get<string>(CONFIG_KEYS.LAUNCH_MODULE) || 'app';
+        const module = moduleFromName(this.workspaceRoot, configured);
+        if (this.getModule(module.path)) {
+            return module;
+        }
+        return this.getModules(['application'])[0] ?? module;
+    }
+
+    /**
+     * Pick a module: the module of `contextUri` when it matches, the only candidate when
+     * there is just one, or else ask with a quick pick.
+     */
+    async pickModule(options: ModulePickOptions = {}): Promise<GradleModule | undefined> {
+        const matches = (module: GradleModule) => !options.types || options.types.includes(module.type);
+
+        if (options.contextUri?.scheme === 'file') {
+            const owner = this.findModuleForFile(options.contextUri.fsPath);
+            if (owner && matches(owner)) {
+                return owner;
+            }
+        }
+
+        const candidates = this.getModules(options.types);
+        if (candidates.length === 0) {
+            return options.fallback;
+        }
+        if (candidates.length === 1) {
+            return candidates[0];
+        }
+
+        candidates.sort((a, b) =>
+            Number(b.path === options.preferred) - Number(a.path === options.preferred) ||
+            a.path.localeCompare(b.path));
+
+        const picked = await vscode.window.showQuickPick(
+            candidates.map(module => ({
+                label: module.path,
+                description: module.path === options.preferred
+                    ? `${TYPE_LABELS[module.type]} · last used`
+                    : TYPE_LABELS[module.type],
+                detail: path.relative(this.workspaceRoot, module.dir) || '.',
+                module
+            })),
+            { placeHolder: options.placeHolder ?? 'Select a module', matchOnDetail: true }
+        );
+        return picked?.module;
+    }
+}
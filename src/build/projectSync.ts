@@ -0,0 +1,254 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { VariantManager } from './variantManager';
+import { GradleModule, clearModuleCache, moduleFromName, readGradleModules } from './gradleModules';
+import { ModuleRegistry } from './moduleRegistry';
+import { LanguageClientManager } from '../client/languageClient';
+import { detectApplicationId } from '../androidProjectInfo';
+import { CONFIG_NAMESPACE, CONFIG_KEYS, COMMANDS, OUTPUT_CHANNELS } from '../constants';
+import { Logger } from '../logger';
+
+/** Custom notification telling the language server the project was re-read */
+export const SYNC_PROJECT_NOTIFICATION = 'android/syncProject';
+/** Custom notification telling the language server a module's build variant changed */
+export const VARIANT_CHANGED_NOTIFICATION = 'android/variantChanged';
+
+type SyncOnChange = 'ask' | 'always' | 'never';
+
+/**
+ * What a sync read from the settings and build files.
+ */
+export interface ProjectSyncResult {
+    modules: GradleModule[];
+    variants: string[];
+    selectedVariant: string;
+    applicationId?: string;
+}
+
+/**
+ * "Sync Project with Gradle": re-reads settings.gradle and the build files to refresh
+ * the build variants, the module list and the applicationId, then tells the language
+ * server and listeners (the Android Explorer) about the new project state.
+ *
+ * Watches build.gradle(.kts), settings.gradle(.kts) and libs.versions.toml and offers
+ * to sync when they change, as Android Studio's "Gradle files have changed" banner does.
+ */
+export class ProjectSync implements vscode.Disposable {
+    private readonly _onDidSync = new vscode.EventEmitter<ProjectSyncResult>();
+    readonly onDidSync: vscode.Event<ProjectSyncResult> = this._onDidSync.event;
+
+    private lastResult: ProjectSyncResult | undefined;
+    private running: Promise<ProjectSyncResult> | undefined;
+    private changeTimer: NodeJS.Timeout | undefined;
+    private promptVisible = false;
+    private disposables: vscode.Disposable[] = [];
+    private logger: Logger;
+
+    constructor(
+        private readonly workspaceRoot: string,
+        private readonly moduleRegistry: ModuleRegistry | undefined,
+        private readonly variantManager: VariantManager | undefined,
+        private readonly languageClientManager: LanguageClientManager | undefined,
+        outputChannel?: vscode.OutputChannel
+    ) {
+        const channel = outputChannel || vscode.window.createOutputChannel(OUTPUT_CHANNELS.MAIN);
+        this.logger = Logger.create(channel, 'Sync');
+
+        const watcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(workspaceRoot, '**/{build.gradle,build.gradle.kts,settings.gradle,settings.gradle.kts,libs.versions.toml}')
+        );
+        this.disposables.push(
+            watcher,
+            watcher.onDidChange(uri => this.onBuildFileChanged(uri)),
+            watcher.onDidCreate(uri => this.onBuildFileChanged(uri)),
+            watcher.onDidDelete(uri => this.onBuildFileChanged(uri))
+        );
+
+        variantManager?.onVariantChanged((variant, modulePath) => this.onVariantChanged(variant, modulePath));
+
+        // A (re)started server has not seen the last sync yet
+        languageClientManager?.onServerReady(() => {
+            if (this.lastResult) {
+                this.notifyServer(this.lastResult);
+            }
+        });
+    }
+
+    /**
+     * Re-read the project. Concurrent calls share the sync already in progress.
+     */
+    sync(): Promise<ProjectSyncResult> {
+        if (!this.running) {
+            this.running = this.doSync().finally(() => {
+                this.running = undefined;
+            });
+        }
+        return this.running;
+    }
+
+    /**
+     * Run a sync with a progress notification and report the outcome.
+     */
+    async syncWithProgress(): Promise<void> {
+        try {
+            const result = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: 'Android: Syncing project with Gradle files...'
+                },
+                () => this.sync()
+            );
+            vscode.window.showInformationMessage(`Android Linter: Project synced (${describeResult(result)})`);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            this.logger.error(`Project sync failed: ${message}`);
+            vscode.window.showErrorMessage(`Android Linter: Project sync failed: ${message}`);
+        }
+    }
+
+    getLastResult(): ProjectSyncResult | undefined {
+        return this.lastResult;
+    }
+
+    /**
+     * The applicationId of the default app module for its selected build variant,
+     * unless `launchApplicationId` overrides it.
+     */
+    async resolveApplicationId(): Promise<string | undefined> {
+        const config = vscode.workspace.getConfiguration(CONFIG_NAMESPACE);
+        const configuredAppId = (config.get<string>(CONFIG_KEYS.LAUNCH_APPLICATION_ID) || '').trim();
+        if (configuredAppId) {
+            return configuredAppId;
+        }
+
+        const appModule = this.moduleRegistry?.getDefaultAppModule();
+        const appModuleDir = appModule?.dir ?? (config.get<string>(CONFIG_KEYS.LAUNCH_MODULE) || 'app');
+        return detectApplicationId(this.workspaceRoot, appModuleDir, this.variantManager?.getCurrentVariant(appModule?.path));
+    }
+
+    private async doSync(): Promise<ProjectSyncResult> {
+        this.logger.start('Syncing project with Gradle files');
+
+        const modules = this.moduleRegistry?.reload() ?? readGradleModules(this.workspaceRoot);
+        await this.variantManager?.initialize();
+        const applicationId = await this.resolveApplicationId();
+
+        const result: ProjectSyncResult = {
+            modules,
+            variants: this.variantManager?.getAvailableVariants() ?? [],
+            selectedVariant: this.variantManager?.getCurrentVariant() ?? 'debug',
+            applicationId
+        };
+        this.lastResult = result;
+
+        await this.notifyServer(result);
+        this._onDidSync.fire(result);
+
+        this.logger.success(`Project synced: ${describeResult(result)}`);
+        return result;
+    }
+
+    private async notifyServer(result: ProjectSyncResult): Promise<void> {
+        await this.languageClientManager?.sendNotification(SYNC_PROJECT_NOTIFICATION, {
+            workspaceRoot: this.workspaceRoot,
+            modules: result.modules.map(module => ({ path: module.path, dir: module.dir, type: module.type })),
+            variants: result.variants,
+            selectedVariant: result.selectedVariant,
+            applicationId: result.applicationId ?? null
+        });
+    }
+
+    private async onVariantChanged(variant: string, modulePath: string): Promise<void> {
+        const module = this.moduleRegistry?.getModule(modulePath) ?? moduleFromName(this.workspaceRoot, modulePath);
+        if (this.lastResult && modulePath === this.moduleRegistry?.getDefaultAppModule().path) {
+            this.lastResult.selectedVariant = variant;
+        }
+
+        await this.languageClientManager?.sendNotification(VARIANT_CHANGED_NOTIFICATION, {
+            module: modulePath,
+            moduleDir: module.dir,
+            variant
+        });
+    }
+
+    private onBuildFileChanged(uri: vscode.Uri): void {
+        // Ignore copies under build outputs and Gradle's own caches
+        const segments = path.relative(this.workspaceRoot, uri.fsPath).split(path.sep);
+        if (segments.some(segment => segment === 'build' || segment === '.gradle' || segment === 'node_modules')) {
+            return;
+        }
+
+        // Included modules and their plugins may have changed, whether or not the project is synced
+        if (path.basename(uri.fsPath) !== 'libs.versions.toml') {
+            clearModuleCache(this.workspaceRoot);
+        }
+
+        if (this.changeTimer) {
+            clearTimeout(this.changeTimer);
+        }
+        this.changeTimer = setTimeout(() => {
+            this.changeTimer = undefined;
+            this.handleBuildFilesChanged(path.basename(uri.fsPath));
+        }, 1000);
+    }
+
+    private async handleBuildFilesChanged(fileName: string): Promise<void> {
+        const config = vscode.workspace.getConfiguration(CONFIG_NAMESPACE);
+        const mode = config.get<SyncOnChange>(CONFIG_KEYS.SYNC_ON_BUILD_FILE_CHANGE, 'ask');
+        this.logger.debug(`${fileName} changed (syncOnBuildFileChange: ${mode})`);
+
+        if (mode === 'never') {
+            return;
+        }
+        if (mode === 'always') {
+            vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Window, title: 'Syncing Gradle project' },
+                () => this.sync()
+            ).then(undefined, error => this.logger.error(`Project sync failed: ${error}`));
+            return;
+        }
+
+        // Only one banner at a time; further edits are covered by the pending one
+        if (this.promptVisible) {
+            return;
+        }
+        this.promptVisible = true;
+        const choice = await vscode.window.showInformationMessage(
+            `Android Linter: ${fileName} changed since the last sync. Sync the project to pick up the changes?`,
+            'Sync Now',
+            'Always',
+            'Never'
+        );
+        this.promptVisible = false;
+
+        if (choice === 'Always' || choice === 'Never') {
+            await config.update(
+                CONFIG_KEYS.SYNC_ON_BUILD_FILE_CHANGE,
+                choice === 'Always' ? 'always' : 'never',
+                vscode.ConfigurationTarget.Workspace
+            );
+        }
+        if (choice === 'Sync Now' || choice === 'Always') {
+            await vscode.commands.executeCommand(COMMANDS.SYNC_PROJECT);
+        }
+    }
+
+    dispose(): void {
+        if (this.changeTimer) {
+            clearTimeout(this.changeTimer);
+        }
+        this.disposables.forEach(d => d.dispose());
+        this._onDidSync.dispose();
+    }
+}
+
+function describeResult(result: ProjectSyncResult): string {
+    const parts = [
+        `${result.modules.length} module(s)`,
+        `${result.variants.length} variant(s)`
+    ];
+    if (result.applicationId) {
+        parts.push(result.applicationId);
+    }
+    return parts.join(', ');
+}
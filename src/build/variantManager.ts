@@ -2,228 +2,300 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { Logger } from '../logger';
-import { CONFIG_NAMESPACE } from '../constants';
+import { COMMANDS } from '../constants';
+import { GradleModule } from './gradleModules';
+import { ModuleRegistry } from './moduleRegistry';
+import { ModuleVariants, parseBuildVariants, variantName } from './variantParser';
+import { capitalize } from './gradleDsl';
+
+const BUILD_FILES = ['build.gradle.kts', 'build.gradle'];
 
 /**
- * Manages build variants (build types × product flavors).
+ * Manages build variants (build types × the flavors of every flavor dimension).
  * 
  * Provides:
- * - Parse build.gradle for variant definitions
- * - Status bar variant selector
+ * - Parse each module's build.gradle for variant definitions
+ * - Status bar variant selector for the module of the active editor
  * - Notify the language server when variant changes
- * - Persist selected variant per workspace
+ * - Persist the selected variant per module and workspace
  */
 export class VariantManager implements vscode.Disposable {
     private logger: Logger;
     private statusBarItem: vscode.StatusBarItem;
-    private currentVariant: string = 'debug';
-    private availableVariants: string[] = ['debug', 'release'];
+    /** Variants by module path */
+    private moduleVariants = new Map<string, ModuleVariants>();
+    /** Selected variant by module path */
+    private selectedVariants: Record<string, string>;
+    private defaultVariant: string = 'debug';
+    private defaultModule: string = ':app';
     private context: vscode.ExtensionContext;
-    private onVariantChangedCallbacks: Array<(variant: string) => void> = [];
+    private onVariantChangedCallbacks: Array<(variant: string, modulePath: string) => void> = [];
+    private disposables: vscode.Disposable[] = [];
 
-    constructor(context: vscode.ExtensionContext) {
+    constructor(context: vscode.ExtensionContext, private readonly moduleRegistry?: ModuleRegistry) {
         this.context = context;
         this.logger = Logger.getInstance();
         
         // Create status bar item
         this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 90);
-        this.statusBarItem.command = 'android-linter.selectVariant';
+        this.statusBarItem.command = COMMANDS.SELECT_VARIANT;
+        
+        // Restore persisted variants; the single-module selection of older versions applies to every module
+        this.selectedVariants = { ...context.workspaceState.get<Record<string, string>>('selectedBuildVariants', {}) };
+        this.defaultVariant = context.workspaceState.get<string>('selectedBuildVariant') ?? this.defaultVariant;
+        
         this.updateStatusBar();
         this.statusBarItem.show();
         
-        // Restore persisted variant
-        const savedVariant = context.workspaceState.get<string>('selectedBuildVariant');
-        if (savedVariant) {
-            this.currentVariant = savedVariant;
-            this.updateStatusBar();
-        }
+        this.disposables.push(
+            vscode.window.onDidChangeActiveTextEditor(() => this.updateStatusBar())
+        );
     }
 
     /**
-     * Initialize by scanning build.gradle for variant definitions.
+     * Initialize by scanning the modules' build.gradle files for variant definitions.
      */
     async initialize(): Promise<void> {
         const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders) return;
+        if (!workspaceFolders || !this.moduleRegistry) return;
         
-        const rootDir = workspaceFolders[0].uri.fsPath;
-        const config = vscode.workspace.getConfiguration(CONFIG_NAMESPACE);
-        const moduleName = config.get<string>('launchModule', 'app');
+        const defaultModule = this.moduleRegistry.getDefaultAppModule();
+        this.defaultModule = defaultModule.path;
         
-        const buildFiles = [
-            path.join(rootDir, moduleName, 'build.gradle.kts'),
-            path.join(rootDir, moduleName, 'build.gradle'),
-        ];
+        // Android modules have variants; fall back to the launch module for projects without settings
+        const modules = this.moduleRegistry.getModules(['application', 'library', 'test']);
+        if (!modules.some(module => module.path === defaultModule.path)) {
+            modules.unshift(defaultModule);
+        }
         
-        for (const buildFile of buildFiles) {
-            if (fs.existsSync(buildFile)) {
-                const content = fs.readFileSync(buildFile, 'utf8');
-                this.parseVariants(content);
-                break;
+        this.moduleVariants.clear();
+        for (const module of modules) {
+            const variants = this.readVariants(module);
+            if (variants) {
+                this.moduleVariants.set(module.path, variants);
+            }
+        }
+        
+        // A selected variant may have been removed from the build file since the last sync
+        for (const modulePath of this.moduleVariants.keys()) {
+            const variants = this.getAvailableVariants(modulePath);
+            const current = this.getCurrentVariant(modulePath);
+            if (!variants.includes(current)) {
+                const fallback = variants.find(v => /Debug$|^debug$/.test(v)) ?? variants[0];
+                this.logger.warn(`Build variant ${current} no longer exists in ${modulePath}, switching to ${fallback}`);
+                // Listeners act on a user's choice, not on the project being read
+                await this.setCurrentVariant(modulePath, fallback, false);
             }
         }
         
         this.updateStatusBar();
-        this.logger.success(`Build variants: [${this.availableVariants.join(', ')}] (selected: ${this.currentVariant})`);
+        for (const modulePath of this.moduleVariants.keys()) {
+            const variants = this.getAvailableVariants(modulePath);
+            this.logger.success(`Build variants of ${modulePath}: [${variants.join(', ')}] (selected: ${this.getCurrentVariant(modulePath)})`);
+        }
+    }
+
+    private readVariants(module: GradleModule): ModuleVariants | undefined {
+        for (const name of BUILD_FILES) {
+            const buildFile = path.join(module.dir, name);
+            if (fs.existsSync(buildFile)) {
+                return parseBuildVariants(fs.readFileSync(buildFile, 'utf8'));
+            }
+        }
+        return undefined;
     }
 
     /**
-     * Parse build.gradle content for build types and product flavors.
+     * Show a quick pick to select a build variant. Without a module, asks which module
+     * to change first when several have variants (the active editor's module is listed first).
      */
-    private parseVariants(content: string): void {
-        const buildTypes = new Set<string>(['debug', 'release']);
-        const productFlavors: string[] = [];
-        
-        // Extract build types
-        const buildTypesBlock = this.extractBlock(content, 'buildTypes');
-        if (buildTypesBlock) {
-            // KTS: getByName("name") or create("name")
-            const ktsRegex = /(?:getByName|create)\s*\(\s*["'](\w+)["']\s*\)/g;
-            let match;
-            while ((match = ktsRegex.exec(buildTypesBlock)) !== null) {
-                buildTypes.add(match[1]);
-            }
-            
-            // Groovy: name { }
-            const groovyRegex = /^\s*(\w+)\s*\{/gm;
-            while ((match = groovyRegex.exec(buildTypesBlock)) !== null) {
-                const name = match[1];
-                if (!['buildTypes', 'getByName', 'create', 'named', 'register', 'all'].includes(name)) {
-                    buildTypes.add(name);
-                }
-            }
+    async selectVariant(modulePath?: string): Promise<string | undefined> {
+        const module = modulePath ?? await this.pickModule();
+        if (!module) {
+            return undefined;
         }
         
-        // Extract product flavors
-        const flavorsBlock = this.extractBlock(content, 'productFlavors');
-        if (flavorsBlock) {
-            const ktsRegex = /(?:getByName|create)\s*\(\s*["'](\w+)["']\s*\)/g;
-            let match;
-            while ((match = ktsRegex.exec(flavorsBlock)) !== null) {
-                productFlavors.push(match[1]);
-            }
-            
-            const groovyRegex = /^\s*(\w+)\s*\{/gm;
-            while ((match = groovyRegex.exec(flavorsBlock)) !== null) {
-                const name = match[1];
-                if (!['productFlavors', 'getByName', 'create', 'named', 'register', 'all', 'dimension', 'flavorDimensions'].includes(name)) {
-                    productFlavors.push(name);
-                }
-            }
-        }
+        const variants = this.moduleVariants.get(module);
+        const selection = variants && variants.dimensions.length > 1
+            ? await this.pickVariantPerDimension(module, variants)
+            : await this.pickVariant(module);
         
-        // Build variant matrix
-        if (productFlavors.length > 0) {
-            this.availableVariants = [];
-            for (const flavor of productFlavors) {
-                for (const buildType of buildTypes) {
-                    this.availableVariants.push(`${flavor}${buildType.charAt(0).toUpperCase()}${buildType.slice(1)}`);
-                }
-            }
-        } else {
-            this.availableVariants = Array.from(buildTypes);
+        if (selection) {
+            await this.setCurrentVariant(module, selection);
+            this.logger.success(`Build variant of ${module} changed to: ${selection}`);
+            return selection;
         }
+        
+        return undefined;
     }
 
-    /**
-     * Show a quick pick to select a build variant.
-     */
-    async selectVariant(): Promise<string | undefined> {
+    private async pickVariant(module: string): Promise<string | undefined> {
+        const current = this.getCurrentVariant(module);
         const selection = await vscode.window.showQuickPick(
-            this.availableVariants.map(v => ({
+            this.getAvailableVariants(module).map(v => ({
                 label: v,
-                description: v === this.currentVariant ? '(current)' : '',
-                picked: v === this.currentVariant
+                description: v === current ? '(current)' : '',
+                picked: v === current
             })),
-            { placeHolder: 'Select build variant', title: 'Build Variant' }
+            { placeHolder: `Select build variant of ${module}`, title: 'Build Variant' }
         );
+        return selection?.label;
+    }
+
+    /**
+     * Choose a flavor for each dimension, then the build type, offering only the
+     * choices that still lead to an enabled variant.
+     */
+    private async pickVariantPerDimension(module: string, moduleVariants: ModuleVariants): Promise<string | undefined> {
+        const current = moduleVariants.variants.find(v => v.name === this.getCurrentVariant(module));
+        const steps = moduleVariants.dimensions.length + 1;
+        const flavors: string[] = [];
+        let candidates = moduleVariants.variants;
         
-        if (selection) {
-            this.currentVariant = selection.label;
-            this.updateStatusBar();
-            await this.context.workspaceState.update('selectedBuildVariant', this.currentVariant);
-            
-            this.logger.success(`Build variant changed to: ${this.currentVariant}`);
-            
-            // Notify listeners
-            for (const cb of this.onVariantChangedCallbacks) {
-                cb(this.currentVariant);
+        for (const [index, dimension] of moduleVariants.dimensions.entries()) {
+            const choices = dimension.flavors.filter(flavor => candidates.some(v => v.flavors[index] === flavor));
+            const selection = await vscode.window.showQuickPick(
+                choices.map(flavor => ({
+                    label: flavor,
+                    description: flavor === current?.flavors[index] ? '(current)' : ''
+                })),
+                {
+                    placeHolder: `Select the ${dimension.name || 'product'} flavor of ${module}`,
+                    title: `Build Variant (${index + 1}/${steps}): ${dimension.name || 'flavor'}`
+                }
+            );
+            if (!selection) {
+                return undefined;
             }
-            
-            return this.currentVariant;
+            flavors.push(selection.label);
+            candidates = candidates.filter(v => v.flavors[index] === selection.label);
         }
         
-        return undefined;
+        const selection = await vscode.window.showQuickPick(
+            candidates.map(v => ({
+                label: v.buildType,
+                description: v.buildType === current?.buildType ? '(current)' : '',
+                detail: v.name
+            })),
+            { placeHolder: `Select the build type of ${module}`, title: `Build Variant (${steps}/${steps}): build type` }
+        );
+        return selection ? variantName(flavors, selection.label) : undefined;
+    }
+
+    private async pickModule(): Promise<string | undefined> {
+        const modules = Array.from(this.moduleVariants.keys());
+        if (modules.length <= 1) {
+            return modules[0] ?? this.defaultModule;
+        }
+        
+        const active = this.getActiveModule();
+        modules.sort((a, b) => Number(b === active) - Number(a === active) || a.localeCompare(b));
+        const picked = await vscode.window.showQuickPick(
+            modules.map(module => ({
+                label: module,
+                description: `${this.getCurrentVariant(module)}${module === active ? ' · current file' : ''}`
+            })),
+            { placeHolder: 'Select the module whose build variant to change', title: 'Build Variant' }
+        );
+        return picked?.label;
+    }
+
+    private async setCurrentVariant(modulePath: string, variant: string, notify = true): Promise<void> {
+        this.selectedVariants[modulePath] = variant;
+        this.updateStatusBar();
+        await this.context.workspaceState.update('selectedBuildVariants', this.selectedVariants);
+        if (!notify) {
+            return;
+        }
+        
+        // Notify listeners
+        for (const cb of this.onVariantChangedCallbacks) {
+            cb(variant, modulePath);
+        }
     }
 
     /**
-     * Get the current build variant.
+     * Get the current build variant of a module (the default app module if omitted).
      */
-    getCurrentVariant(): string {
-        return this.currentVariant;
+    getCurrentVariant(modulePath: string = this.defaultModule): string {
+        return this.selectedVariants[modulePath] ?? this.defaultVariant;
     }
 
     /**
-     * Get available build variants.
+     * Get the available build variants of a module (the default app module if omitted).
      */
-    getAvailableVariants(): string[] {
-        return [...this.availableVariants];
+    getAvailableVariants(modulePath: string = this.defaultModule): string[] {
+        return this.moduleVariants.get(modulePath)?.variants.map(v => v.name) ?? ['debug', 'release'];
     }
 
     /**
      * Get the Gradle lint task name for the current variant.
      */
-    getLintTask(): string {
-        return `lint${this.currentVariant.charAt(0).toUpperCase()}${this.currentVariant.slice(1)}`;
+    getLintTask(modulePath?: string): string {
+        return `lint${capitalize(this.getCurrentVariant(modulePath))}`;
     }
 
     /**
      * Get the Gradle install task name for the current variant.
      */
-    getInstallTask(): string {
-        return `install${this.currentVariant.charAt(0).toUpperCase()}${this.currentVariant.slice(1)}`;
+    getInstallTask(modulePath?: string): string {
+        return `install${capitalize(this.getCurrentVariant(modulePath))}`;
+    }
+
+    /**
+     * Get the Gradle assemble task name for the current variant.
+     */
+    getAssembleTask(modulePath?: string): string {
+        return `assemble${capitalize(this.getCurrentVariant(modulePath))}`;
+    }
+
+    /**
+     * Get the Gradle unit test task name for the current variant, e.g. `testFreeDebugUnitTest`.
+     */
+    getUnitTestTask(modulePath?: string): string {
+        return `test${capitalize(this.getCurrentVariant(modulePath))}UnitTest`;
+    }
+
+    /**
+     * Where the current variant's APKs (next to their `output-metadata.json`) and app bundles
+     * are written, e.g. `build/outputs/apk/freeStaging/debug` and `build/outputs/bundle/freeStagingDebug`.
+     */
+    getOutputDirs(module: GradleModule): { apk: string; bundle: string } {
+        const variant = this.getCurrentVariant(module.path);
+        const outputs = path.join(module.dir, 'build', 'outputs');
+        const buildVariant = this.moduleVariants.get(module.path)?.variants.find(v => v.name === variant);
+        const apkDir = buildVariant && buildVariant.flavors.length > 0
+            ? path.join(buildVariant.flavors[0] + buildVariant.flavors.slice(1).map(capitalize).join(''), buildVariant.buildType)
+            : variant;
+        return { apk: path.join(outputs, 'apk', apkDir), bundle: path.join(outputs, 'bundle', variant) };
     }
 
     /**
      * Register a callback for variant changes.
      */
-    onVariantChanged(callback: (variant: string) => void): void {
+    onVariantChanged(callback: (variant: string, modulePath: string) => void): void {
         this.onVariantChangedCallbacks.push(callback);
     }
 
+    /**
+     * The module of the active editor when it has variants, else the default app module.
+     */
+    private getActiveModule(): string {
+        const uri = vscode.window.activeTextEditor?.document.uri;
+        const owner = uri?.scheme === 'file' ? this.moduleRegistry?.findModuleForFile(uri.fsPath) : undefined;
+        return owner && this.moduleVariants.has(owner.path) ? owner.path : this.defaultModule;
+    }
+
     private updateStatusBar(): void {
-        this.statusBarItem.text = `$(symbol-enum) ${this.currentVariant}`;
-        this.statusBarItem.tooltip = `Build Variant: ${this.currentVariant}\nClick to change`;
-    }
-
-    private extractBlock(content: string, blockName: string): string | undefined {
-        const regex = new RegExp(`${blockName}\\s*\\{`);
-        const match = regex.exec(content);
-        if (!match) return undefined;
-        
-        let depth = 0;
-        let started = false;
-        const start = match.index + match[0].length;
-        
-        for (let i = start; i < content.length; i++) {
-            if (content[i] === '{') {
-                depth++;
-                started = true;
-            } else if (content[i] === '}') {
-                if (!started) {
-                    return content.substring(start, i);
-                }
-                depth--;
-                if (depth < 0) {
-                    return content.substring(start, i);
-                }
-            }
-        }
-        
-        return undefined;
+        const module = this.getActiveModule();
+        const variant = this.getCurrentVariant(module);
+        const showModule = this.moduleVariants.size > 1;
+        this.statusBarItem.text = `$(symbol-enum) ${showModule ? `${module}: ` : ''}${variant}`;
+        this.statusBarItem.tooltip = `Build Variant of ${module}: ${variant}\nClick to change`;
     }
 
     dispose(): void {
+        this.disposables.forEach(d => d.dispose());
         this.statusBarItem.dispose();
     }
 }
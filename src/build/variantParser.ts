@@ -0,0 +1,276 @@
+import { capitalize, extractBlock, readNamedBlocks, readStringProperty } from './gradleDsl';
+
+/**
+ * A flavor dimension and its flavors, in declaration order.
+ */
+export interface FlavorDimension {
+    name: string;
+    flavors: string[];
+}
+
+/**
+ * One build variant: a flavor from every dimension (highest priority first) and a build type.
+ */
+export interface BuildVariant {
+    name: string;
+    flavors: string[];
+    buildType: string;
+}
+
+export interface ModuleVariants {
+    /** Dimensions in priority order; empty without product flavors */
+    dimensions: FlavorDimension[];
+    buildTypes: string[];
+    /** Enabled variants only */
+    variants: BuildVariant[];
+}
+
+/** Conditions of one disabled-variant rule; every listed condition must match */
+interface VariantRule {
+    buildTypes: string[];
+    flavors: string[];
+    names: (string | RegExp)[];
+}
+
+const DISABLE_PATTERN = /\benabled?\s*=\s*false|\.enable\s*\(\s*false|setIgnore\s*\(\s*true|\bignore\s*=\s*true/;
+
+/**
+ * Read the variants of a module's build file: the cartesian product of the flavors of every
+ * `flavorDimensions` dimension, in priority order, with the build types. Variants disabled in
+ * `androidComponents { beforeVariants { enable = false } }` or `variantFilter { ignore = true }`
+ * are left out where the conditions are simple enough to read.
+ */
+export function parseBuildVariants(content: string): ModuleVariants {
+    const android = extractBlock(content, 'android') ?? content;
+
+    const buildTypes = ['debug', 'release'];
+    for (const name of readNamedBlocks(extractBlock(android, 'buildTypes') ?? '').keys()) {
+        if (!buildTypes.includes(name)) {
+            buildTypes.push(name);
+        }
+    }
+
+    const dimensions = readDimensions(android);
+    const combinations = dimensions.reduce<string[][]>(
+        (partial, dimension) => partial.flatMap(flavors => dimension.flavors.map(flavor => [...flavors, flavor])),
+        [[]]
+    );
+
+    const allVariants = combinations.flatMap(flavors =>
+        buildTypes.map(buildType => ({ name: variantName(flavors, buildType), flavors, buildType })));
+
+    // A filter that seems to remove every variant was most likely misread
+    const rules = readVariantRules(content, buildTypes, dimensions.flatMap(dimension => dimension.flavors));
+    const variants = allVariants.filter(variant => !rules.some(rule => matchesRule(variant, rule)));
+
+    return { dimensions, buildTypes, variants: variants.length > 0 ? variants : allVariants };
+}
+
+/**
+ * `["free", "staging"]` + `debug` -> `freeStagingDebug`.
+ */
+export function variantName(flavors: string[], buildType: string): string {
+    if (flavors.length === 0) {
+        return buildType;
+    }
+    return [flavors[0], ...flavors.slice(1).map(capitalize), capitalize(buildType)].join('');
+}
+
+function readDimensions(android: string): FlavorDimension[] {
+    const flavorBlocks = readNamedBlocks(extractBlock(android, 'productFlavors') ?? '');
+    if (flavorBlocks.size === 0) {
+        return [];
+    }
+
+    // flavorDimensions "a", "b" / flavorDimensions("a", "b") / flavorDimensions += listOf("a", "b") / += "a"
+    const declared: string[] = [];
+    const declarationPattern = /\bflavorDimensions\b([^\n]*)/g;
+    let match;
+    while ((match = declarationPattern.exec(android)) !== null) {
+        for (const name of match[1].matchAll(/["']([^"']+)["']/g)) {
+            if (!declared.includes(name[1])) {
+                declared.push(name[1]);
+            }
+        }
+    }
+
+    const dimensions = new Map<string, string[]>(declared.map(name => [name, []]));
+    for (const [flavor, body] of flavorBlocks) {
+        // A flavor without a dimension belongs to the only declared dimension
+        const dimension = readStringProperty(body, 'dimension') ?? (declared.length === 1 ? declared[0] : '');
+        if (!dimensions.has(dimension)) {
+            dimensions.set(dimension, []);
+        }
+        dimensions.get(dimension)!.push(flavor);
+    }
+
+    return Array.from(dimensions, ([name, flavors]) => ({ name, flavors }))
+        .filter(dimension => dimension.flavors.length > 0);
+}
+
+/**
+ * Rules from `beforeVariants(selector()...)` chains and from the `if` conditions of
+ * `beforeVariants { }` / `variantFilter { }` bodies that disable a variant.
+ */
+function readVariantRules(content: string, buildTypes: string[], flavors: string[]): VariantRule[] {
+    const rules: VariantRule[] = [];
+
+    const callPattern = /\b(beforeVariants|variantFilter)\b/g;
+    let match;
+    while ((match = callPattern.exec(content)) !== null) {
+        let index = match.index + match[0].length;
+        let selector: VariantRule | undefined;
+
+        // beforeVariants(selector().withBuildType("release").withFlavor("env" to "staging"))
+        const args = readBalanced(content, index, '(', ')');
+        if (args !== undefined) {
+            selector = readSelector(args.text);
+            index = args.end;
+        }
+
+        const body = readBalanced(content, index, '{', '}');
+        if (!body || !DISABLE_PATTERN.test(body.text)) {
+            continue;
+        }
+
+        // Without an `if`, the selector alone decides; unreadable conditions disable nothing
+        if (!/\bif\s*\(/.test(body.text)) {
+            if (selector) {
+                rules.push(selector);
+            }
+            continue;
+        }
+
+        const conditions = readDisablingConditions(body.text, buildTypes, flavors);
+        for (const condition of conditions) {
+            rules.push({
+                buildTypes: [...(selector?.buildTypes ?? []), ...condition.buildTypes],
+                flavors: [...(selector?.flavors ?? []), ...condition.flavors],
+                names: [...(selector?.names ?? []), ...condition.names]
+            });
+        }
+    }
+
+    return rules;
+}
+
+function readSelector(args: string): VariantRule | undefined {
+    if (!/\bselector\s*\(/.test(args)) {
+        return undefined;
+    }
+
+    const rule: VariantRule = { buildTypes: [], flavors: [], names: [] };
+    for (const call of args.matchAll(/\.with(BuildType|Flavor|Name)\s*\(([^)]*\)?)\)/g)) {
+        const strings = Array.from(call[2].matchAll(/["']([^"']+)["']/g), m => m[1]);
+        switch (call[1]) {
+            case 'BuildType':
+                rule.buildTypes.push(...strings);
+                break;
+            case 'Flavor':
+                // ("dimension" to "flavor") or Pair("dimension", "flavor"): the flavor is last
+                if (strings.length > 0) {
+                    rule.flavors.push(strings[strings.length - 1]);
+                }
+                break;
+            case 'Name':
+                if (/Pattern\.compile|Regex|toRegex|~/.test(call[2])) {
+                    for (const pattern of strings) {
+                        try {
+                            rule.names.push(new RegExp(`^${pattern}$`));
+                        } catch {
+                            // Not a pattern JavaScript understands; keep the variant
+                        }
+                    }
+                } else {
+                    rule.names.push(...strings);
+                }
+                break;
+        }
+    }
+    return rule;
+}
+
+/**
+ * The conditions of the `if` statements guarding a disabling statement, as AND-ed
+ * build type / flavor / name constraints. `||` splits a condition into separate rules.
+ * Terms with a negation (`!=`, `!contains(...)`) are skipped, so their variants are kept.
+ */
+function readDisablingConditions(body: string, buildTypes: string[], flavors: string[]): VariantRule[] {
+    const rules: VariantRule[] = [];
+
+    const ifPattern = /\bif\s*(?=\()/g;
+    let match;
+    while ((match = ifPattern.exec(body)) !== null) {
+        const condition = readBalanced(body, match.index + match[0].length, '(', ')');
+        if (!condition) {
+            continue;
+        }
+
+        // The branch: a braced block, or the statement up to the end of the line
+        const branch = readBalanced(body, condition.end, '{', '}')?.text
+            ?? body.substring(condition.end).split('\n')[0];
+        if (!DISABLE_PATTERN.test(branch)) {
+            continue;
+        }
+
+        for (const term of condition.text.split('||')) {
+            // `buildType.name != "release"` disables everything but release, which a rule cannot express
+            if (term.replace(/["'][^"']*["']/g, '').includes('!')) {
+                continue;
+            }
+            const rule: VariantRule = { buildTypes: [], flavors: [], names: [] };
+            for (const value of term.matchAll(/["']([^"']+)["']/g)) {
+                const name = value[1];
+                if (buildTypes.includes(name)) {
+                    rule.buildTypes.push(name);
+                } else if (flavors.includes(name)) {
+                    rule.flavors.push(name);
+                } else if (/name\s*==\s*$/i.test(term.substring(0, value.index))) {
+                    rule.names.push(name);
+                }
+            }
+            if (rule.buildTypes.length + rule.flavors.length + rule.names.length > 0) {
+                rules.push(rule);
+            }
+        }
+    }
+
+    return rules;
+}
+
+function matchesRule(variant: BuildVariant, rule: VariantRule): boolean {
+    return (rule.buildTypes.length === 0 || rule.buildTypes.includes(variant.buildType))
+        && rule.flavors.every(flavor => variant.flavors.includes(flavor))
+        && rule.names.every(name => typeof name === 'string' ? name === variant.name : name.test(variant.name));
+}
+
+/**
+ * The text between `open` at `start` (after whitespace) and its matching `close`.
+ */
+function readBalanced(
+    content: string,
+    start: number,
+    open: string,
+    close: string
+): { text: string; end: number } | undefined {
+    let index = start;
+    while (index < content.length && /\s/.test(content[index])) {
+        index++;
+    }
+    if (content[index] !== open) {
+        return undefined;
+    }
+
+    let depth = 0;
+    for (let i = index; i < content.length; i++) {
+        if (content[i] === open) {
+            depth++;
+        } else if (content[i] === close) {
+            depth--;
+            if (depth === 0) {
+                return { text: content.substring(index + 1, i), end: i + 1 };
+            }
+        }
+    }
+    return undefined;
+}
@@ -0,0 +1,298 @@
+/**
+ * Reads Gradle version catalogs (`gradle/libs.versions.toml`) and maps their aliases to
+ * the type-safe accessors build scripts use (`libs.androidx.core.ktx`). Only the TOML
+ * forms Gradle documents for catalogs are understood.
+ */
+
+export type CatalogSection = 'versions' | 'libraries' | 'bundles' | 'plugins';
+
+const SECTIONS: CatalogSection[] = ['versions', 'libraries', 'bundles', 'plugins'];
+
+/** Accessor suffixes that read a value instead of naming another entry */
+const VALUE_ACCESSORS = new Set(['get', 'getOrNull', 'orNull', 'asProvider', 'map', 'flatMap']);
+
+export interface CatalogEntry {
+    section: CatalogSection;
+    alias: string;
+    /** Accessor path below the catalog, e.g. `androidx.core.ktx` or `plugins.kotlin.android` */
+    accessor: string;
+    /** Zero-based position of the alias in the catalog file */
+    line: number;
+    column: number;
+    group?: string;
+    artifact?: string;
+    pluginId?: string;
+    /** The literal version, or the one `versionRef` resolves to */
+    version?: string;
+    versionRef?: string;
+    /** Zero-based line of `version.ref`, for navigating to the referenced version */
+    versionRefLine?: number;
+    /** Library aliases of a bundle */
+    members?: string[];
+}
+
+export interface VersionCatalog {
+    /** Accessor root, `libs` for `libs.versions.toml` */
+    name: string;
+    file: string;
+    entries: CatalogEntry[];
+}
+
+/**
+ * A catalog usage found in a build script.
+ */
+export interface CatalogUsage {
+    entry: CatalogEntry;
+    line: number;
+    column: number;
+    length: number;
+}
+
+/**
+ * `gradle/libs.versions.toml` -> `libs`.
+ */
+export function catalogNameFromFile(filePath: string): string {
+    const fileName = filePath.split(/[\\/]/).pop() ?? '';
+    return fileName.replace(/\.versions\.toml$/, '');
+}
+
+/**
+ * Gradle normalizes `-`, `_` and `.` in aliases to accessor segments.
+ */
+export function aliasToAccessor(alias: string): string {
+    return alias.split(/[-_.]/).filter(Boolean).join('.');
+}
+
+export function parseVersionCatalog(content: string, name: string, file: string): VersionCatalog {
+    const entries: CatalogEntry[] = [];
+    const lines = content.split(/\r?\n/);
+    let section: CatalogSection | undefined;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = stripComment(lines[i]);
+
+        const header = /^\s*\[([^\]]+)\]\s*$/.exec(line);
+        if (header) {
+            const headerName = header[1].trim() as CatalogSection;
+            section = SECTIONS.includes(headerName) ? headerName : undefined;
+            continue;
+        }
+        if (!section) {
+            continue;
+        }
+
+        const assignment = /^(\s*)(["']?)([\w.-]+)\2\s*=\s*(.*)$/.exec(line);
+        if (!assignment) {
+            continue;
+        }
+
+        // Arrays (bundles) may continue over several lines
+        let value = assignment[4];
+        const startLine = i;
+        while (!isBalanced(value) && i + 1 < lines.length) {
+            i++;
+            value += ' ' + stripComment(lines[i]);
+        }
+
+        const alias = assignment[3];
+        const entry: CatalogEntry = {
+            section,
+            alias,
+            accessor: section === 'libraries' ? aliasToAccessor(alias) : `${section}.${aliasToAccessor(alias)}`,
+            line: startLine,
+            column: assignment[1].length + assignment[2].length
+        };
+        readEntryValue(entry, value.trim(), startLine, lines);
+        entries.push(entry);
+    }
+
+    // Resolve version references once every version is known
+    const versions = new Map(entries.filter(entry => entry.section === 'versions').map(entry => [entry.alias, entry.version]));
+    for (const entry of entries) {
+        if (entry.versionRef && !entry.version) {
+            entry.version = versions.get(entry.versionRef);
+        }
+    }
+
+    return { name, file, entries };
+}
+
+/**
+ * The entry a dotted expression such as `libs.androidx.core.ktx.get` refers to.
+ */
+export function resolveAccessor(catalogs: VersionCatalog[], expression: string): CatalogEntry | undefined {
+    const segments = expression.split('.');
+    const catalog = catalogs.find(c => c.name === segments[0]);
+    if (!catalog) {
+        return undefined;
+    }
+
+    while (segments.length > 1 && VALUE_ACCESSORS.has(segments[segments.length - 1])) {
+        segments.pop();
+    }
+    const accessor = segments.slice(1).join('.');
+    return catalog.entries.find(entry => entry.accessor === accessor);
+}
+
+/**
+ * The catalog accessors and `findLibrary("alias")` style lookups in a build script.
+ */
+export function findCatalogUsages(catalogs: VersionCatalog[], content: string): CatalogUsage[] {
+    if (catalogs.length === 0) {
+        return [];
+    }
+
+    const usages: CatalogUsage[] = [];
+    const names = catalogs.map(catalog => escapeRegex(catalog.name)).join('|');
+    const accessorPattern = new RegExp(`(?<![\\w.])(?:${names})(?:\\.[A-Za-z_]\\w*)+`, 'g');
+    const lookupPattern = /\bfind(Library|Plugin|Bundle|Version)\s*\(\s*["']([\w.-]+)["']/g;
+    const lookupSections: Record<string, CatalogSection> = {
+        Library: 'libraries',
+        Plugin: 'plugins',
+        Bundle: 'bundles',
+        Version: 'versions'
+    };
+
+    const lines = content.split(/\r?\n/);
+    for (let line = 0; line < lines.length; line++) {
+        const text = lines[line];
+        if (/^\s*(\/\/|\*|\/\*)/.test(text)) {
+            continue;
+        }
+
+        for (const match of text.matchAll(accessorPattern)) {
+            const entry = resolveAccessor(catalogs, match[0]);
+            if (entry) {
+                usages.push({ entry, line, column: match.index ?? 0, length: match[0].length });
+            }
+        }
+
+        // Convention plugins look entries up by alias; the catalog is not known from the call
+        for (const match of text.matchAll(lookupPattern)) {
+            const section = lookupSections[match[1]];
+            const alias = aliasToAccessor(match[2]);
+            for (const catalog of catalogs) {
+                const entry = catalog.entries.find(e => e.section === section && aliasToAccessor(e.alias) === alias);
+                if (entry) {
+                    const column = (match.index ?? 0) + match[0].lastIndexOf(match[2]);
+                    usages.push({ entry, line, column, length: match[2].length });
+                }
+            }
+        }
+    }
+    return usages;
+}
+
+/**
+ * `group:artifact:version`, `plugin.id:version` or the version itself.
+ */
+export function describeEntry(entry: CatalogEntry): string {
+    switch (entry.section) {
+        case 'libraries':
+            return [entry.group, entry.artifact, entry.version].filter(Boolean).join(':');
+        case 'plugins':
+            return [entry.pluginId, entry.version].filter(Boolean).join(':');
+        case 'bundles':
+            return (entry.members ?? []).join(', ');
+        case 'versions':
+            return entry.version ?? '';
+    }
+}
+
+function readEntryValue(entry: CatalogEntry, value: string, line: number, lines: string[]): void {
+    // "group:artifact:version" / "plugin.id:version" / "1.2.3"
+    const literal = /^["']([^"']*)["']$/.exec(value);
+    if (literal) {
+        const parts = literal[1].split(':');
+        if (entry.section === 'libraries') {
+            [entry.group, entry.artifact, entry.version] = parts;
+        } else if (entry.section === 'plugins') {
+            [entry.pluginId, entry.version] = parts;
+        } else {
+            entry.version = literal[1];
+        }
+        return;
+    }
+
+    if (value.startsWith('[')) {
+        entry.members = Array.from(value.matchAll(/["']([^"']+)["']/g), match => match[1]);
+        return;
+    }
+
+    if (!value.startsWith('{')) {
+        return;
+    }
+
+    // { module = "g:a", group = "g", name = "a", id = "p", version = "1" | { strictly = "1" }, version.ref = "v" }
+    const table = value.slice(1, value.lastIndexOf('}'));
+    const module = readTableString(table, 'module');
+    if (module) {
+        [entry.group, entry.artifact] = module.split(':');
+    }
+    entry.group = readTableString(table, 'group') ?? entry.group;
+    entry.artifact = readTableString(table, 'name') ?? entry.artifact;
+    entry.pluginId = readTableString(table, 'id');
+
+    if (entry.section === 'versions') {
+        entry.version = readRichVersion(table);
+        return;
+    }
+
+    const versionRef = readTableString(table, 'version\\.ref') ?? readTableString(table, 'ref', /version\s*=\s*\{[^}]*/);
+    if (versionRef) {
+        entry.versionRef = versionRef;
+        entry.versionRefLine = line + Math.max(0, lines.slice(line).findIndex(text => text.includes(versionRef)));
+        return;
+    }
+    const version = /\bversion\s*=\s*\{([^}]*)\}/.exec(table);
+    entry.version = version ? readRichVersion(version[1]) : readTableString(table, 'version');
+}
+
+/** `strictly`, `require` or `prefer` of a rich version, or the plain value */
+function readRichVersion(table: string): string | undefined {
+    return readTableString(table, 'strictly')
+        ?? readTableString(table, 'require')
+        ?? readTableString(table, 'prefer')
+        ?? /^\s*["']([^"']*)["']/.exec(table)?.[1];
+}
+
+function readTableString(table: string, key: string, prefix?: RegExp): string | undefined {
+    const source = prefix ? prefix.exec(table)?.[0] : table;
+    if (!source) {
+        return undefined;
+    }
+    return new RegExp(`(?:^|[\\s,{])${key}\\s*=\\s*["']([^"']*)["']`).exec(source)?.[1];
+}
+
+function stripComment(line: string): string {
+    let quote: string | undefined;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quote) {
+            if (char === quote) {
+                quote = undefined;
+            }
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === '#') {
+            return line.substring(0, i);
+        }
+    }
+    return line;
+}
+
+/**
+ * Whether every array and inline table is closed; brackets in strings, such as the
+ * version range `"[1.7, 2.0["`, don't count.
+ */
+function isBalanced(value: string): boolean {
+    const unquoted = value.replace(/"[^"]*"|'[^']*'/g, '');
+    const opened = (unquoted.match(/[[{]/g) ?? []).length;
+    const closed = (unquoted.match(/[\]}]/g) ?? []).length;
+    return opened <= closed;
+}
+
+/** Catalog names are matched literally, e.g. in `findCatalogUsages` and completions */
+export function escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
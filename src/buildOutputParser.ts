@@ -0,0 +1,293 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { LintIssue } from './diagnosticProvider';
+
+/** Issue id used for Gradle "What went wrong" failures that have no compiler location */
+export const GRADLE_FAILURE_ID = 'GradleBuildFailure';
+
+/**
+ * One failure from Gradle's `FAILURE:` summary.
+ */
+export interface GradleFailure {
+    /** The failing task, e.g. `:app:compileDebugKotlin` */
+    task?: string;
+    /** The `* What went wrong:` text, without the `>` cause markers */
+    message: string;
+    /** The `* Try:` suggestions */
+    suggestions: string[];
+    /** From `* Where:`, e.g. `Build file '.../build.gradle.kts' line: 12` */
+    location?: { file: string; line: number };
+}
+
+/**
+ * Parses compiler and Gradle errors out of Gradle console output.
+ *
+ * Understands:
+ * - Kotlin: `e: file:///path/File.kt:12:5 message`, `e: /path/File.kt:12:5: message`
+ *   and the `e: /path/File.kt: (12, 5): message` form
+ * - javac: `/path/Foo.java:12: error: message` followed by the source line and a caret
+ * - AAPT2: `ERROR: /path/res/layout/x.xml:12: AAPT: error: message`
+ * - Gradle `* What went wrong:` blocks
+ */
+export class BuildOutputParser {
+    public parse(output: string, workspaceRoot: string): LintIssue[] {
+        const lines = output.split(/\r?\n/);
+        const issues: LintIssue[] = [];
+        const seen = new Set<string>();
+
+        for (let i = 0; i < lines.length; i++) {
+            const issue =
+                this.parseKotlinLine(lines[i], workspaceRoot) ??
+                this.parseAaptLine(lines[i], workspaceRoot) ??
+                this.parseJavacLine(lines, i, workspaceRoot);
+
+            if (issue) {
+                // Gradle often prints the same compiler error twice (task output and failure summary)
+                const key = `${issue.file}:${issue.line}:${issue.column}:${issue.message}`;
+                if (!seen.has(key)) {
+                    seen.add(key);
+                    issues.push(issue);
+                }
+            }
+        }
+
+        issues.push(...this.parseWhatWentWrong(lines, workspaceRoot));
+        return issues;
+    }
+
+    /**
+     * Read the blocks of Gradle's failure summary. A build run with `--continue` reports
+     * several numbered failures, each with its own `* Where:`, `* What went wrong:` and `* Try:`.
+     */
+    public parseFailures(output: string, workspaceRoot: string): GradleFailure[] {
+        const lines = output.split(/\r?\n/);
+        const failures: GradleFailure[] = [];
+        let location: GradleFailure['location'];
+        let current: GradleFailure | undefined;
+        let section: 'where' | 'what' | 'try' | undefined;
+
+        for (const rawLine of lines) {
+            const line = rawLine.trim();
+
+            // `2: Task failed with an exception.` and the `=====` separator start a new failure
+            if (/^=+$/.test(line) || /^\d+: Task failed/.test(line) || line.startsWith('BUILD FAILED')) {
+                section = undefined;
+                location = undefined;
+                current = undefined;
+                continue;
+            }
+
+            const header = /^\* (Where|What went wrong|Try|Exception is|Get more help):?/.exec(line);
+            if (header) {
+                switch (header[1]) {
+                    case 'Where':
+                        section = 'where';
+                        break;
+                    case 'What went wrong':
+                        section = 'what';
+                        current = { message: '', suggestions: [], location };
+                        failures.push(current);
+                        break;
+                    case 'Try':
+                        section = 'try';
+                        break;
+                    default:
+                        section = undefined;
+                }
+                continue;
+            }
+            if (!line) {
+                continue;
+            }
+
+            if (section === 'where') {
+                const where = /^(?:Build|Settings|Script) file '(.+?)' line: (\d+)/.exec(line);
+                if (where) {
+                    location = { file: this.resolvePath(where[1], workspaceRoot), line: parseInt(where[2], 10) };
+                    if (current) {
+                        current.location = location;
+                    }
+                }
+            } else if (section === 'what' && current) {
+                const text = line.replace(/^>\s*/, '');
+                current.message = current.message ? `${current.message}\n${text}` : text;
+                current.task = current.task ?? /task '(:?[^']+)'/.exec(text)?.[1];
+            } else if (section === 'try' && current && line.startsWith('>')) {
+                current.suggestions.push(line.replace(/^>\s*/, ''));
+            }
+        }
+
+        return failures.filter(failure => failure.message);
+    }
+
+    private parseKotlinLine(line: string, workspaceRoot: string): LintIssue | undefined {
+        // e: file:///C:/path/to/file.kt:257:13 Error message here.
+        // e: /path/to/file.kt:257:13: Error message here.
+        const colonForm = /^([ew]):\s+(\S.*?\.kts?):(\d+):(\d+):?\s+(.+)$/.exec(line);
+        // e: /path/to/file.kt: (257, 13): Error message here.
+        const parenForm = /^([ew]):\s+(\S.*?\.kts?):\s*\((\d+),\s*(\d+)\):?\s*(.+)$/.exec(line);
+        const match = colonForm ?? parenForm;
+        if (!match) {
+            return undefined;
+        }
+
+        const [, severity, file, lineNumber, column, message] = match;
+        return {
+            file: this.resolvePath(file, workspaceRoot),
+            line: parseInt(lineNumber, 10),
+            column: parseInt(column, 10),
+            severity: severity === 'e' ? 'error' : 'warning',
+            message: message.trim(),
+            source: 'Kotlin Compiler',
+            id: 'KotlinCompilationError',
+            category: 'Compilation'
+        };
+    }
+
+    private parseAaptLine(line: string, workspaceRoot: string): LintIssue | undefined {
+        const match = /^(?:ERROR:\s*)?(\S.*?\.xml):(\d+)(?::(\d+))?:\s*AAPT:\s*(error|warning):\s*(.+)$/i.exec(line.trim());
+        if (!match) {
+            return undefined;
+        }
+
+        const [, file, lineNumber, column, severity, message] = match;
+        return {
+            file: this.resolvePath(file, workspaceRoot),
+            line: parseInt(lineNumber, 10),
+            column: column ? parseInt(column, 10) : 1,
+            severity: severity.toLowerCase() === 'error' ? 'error' : 'warning',
+            message: message.trim(),
+            source: 'AAPT2',
+            id: 'AaptError',
+            category: 'Compilation'
+        };
+    }
+
+    private parseJavacLine(lines: string[], index: number, workspaceRoot: string): LintIssue | undefined {
+        const match = /^(\S.*?\.java):(\d+):\s+(error|warning):\s+(.+)$/.exec(lines[index]);
+        if (!match) {
+            return undefined;
+        }
+
+        const [, file, lineNumber, severity, message] = match;
+        let column = 1;
+        const details: string[] = [];
+
+        // javac prints the offending source line, a caret under the column, then optional
+        // `symbol:` / `location:` lines
+        for (let i = index + 1; i < Math.min(lines.length, index + 6); i++) {
+            const next = lines[i];
+            const caret = /^(\s*)\^\s*$/.exec(next);
+            if (caret) {
+                column = caret[1].length + 1;
+                continue;
+            }
+            const detail = /^\s+(symbol|location|required|found|reason):\s*(.+)$/.exec(next);
+            if (detail) {
+                details.push(`${detail[1]}: ${detail[2].trim()}`);
+                continue;
+            }
+            if (/^\S/.test(next)) {
+                break;
+            }
+        }
+
+        return {
+            file: this.resolvePath(file, workspaceRoot),
+            line: parseInt(lineNumber, 10),
+            column,
+            severity: severity === 'error' ? 'error' : 'warning',
+            message: [message.trim(), ...details].join('\n'),
+            source: 'Java Compiler',
+            id: 'JavaCompilationError',
+            category: 'Compilation'
+        };
+    }
+
+    /**
+     * Turn each `* What went wrong:` block into an error on the build file it points to.
+     * Lint's own "aborting build" failure is skipped, since its report carries the real issues.
+     */
+    private parseWhatWentWrong(lines: string[], workspaceRoot: string): LintIssue[] {
+        const issues: LintIssue[] = [];
+
+        for (let i = 0; i < lines.length; i++) {
+            if (lines[i].trim() !== '* What went wrong:') {
+                continue;
+            }
+
+            const block: string[] = [];
+            for (i = i + 1; i < lines.length; i++) {
+                const line = lines[i];
+                if (/^\* (Try|Exception is|Where|Get more help):?/.test(line.trim())) {
+                    break;
+                }
+                if (line.trim()) {
+                    block.push(line.trim());
+                }
+            }
+            i--;
+
+            const text = block.join('\n');
+            if (!text || /Lint found (errors|fatal errors)/i.test(text) || /task '[^']*:lint\w*'/.test(text)) {
+                continue;
+            }
+
+            const location = this.findFailureLocation(lines, block, workspaceRoot);
+            issues.push({
+                file: location.file,
+                line: location.line,
+                column: 1,
+                severity: 'error',
+                message: block.map(line => line.replace(/^>\s*/, '')).join('\n'),
+                source: 'Gradle',
+                id: GRADLE_FAILURE_ID,
+                category: 'Build'
+            });
+        }
+
+        return issues;
+    }
+
+    /**
+     * Locate a failure: `Build file '...' line: N` from the output, else the build file
+     * of the module named in `Execution failed for task ':module:task'`, else the root build file.
+     */
+    private findFailureLocation(lines: string[], block: string[], workspaceRoot: string): { file: string; line: number } {
+        for (const line of lines) {
+            const where = /Build file '(.+?)' line: (\d+)/.exec(line);
+            if (where) {
+                return { file: this.resolvePath(where[1], workspaceRoot), line: parseInt(where[2], 10) };
+            }
+        }
+
+        const task = /(?:task|project) '(:[^']*)'/.exec(block.join('\n'));
+        const segments = task ? task[1].split(':').filter(Boolean) : [];
+        // `:app:compileDebugKotlin` -> app, `project ':app'` -> app
+        const moduleSegments = block[0]?.includes('task') ? segments.slice(0, -1) : segments;
+
+        for (const dir of [path.join(workspaceRoot, ...moduleSegments), workspaceRoot]) {
+            for (const name of ['build.gradle.kts', 'build.gradle', 'settings.gradle.kts', 'settings.gradle']) {
+                const candidate = path.join(dir, name);
+                if (fs.existsSync(candidate)) {
+                    return { file: candidate, line: 1 };
+                }
+            }
+        }
+
+        return { file: path.join(workspaceRoot, 'build.gradle'), line: 1 };
+    }
+
+    private resolvePath(file: string, workspaceRoot: string): string {
+        const trimmed = file.trim();
+        if (trimmed.startsWith('file:')) {
+            try {
+                return fileURLToPath(trimmed);
+            } catch {
+                // A URL with a host or a malformed one: keep the line rather than losing the whole output
+            }
+        }
+        return path.isAbsolute(trimmed) ? trimmed : path.join(workspaceRoot, trimmed);
+    }
+}
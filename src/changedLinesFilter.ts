@@ -0,0 +1,266 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { DiagnosticProvider, LintIssue } from './diagnosticProvider';
+import { CONFIG_NAMESPACE, CONFIG_KEYS, COMMANDS, OUTPUT_CHANNELS } from './constants';
+import { Logger } from './logger';
+
+const execFileAsync = promisify(execFile);
+
+export type LintDiffMode = 'all' | 'changedFiles' | 'changedLines';
+export type LintDiffBase = 'workingTree' | 'HEAD' | 'mergeBase';
+
+/** Changed line ranges per file (1-based, inclusive), or 'all' for new files */
+type ChangedLines = Map<string, [number, number][] | 'all'>;
+
+const MODE_LABELS: Record<LintDiffMode, string> = {
+    all: 'All Issues',
+    changedFiles: 'Changed Files',
+    changedLines: 'Changed Lines'
+};
+
+/**
+ * Limits the lint issues shown to the files or lines changed against a git base
+ * (unstaged changes, HEAD, or the merge-base with a branch), so legacy code only
+ * shows the issues you introduce. Compiler and build errors are never hidden.
+ */
+export class ChangedLinesFilter implements vscode.Disposable {
+    private changes: ChangedLines | undefined;
+    private statusBarItem: vscode.StatusBarItem;
+    private disposables: vscode.Disposable[] = [];
+    private refreshTimer: NodeJS.Timeout | undefined;
+    private logger: Logger;
+
+    constructor(
+        private readonly diagnosticProvider: DiagnosticProvider,
+        private readonly workspaceRoot: string,
+        outputChannel?: vscode.OutputChannel
+    ) {
+        const channel = outputChannel || vscode.window.createOutputChannel(OUTPUT_CHANNELS.MAIN);
+        this.logger = Logger.create(channel, 'ChangedLines');
+
+        this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 85);
+        this.statusBarItem.command = COMMANDS.SELECT_LINT_DIFF_MODE;
+        this.statusBarItem.show();
+
+        const gitWatcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(workspaceRoot, '.git/{HEAD,index}')
+        );
+        this.disposables.push(
+            gitWatcher,
+            gitWatcher.onDidChange(() => this.scheduleRefresh()),
+            gitWatcher.onDidCreate(() => this.scheduleRefresh()),
+            vscode.workspace.onDidSaveTextDocument(() => this.scheduleRefresh()),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration(`${CONFIG_NAMESPACE}.${CONFIG_KEYS.LINT_DIFF_MODE}`) ||
+                    event.affectsConfiguration(`${CONFIG_NAMESPACE}.${CONFIG_KEYS.LINT_DIFF_BASE}`) ||
+                    event.affectsConfiguration(`${CONFIG_NAMESPACE}.${CONFIG_KEYS.LINT_DIFF_BASE_BRANCH}`)) {
+                    this.refresh();
+                }
+            }),
+            diagnosticProvider.onDidChangeIssues(() => this.updateStatusBar())
+        );
+
+        this.refresh();
+    }
+
+    /**
+     * Recompute the changed lines from git and re-apply the filter.
+     */
+    public async refresh(): Promise<void> {
+        const mode = getLintDiffMode();
+        if (mode === 'all') {
+            this.changes = undefined;
+            this.diagnosticProvider.setIssueFilter(undefined);
+            this.updateStatusBar();
+            return;
+        }
+
+        try {
+            this.changes = await this.readChanges();
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            this.logger.warn(`Could not compute git changes, showing all lint issues: ${message}`);
+            this.changes = undefined;
+        }
+
+        this.diagnosticProvider.setIssueFilter(this.changes ? issue => this.isShown(issue) : undefined);
+        this.updateStatusBar();
+    }
+
+    private scheduleRefresh(): void {
+        if (getLintDiffMode() === 'all') {
+            return;
+        }
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = undefined;
+            this.refresh();
+        }, 500);
+    }
+
+    private isShown(issue: LintIssue): boolean {
+        if (!this.changes || issue.source !== 'Android Lint') {
+            return true;
+        }
+
+        const ranges = this.changes.get(path.normalize(issue.file));
+        if (!ranges) {
+            return false;
+        }
+        if (ranges === 'all' || getLintDiffMode() === 'changedFiles') {
+            return true;
+        }
+
+        const start = issue.line;
+        const end = issue.endLine ?? issue.line;
+        return ranges.some(([from, to]) => start <= to && end >= from);
+    }
+
+    private async readChanges(): Promise<ChangedLines> {
+        const gitRoot = (await this.git(['rev-parse', '--show-toplevel'])).trim();
+        const base = await this.resolveBase();
+
+        const diffArgs = ['-c', 'core.quotePath=false', 'diff', '--no-color', '--no-ext-diff', '--unified=0'];
+        if (base) {
+            diffArgs.push(base);
+        }
+        const changes = parseUnifiedDiff(await this.git(diffArgs), gitRoot);
+
+        // Untracked files are new in every mode
+        const untracked = await this.git(['ls-files', '--others', '--exclude-standard', '--full-name', '-z'], gitRoot);
+        for (const file of untracked.split('\0').filter(Boolean)) {
+            changes.set(path.normalize(path.join(gitRoot, file)), 'all');
+        }
+
+        this.logger.debug(`${changes.size} changed file(s) against ${describeBase()}`);
+        return changes;
+    }
+
+    /**
+     * The revision to diff against, or undefined to compare the working tree with the index.
+     */
+    private async resolveBase(): Promise<string | undefined> {
+        const config = vscode.workspace.getConfiguration(CONFIG_NAMESPACE);
+        switch (config.get<LintDiffBase>(CONFIG_KEYS.LINT_DIFF_BASE, 'HEAD')) {
+            case 'workingTree':
+                return undefined;
+            case 'mergeBase': {
+                const branch = config.get<string>(CONFIG_KEYS.LINT_DIFF_BASE_BRANCH, 'main');
+                return (await this.git(['merge-base', 'HEAD', branch])).trim();
+            }
+            default:
+                return 'HEAD';
+        }
+    }
+
+    private async git(args: string[], cwd: string = this.workspaceRoot): Promise<string> {
+        const { stdout } = await execFileAsync('git', args, {
+            cwd,
+            timeout: 15000,
+            maxBuffer: 32 * 1024 * 1024
+        });
+        return stdout;
+    }
+
+    private updateStatusBar(): void {
+        const mode = getLintDiffMode();
+        if (mode === 'all' || !this.changes) {
+            this.statusBarItem.text = '$(git-compare) Lint: All';
+            this.statusBarItem.tooltip = mode === 'all'
+                ? 'Showing all lint issues. Click to only show issues on changed files or lines'
+                : 'Could not read git changes, showing all lint issues. Click to change';
+            return;
+        }
+
+        const hidden = this.diagnosticProvider.getAllIssues()
+            .filter(issue => !issue.inBaseline && this.diagnosticProvider.isFilteredOut(issue))
+            .length;
+        this.statusBarItem.text = `$(git-compare) Lint: ${MODE_LABELS[mode]}${hidden > 0 ? ` (${hidden} hidden)` : ''}`;
+        this.statusBarItem.tooltip =
+            `Showing lint issues on ${MODE_LABELS[mode].toLowerCase()} compared to ${describeBase()}; ` +
+            `${hidden} issue(s) hidden. Click to change`;
+    }
+
+    public dispose(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.diagnosticProvider.setIssueFilter(undefined);
+        this.disposables.forEach(d => d.dispose());
+        this.statusBarItem.dispose();
+    }
+}
+
+export function getLintDiffMode(): LintDiffMode {
+    return vscode.workspace.getConfiguration(CONFIG_NAMESPACE)
+        .get<LintDiffMode>(CONFIG_KEYS.LINT_DIFF_MODE, 'all');
+}
+
+/**
+ * Let the user pick between all issues, changed files and changed lines.
+ */
+export async function selectLintDiffMode(): Promise<void> {
+    const current = getLintDiffMode();
+    const picked = await vscode.window.showQuickPick(
+        (Object.keys(MODE_LABELS) as LintDiffMode[]).map(mode => ({
+            label: MODE_LABELS[mode],
+            description: mode === current ? 'current' : undefined,
+            mode
+        })),
+        { placeHolder: `Show lint issues for... (compared to ${describeBase()})` }
+    );
+    if (!picked || picked.mode === current) {
+        return;
+    }
+
+    await vscode.workspace.getConfiguration(CONFIG_NAMESPACE)
+        .update(CONFIG_KEYS.LINT_DIFF_MODE, picked.mode, vscode.ConfigurationTarget.Workspace);
+}
+
+function describeBase(): string {
+    const config = vscode.workspace.getConfiguration(CONFIG_NAMESPACE);
+    switch (config.get<LintDiffBase>(CONFIG_KEYS.LINT_DIFF_BASE, 'HEAD')) {
+        case 'workingTree':
+            return 'unstaged changes';
+        case 'mergeBase':
+            return `merge-base with ${config.get<string>(CONFIG_KEYS.LINT_DIFF_BASE_BRANCH, 'main')}`;
+        default:
+            return 'HEAD';
+    }
+}
+
+/**
+ * Collect the added line ranges per file from `git diff --unified=0` output.
+ */
+function parseUnifiedDiff(diff: string, gitRoot: string): ChangedLines {
+    const changes: ChangedLines = new Map();
+    let current: [number, number][] | undefined;
+
+    for (const line of diff.split('\n')) {
+        if (line.startsWith('+++ ')) {
+            const target = line.slice(4).trim();
+            if (target === '/dev/null') {
+                current = undefined;
+                continue;
+            }
+            const file = path.normalize(path.join(gitRoot, target.replace(/^b\//, '')));
+            current = [];
+            changes.set(file, current);
+            continue;
+        }
+
+        const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/.exec(line);
+        if (hunk && current) {
+            const start = parseInt(hunk[1], 10);
+            const count = hunk[2] !== undefined ? parseInt(hunk[2], 10) : 1;
+            // Pure deletions (count 0) still flag the line they were removed before
+            current.push(count === 0 ? [start, start + 1] : [start, start + count - 1]);
+        }
+    }
+
+    return changes;
+}
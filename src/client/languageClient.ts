@@ -185,6 +185,20 @@ export class LanguageClientManager implements vscode.Disposable {
         return this.client;
     }
 
+    /**
+     * Send a custom notification to the server. Does nothing when the server is not running.
+     */
+    async sendNotification(method: string, params?: unknown): Promise<void> {
+        if (!this.client?.isRunning()) {
+            return;
+        }
+        try {
+            await this.client.sendNotification(method, params);
+        } catch (error) {
+            this.logger.warn(`Failed to send ${method} to the language server: ${error}`);
+        }
+    }
+
     /**
      * Check if the server is running.
      */
@@ -1,15 +1,32 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
+import { XmlSuppressTarget, createSuppressEdit, createXmlSuppressEdit, findXmlSuppressTarget } from './lintSuppression';
+import { createLintFixEdit } from './lintFixApplier';
+import { nearestLintXml } from './lintXmlConfig';
+import { DiagnosticProvider, LintIssue, QuickFix } from './diagnosticProvider';
+import { COMMANDS } from './constants';
+
+/**
+ * A fix shipped in the lint report. Its edit is built when the action is chosen, since
+ * that opens every file the fix touches.
+ */
+class LintFixCodeAction extends vscode.CodeAction {
+    constructor(readonly fix: QuickFix) {
+        super(`🔧 ${fix.title}`, vscode.CodeActionKind.QuickFix);
+    }
+}
 
 export class CodeActionProvider implements vscode.CodeActionProvider {
     public static readonly providedCodeActionKinds = [
         vscode.CodeActionKind.QuickFix
     ];
 
+    constructor(private readonly diagnosticProvider?: DiagnosticProvider) {}
+
     public provideCodeActions(
         document: vscode.TextDocument,
         range: vscode.Range | vscode.Selection,
-        context: vscode.CodeActionContext,
-        token: vscode.CancellationToken
+        context: vscode.CodeActionContext
     ): vscode.CodeAction[] | undefined {
         const config = vscode.workspace.getConfiguration('android-linter');
         if (!config.get<boolean>('enableQuickFixes')) {
@@ -20,15 +37,85 @@ export class CodeActionProvider implements vscode.CodeActionProvider {
 
         // Check each diagnostic in the current context
         for (const diagnostic of context.diagnostics) {
-            if (diagnostic.source?.startsWith('Android Lint')) {
-                const quickFixes = this.getQuickFixesForDiagnostic(document, diagnostic);
-                codeActions.push(...quickFixes);
+            // Only lint issues can be fixed, suppressed or configured in lint.xml; not compiler or build errors
+            const issue = this.diagnosticProvider?.findIssue(document, diagnostic);
+            if (!issue || issue.source !== 'Android Lint') {
+                continue;
             }
+
+            // Fixes shipped in the lint report come first; hand-written ones cover the rest
+            const lintFixes = this.getLintFixesForIssue(issue, diagnostic);
+            codeActions.push(...lintFixes);
+
+            const quickFixes = this.getQuickFixesForDiagnostic(document, diagnostic);
+            codeActions.push(...(lintFixes.length > 0 ? quickFixes.filter(action => !action.isPreferred) : quickFixes));
+            codeActions.push(...this.getLintXmlActions(issue, diagnostic));
         }
 
         return codeActions;
     }
 
+    public async resolveCodeAction(action: vscode.CodeAction): Promise<vscode.CodeAction> {
+        if (action instanceof LintFixCodeAction) {
+            action.edit = await createLintFixEdit(action.fix);
+            if (!action.edit) {
+                vscode.window.showWarningMessage(`Android Linter: "${action.fix.title}" no longer matches the code. Run lint again to refresh the fix.`);
+            }
+        }
+        return action;
+    }
+
+    /**
+     * lint.xml changes for the diagnostic's check: disable it, change its severity or ignore
+     * it for this file, in the lint.xml nearest to the file that the commands edit.
+     */
+    private getLintXmlActions(issue: LintIssue, diagnostic: vscode.Diagnostic): vscode.CodeAction[] {
+        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        if (!workspaceRoot) {
+            return [];
+        }
+        const lintXml = path.relative(workspaceRoot, nearestLintXml(issue.file, workspaceRoot)).split(path.sep).join('/');
+
+        const createAction = (title: string, command: string, ...args: unknown[]) => {
+            const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+            action.diagnostics = [diagnostic];
+            action.command = { command, title, arguments: [issue, ...args] };
+            return action;
+        };
+
+        const currentSeverity = issue.severity === 'information' ? 'informational' : issue.severity;
+        const severities = (['error', 'warning', 'informational'] as const)
+            .filter(severity => severity !== currentSeverity)
+            .map(severity => createAction(
+                `⚙️ Change "${issue.id}" severity to ${severity} (${lintXml})`,
+                COMMANDS.CHANGE_LINT_SEVERITY,
+                severity
+            ));
+
+        return [
+            createAction(`⚙️ Disable "${issue.id}" (${lintXml})`, COMMANDS.DISABLE_LINT_ISSUE),
+            ...severities,
+            createAction(`⚙️ Ignore "${issue.id}" for this file (${lintXml})`, COMMANDS.IGNORE_LINT_ISSUE_PATH)
+        ];
+    }
+
+    private getLintFixesForIssue(issue: LintIssue, diagnostic: vscode.Diagnostic): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+
+        for (const fix of issue.fixes || []) {
+            if (!fix.edits || fix.edits.length === 0) {
+                continue;
+            }
+
+            const action = new LintFixCodeAction(fix);
+            action.diagnostics = [diagnostic];
+            action.isPreferred = actions.length === 0;
+            actions.push(action);
+        }
+
+        return actions;
+    }
+
     private getQuickFixesForDiagnostic(
         document: vscode.TextDocument,
         diagnostic: vscode.Diagnostic
@@ -62,7 +149,7 @@ export class CodeActionProvider implements vscode.CodeActionProvider {
             default:
                 // Generic suppress lint action
                 if (issueId) {
-                    actions.push(this.createSuppressLintAction(document, diagnostic, issueId));
+                    actions.push(...this.createSuppressLintActions(document, diagnostic, issueId));
                 }
         }
 
@@ -165,18 +252,13 @@ export class CodeActionProvider implements vscode.CodeActionProvider {
         return action;
     }
 
-    private createSuppressLintAction(
+    private createSuppressLintActions(
         document: vscode.TextDocument,
         diagnostic: vscode.Diagnostic,
         issueId: string
-    ): vscode.CodeAction {
+    ): vscode.CodeAction[] {
         if (document.languageId === 'xml') {
-            const action = new vscode.CodeAction(
-                `💡 Suppress with tools:ignore="${issueId}"`,
-                vscode.CodeActionKind.Empty
-            );
-            action.diagnostics = [diagnostic];
-            return action;
+            return this.createXmlSuppressActions(document, diagnostic, issueId);
         }
 
         const action = new vscode.CodeAction(
@@ -184,23 +266,44 @@ export class CodeActionProvider implements vscode.CodeActionProvider {
             vscode.CodeActionKind.QuickFix
         );
         action.diagnostics = [diagnostic];
+        action.edit = createSuppressEdit(document, diagnostic.range.start, issueId);
 
-        const edit = new vscode.WorkspaceEdit();
-        const line = document.lineAt(diagnostic.range.start.line);
-        const lineText = line.text;
-        const indentation = lineText.match(/^\s*/)?.[0] || '';
-        
-        // Add @SuppressLint annotation (Kotlin/Java)
-        const isKotlin = document.languageId === 'kotlin';
-        const suppressAnnotation = isKotlin
-            ? `${indentation}@Suppress("${issueId}")\n`
-            : `${indentation}@SuppressLint("${issueId}")\n`;
-        
-        const insertPosition = new vscode.Position(diagnostic.range.start.line, 0);
-        edit.insert(document.uri, insertPosition, suppressAnnotation);
-        action.edit = edit;
+        return [action];
+    }
 
-        return action;
+    private createXmlSuppressActions(
+        document: vscode.TextDocument,
+        diagnostic: vscode.Diagnostic,
+        issueId: string
+    ): vscode.CodeAction[] {
+        const position = diagnostic.range.start;
+        const element = findXmlSuppressTarget(document, position, 'element');
+        const parent = findXmlSuppressTarget(document, position, 'parent');
+        const root = findXmlSuppressTarget(document, position, 'file');
+
+        const targets: { target: XmlSuppressTarget; title: string }[] = [
+            { target: 'element', title: `🔇 Suppress "${issueId}" with tools:ignore on <${element?.name}>` }
+        ];
+        // The parent option is redundant when it is the root, which the file option already covers
+        if (parent && root && parent.start !== root.start) {
+            targets.push({ target: 'parent', title: `🔇 Suppress "${issueId}" on parent <${parent.name}>` });
+        }
+        if (root && element && root.start !== element.start) {
+            targets.push({ target: 'file', title: `🔇 Suppress "${issueId}" for the whole file` });
+        }
+
+        const actions: vscode.CodeAction[] = [];
+        for (const { target, title } of targets) {
+            const edit = createXmlSuppressEdit(document, position, issueId, target);
+            if (!edit) {
+                continue;
+            }
+            const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+            action.diagnostics = [diagnostic];
+            action.edit = edit;
+            actions.push(action);
+        }
+        return actions;
     }
 
     private createInfoAction(diagnostic: vscode.Diagnostic, issueId: string, message: string): vscode.CodeAction {
@@ -22,6 +22,10 @@ export const CONFIG_KEYS = {
     LINT_TIMEOUT: 'lintTimeout',
     LINT_OFFLINE: 'lintOffline',
     LINT_FAST_MODE: 'lintFastMode',
+    LINT_SHOW_BASELINE_ISSUES: 'lintShowBaselineIssues',
+    LINT_DIFF_MODE: 'lintDiffMode',
+    LINT_DIFF_BASE: 'lintDiffBase',
+    LINT_DIFF_BASE_BRANCH: 'lintDiffBaseBranch',
     DEBOUNCE_DELAY: 'debounceDelay',
     
     // Severity settings
@@ -67,12 +71,15 @@ export const CONFIG_KEYS = {
     GRADLE_DAEMON_IDLE_TIMEOUT_MS: 'gradleDaemonIdleTimeoutMs',
     GRADLE_JVM_ARGS: 'gradleJvmArgs',
     GRADLE_MAX_WORKERS: 'gradleMaxWorkers',
+    SYNC_ON_BUILD_FILE_CHANGE: 'syncOnBuildFileChange',
+    BUILD_PROFILE_HISTORY_SIZE: 'buildProfileHistorySize',
     
     // Emulator settings
     EMULATOR_GPU_MODE: 'emulatorGpuMode',
     
     // Profiling settings
     PROFILER_POLL_INTERVAL_MS: 'profilerPollIntervalMs',
+    SCREEN_CAPTURE_FOLDER: 'screenCaptureFolder',
 } as const;
 
 // Command IDs
@@ -81,6 +88,19 @@ export const COMMANDS = {
     LINT_CURRENT_FILE: 'android-linter.lintCurrentFile',
     LINT_PROJECT: 'android-linter.lintProject',
     CLEAR_DIAGNOSTICS: 'android-linter.clearDiagnostics',
+    CREATE_LINT_BASELINE: 'android-linter.createLintBaseline',
+    UPDATE_LINT_BASELINE: 'android-linter.updateLintBaseline',
+    TOGGLE_BASELINE_ISSUES: 'android-linter.toggleBaselineIssues',
+    FILTER_LINT_ISSUES: 'android-linter.filterLintIssues',
+    FILTER_LINT_SEVERITY: 'android-linter.filterLintIssuesBySeverity',
+    CLEAR_LINT_ISSUES_FILTER: 'android-linter.clearLintIssuesFilter',
+    SUPPRESS_LINT_ISSUE: 'android-linter.suppressLintIssue',
+    DISABLE_LINT_ISSUE: 'android-linter.disableLintIssue',
+    CHANGE_LINT_SEVERITY: 'android-linter.changeLintIssueSeverity',
+    IGNORE_LINT_ISSUE_PATH: 'android-linter.ignoreLintIssuePath',
+    OPEN_LINT_ISSUE_DOCS: 'android-linter.openLintIssueDocs',
+    SHOW_LINT_DASHBOARD: 'android-linter.showLintDashboard',
+    SELECT_LINT_DIFF_MODE: 'android-linter.selectLintDiffMode',
     
     // Build & Deploy
     LAUNCH_ON_DEVICE: 'android-linter.launchOnDevice',
@@ -109,6 +129,17 @@ export const COMMANDS = {
     // Build Variants
     SELECT_VARIANT: 'android-linter.selectVariant',
     SYNC_PROJECT: 'android-linter.syncProject',
+    ASSEMBLE_VARIANT: 'android-linter.assembleVariant',
+    RUN_UNIT_TESTS: 'android-linter.runUnitTests',
+    ANALYZE_BUILD: 'android-linter.analyzeBuild',
+    CANCEL_GRADLE_TASK: 'android-linter.cancelGradleTask',
+    REFRESH_GRADLE_TASKS: 'android-linter.refreshGradleTasks',
+    RUN_GRADLE_TASK: 'android-linter.runGradleTask',
+    PIN_GRADLE_TASK: 'android-linter.pinGradleTask',
+    UNPIN_GRADLE_TASK: 'android-linter.unpinGradleTask',
+    REFRESH_DEPENDENCIES: 'android-linter.refreshDependencies',
+    FIND_DEPENDENCY: 'android-linter.findDependency',
+    CLEAR_DEPENDENCY_FILTER: 'android-linter.clearDependencyFilter',
     
     // Language Server
     RESTART_SERVER: 'android-linter.restartServer',
@@ -125,8 +156,10 @@ export const COMMANDS = {
 // View IDs
 export const VIEWS = {
     ANDROID_EXPLORER: 'androidExplorer',
+    LINT_ISSUES: 'androidLintIssues',
     RESOURCE_BROWSER: 'androidResources',
     GRADLE_TASKS: 'androidGradleTasks',
+    DEPENDENCIES: 'androidDependencies',
 } as const;
 
 // Output channel names
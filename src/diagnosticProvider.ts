@@ -1,4 +1,7 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
+import { CONFIG_NAMESPACE, CONFIG_KEYS } from './constants';
+import { Logger } from './logger';
 
 export interface LintIssue {
     file: string;
@@ -10,81 +13,433 @@ export interface LintIssue {
     id: string;
     category: string;
     quickFix?: QuickFix;
+    /** 1-based end position (column exclusive), when the report provides a full range */
+    endLine?: number;
+    endColumn?: number;
+    /** Structured fixes shipped with the lint report (e.g. SARIF `fixes[]`) */
+    fixes?: QuickFix[];
+    /** Set when the issue is recorded in the module's lint-baseline.xml */
+    inBaseline?: boolean;
+    /** Full description of the check, from the report's `explanation` */
+    explanation?: string;
+    summary?: string;
+    /** Documentation links (`url` / `urls`) */
+    urls?: string[];
+    /** Lint priority, 1 (low) to 10 (high) */
+    priority?: number;
+    /** Source line and highlight markers (`~~~`) as printed in the report */
+    errorLine1?: string;
+    errorLine2?: string;
+    /** Additional locations for multi-location issues (e.g. duplicate definitions) */
+    secondaryLocations?: LintLocation[];
+}
+
+export interface LintLocation {
+    file: string;
+    line: number;
+    column: number;
+    message?: string;
 }
 
 export interface QuickFix {
     title: string;
     replacement?: string;
     lineToReplace?: number;
+    edits?: QuickFixEdit[];
+}
+
+/**
+ * A single text replacement from a structured lint fix.
+ * Positions are either 1-based line/column (end column exclusive) or
+ * 0-based character offsets, depending on what the report provides.
+ */
+export interface QuickFixEdit {
+    file: string;
+    startLine?: number;
+    startColumn?: number;
+    endLine?: number;
+    endColumn?: number;
+    startOffset?: number;
+    endOffset?: number;
+    replacement: string;
+    /** Replace only this text inside the range (lint's `oldString`) */
+    oldString?: string;
+    /** Replace only the match (or its first group) of this pattern inside the range */
+    oldPattern?: string;
+    /** Set (or remove, when `value` is undefined) an XML attribute on the element at the range */
+    attribute?: { namespace?: string; name: string; value?: string };
+}
+
+/**
+ * What a lint run covered. Known issues inside the scope that the run
+ * did not report again are considered fixed.
+ */
+export type LintRunScope =
+    | { kind: 'file'; file: string }
+    | { kind: 'module'; dir: string }
+    | { kind: 'project' };
+
+export interface LintRun {
+    generation: number;
+    scope: LintRunScope;
+}
+
+/** A line-level edit made to a document since it was last saved (0-based lines) */
+interface LineEdit {
+    startLine: number;
+    endLine: number;
+    delta: number;
 }
 
 export class DiagnosticProvider implements vscode.Disposable {
     private diagnosticCollection: vscode.DiagnosticCollection;
+    private issuesByFile = new Map<string, LintIssue[]>();
+    /** Generation of the run that last updated each file */
+    private fileGenerations = new Map<string, number>();
+    private unsavedEdits = new Map<string, LineEdit[]>();
+    private generation = 0;
+    private issueFilter: ((issue: LintIssue) => boolean) | undefined;
+    private disposables: vscode.Disposable[] = [];
+    private _onDidChangeIssues = new vscode.EventEmitter<void>();
+    /** Fires whenever the set of known issues or their positions change */
+    readonly onDidChangeIssues: vscode.Event<void> = this._onDidChangeIssues.event;
+    private _onDidApplyRun = new vscode.EventEmitter<LintRun>();
+    /** Fires after the results of a lint run were merged, whether or not anything changed */
+    readonly onDidApplyRun: vscode.Event<LintRun> = this._onDidApplyRun.event;
 
     constructor() {
         this.diagnosticCollection = vscode.languages.createDiagnosticCollection('android-linter');
+
+        this.disposables.push(
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration(`${CONFIG_NAMESPACE}.${CONFIG_KEYS.LINT_SHOW_BASELINE_ISSUES}`) ||
+                    event.affectsConfiguration(`${CONFIG_NAMESPACE}.${CONFIG_KEYS.SHOW_SEVERITY}`)) {
+                    this.refresh();
+                }
+            }),
+            vscode.workspace.onDidChangeTextDocument(event => this.onDocumentChanged(event)),
+            vscode.workspace.onDidSaveTextDocument(document => this.unsavedEdits.delete(document.uri.fsPath)),
+            vscode.workspace.onDidCloseTextDocument(document => this.unsavedEdits.delete(document.uri.fsPath))
+        );
+    }
+
+    /**
+     * Start a lint run over `scope`. Results must be passed to `applyRun` with the returned run.
+     */
+    public beginRun(scope: LintRunScope): LintRun {
+        return { generation: ++this.generation, scope };
+    }
+
+    /**
+     * Merge the results of a lint run: files inside the run's scope are replaced with the
+     * new issues (or cleared when none were reported), everything else is left untouched.
+     * Files already updated by a run that started later keep their newer diagnostics.
+     */
+    public applyRun(run: LintRun, issues: LintIssue[]): void {
+        const incoming = this.groupByFile(issues);
+        const files = new Set<string>(incoming.keys());
+        for (const file of this.issuesByFile.keys()) {
+            if (this.isInScope(run.scope, file)) {
+                files.add(file);
+            }
+        }
+
+        let updated = 0;
+        for (const file of files) {
+            if ((this.fileGenerations.get(file) ?? 0) > run.generation) {
+                continue;
+            }
+            this.fileGenerations.set(file, run.generation);
+
+            const fileIssues = this.adjustForUnsavedEdits(file, incoming.get(file) ?? []);
+            const previous = this.issuesByFile.get(file) ?? [];
+            if (this.sameIssues(previous, fileIssues)) {
+                continue;
+            }
+
+            if (fileIssues.length === 0) {
+                this.issuesByFile.delete(file);
+                this.diagnosticCollection.delete(vscode.Uri.file(file));
+            } else {
+                this.issuesByFile.set(file, fileIssues);
+                this.renderFile(file, fileIssues);
+            }
+            updated++;
+        }
+
+        if (updated > 0) {
+            this._onDidChangeIssues.fire();
+        }
+        this._onDidApplyRun.fire(run);
+
+        Logger.getInstance().debug(`Lint run #${run.generation} (${run.scope.kind}): ${issues.length} issue(s), ${updated} file(s) updated`);
     }
 
     public addIssues(issues: LintIssue[]): void {
-        // Group issues by file
+        // Convert to diagnostics and add to collection
+        this.groupByFile(issues).forEach((fileIssues, file) => {
+            this.issuesByFile.set(file, fileIssues);
+            this.renderFile(file, fileIssues);
+        });
+        this._onDidChangeIssues.fire();
+    }
+
+    /**
+     * Re-render all known issues, e.g. after display settings changed.
+     */
+    public refresh(): void {
+        this.issuesByFile.forEach((fileIssues, file) => this.renderFile(file, fileIssues));
+    }
+
+    /**
+     * Hide issues the filter rejects from the Problems panel (e.g. issues outside changed lines).
+     * They stay known and are still returned by `getAllIssues`.
+     */
+    public setIssueFilter(filter: ((issue: LintIssue) => boolean) | undefined): void {
+        this.issueFilter = filter;
+        this.refresh();
+        this._onDidChangeIssues.fire();
+    }
+
+    /**
+     * Whether the current issue filter hides an issue.
+     */
+    public isFilteredOut(issue: LintIssue): boolean {
+        return this.issueFilter !== undefined && !this.issueFilter(issue);
+    }
+
+    /**
+     * All issues currently known, including hidden baseline issues.
+     */
+    public getAllIssues(): LintIssue[] {
+        return Array.from(this.issuesByFile.values()).flat();
+    }
+
+    private groupByFile(issues: LintIssue[]): Map<string, LintIssue[]> {
         const issuesByFile = new Map<string, LintIssue[]>();
-        
         for (const issue of issues) {
             if (!issuesByFile.has(issue.file)) {
                 issuesByFile.set(issue.file, []);
             }
             issuesByFile.get(issue.file)!.push(issue);
         }
+        return issuesByFile;
+    }
 
-        // Convert to diagnostics and add to collection
-        issuesByFile.forEach((fileIssues, file) => {
-            const uri = vscode.Uri.file(file);
-            const diagnostics: vscode.Diagnostic[] = [];
-            const doc = vscode.workspace.textDocuments.find(d => d.uri.fsPath === file);
-
-            for (const issue of fileIssues) {
-                if (!this.shouldShowSeverity(issue.severity)) {
-                    continue;
-                }
+    private isInScope(scope: LintRunScope, file: string): boolean {
+        switch (scope.kind) {
+            case 'project':
+                return true;
+            case 'file':
+                return scope.file === file;
+            case 'module': {
+                const relative = path.relative(scope.dir, file);
+                return !relative.startsWith('..') && !path.isAbsolute(relative);
+            }
+        }
+    }
 
-                const line = Math.max(0, issue.line - 1); // VS Code is 0-indexed
-                const column = Math.max(0, issue.column - 1);
-                let range = new vscode.Range(line, column, line, column + 1);
-
-                if (doc) {
-                    const lineText = doc.lineAt(line).text;
-                    const wordRange = doc.getWordRangeAtPosition(new vscode.Position(line, column));
-                    if (wordRange) {
-                        range = wordRange;
-                    } else {
-                        // Fallback for when no word is at the position, e.g., for a whole line issue
-                        range = new vscode.Range(line, 0, line, lineText.length);
-                    }
-                }
+    private sameIssues(a: LintIssue[], b: LintIssue[]): boolean {
+        const key = (issue: LintIssue) =>
+            `${issue.id}:${issue.line}:${issue.column}:${issue.endLine}:${issue.endColumn}:${issue.severity}:${issue.inBaseline}:${issue.message}`;
+        if (a.length !== b.length) {
+            return false;
+        }
+        const keys = new Set(a.map(key));
+        return b.every(issue => keys.has(key(issue)));
+    }
+
+    /**
+     * Keep diagnostics attached to their code while the user edits: shift the stored
+     * issues of a changed document by the number of lines each edit added or removed.
+     */
+    private onDocumentChanged(event: vscode.TextDocumentChangeEvent): void {
+        if (event.document.uri.scheme !== 'file' || event.contentChanges.length === 0) {
+            return;
+        }
+
+        const file = event.document.uri.fsPath;
+        const edits: LineEdit[] = event.contentChanges.map(change => ({
+            startLine: change.range.start.line,
+            endLine: change.range.end.line,
+            delta: (change.text.match(/\n/g)?.length ?? 0) - (change.range.end.line - change.range.start.line)
+        }));
+
+        const recorded = this.unsavedEdits.get(file) ?? [];
+        recorded.push(...edits);
+        this.unsavedEdits.set(file, recorded);
+
+        const fileIssues = this.issuesByFile.get(file);
+        if (!fileIssues || edits.every(edit => edit.delta === 0)) {
+            return;
+        }
+
+        const shifted = fileIssues.map(issue => this.shiftIssue(issue, edits));
+        this.issuesByFile.set(file, shifted);
+        this.renderFile(file, shifted);
+        this._onDidChangeIssues.fire();
+    }
+
+    /**
+     * Lint reads files from disk, so replay edits made since the last save onto fresh results.
+     */
+    private adjustForUnsavedEdits(file: string, issues: LintIssue[]): LintIssue[] {
+        const edits = this.unsavedEdits.get(file);
+        if (!edits || edits.length === 0) {
+            return issues;
+        }
+        return issues.map(issue => this.shiftIssue(issue, edits));
+    }
 
-                const diagnostic = new vscode.Diagnostic(
-                    range,
-                    issue.message,
-                    this.getSeverity(issue.severity)
-                );
+    private shiftIssue(issue: LintIssue, edits: LineEdit[]): LintIssue {
+        let line = issue.line - 1;
+        let endLine = issue.endLine !== undefined ? issue.endLine - 1 : undefined;
 
-                diagnostic.source = `Android Lint (${issue.id})`;
-                diagnostic.code = issue.id;
+        for (const edit of edits) {
+            line = this.shiftLine(line, edit);
+            if (endLine !== undefined) {
+                endLine = Math.max(line, this.shiftLine(endLine, edit));
+            }
+        }
 
-                diagnostics.push(diagnostic);
+        return {
+            ...issue,
+            line: line + 1,
+            endLine: endLine !== undefined ? endLine + 1 : undefined
+        };
+    }
+
+    private shiftLine(line: number, edit: LineEdit): number {
+        if (line > edit.endLine) {
+            return line + edit.delta;
+        }
+        if (line > edit.startLine) {
+            // Inside the replaced region: stay within what is left of it
+            return Math.max(edit.startLine, Math.min(line, edit.endLine + edit.delta));
+        }
+        return line;
+    }
+
+    private renderFile(file: string, fileIssues: LintIssue[]): void {
+        const uri = vscode.Uri.file(file);
+        const diagnostics: vscode.Diagnostic[] = [];
+        const doc = vscode.workspace.textDocuments.find(d => d.uri.fsPath === file);
+        const showBaseline = vscode.workspace.getConfiguration(CONFIG_NAMESPACE)
+            .get<boolean>(CONFIG_KEYS.LINT_SHOW_BASELINE_ISSUES, false);
+
+        for (const issue of fileIssues) {
+            if (!this.shouldShowSeverity(issue.severity)) {
+                continue;
             }
 
-            this.diagnosticCollection.set(uri, diagnostics);
-        });
+            if (issue.inBaseline && !showBaseline) {
+                continue;
+            }
+
+            if (this.isFilteredOut(issue)) {
+                continue;
+            }
+
+            const range = this.issueRange(issue, doc);
+
+            const diagnostic = new vscode.Diagnostic(
+                range,
+                issue.inBaseline ? `${issue.message} (in baseline)` : issue.message,
+                issue.inBaseline ? vscode.DiagnosticSeverity.Information : this.getSeverity(issue.severity)
+            );
+
+            // Compiler, AAPT2 and Gradle errors from a failed build keep their own source
+            diagnostic.source = issue.source === 'Android Lint' ? `Android Lint (${issue.id})` : issue.source;
+            diagnostic.code = issue.id;
+
+            if (issue.secondaryLocations && issue.secondaryLocations.length > 0) {
+                diagnostic.relatedInformation = issue.secondaryLocations.map(location => {
+                    const line = Math.max(0, location.line - 1);
+                    const column = Math.max(0, location.column - 1);
+                    return new vscode.DiagnosticRelatedInformation(
+                        new vscode.Location(vscode.Uri.file(location.file), new vscode.Range(line, column, line, column)),
+                        location.message || 'Also reported here'
+                    );
+                });
+            }
+
+            if (issue.inBaseline) {
+                // Faded in the editor, like unused code, so legacy issues stay in the background
+                diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+            }
+
+            diagnostics.push(diagnostic);
+        }
+
+        this.diagnosticCollection.set(uri, diagnostics);
+    }
+
+    /**
+     * Known issues of a file whose range contains `position`.
+     */
+    public getIssuesAt(document: vscode.TextDocument, position: vscode.Position): LintIssue[] {
+        const fileIssues = this.issuesByFile.get(document.uri.fsPath) || [];
+        return fileIssues.filter(issue => this.issueRange(issue, document).contains(position));
+    }
+
+    /**
+     * The issue a diagnostic was rendered from, matched by file, id and range.
+     */
+    public findIssue(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): LintIssue | undefined {
+        const fileIssues = this.issuesByFile.get(document.uri.fsPath) || [];
+        return fileIssues.find(issue =>
+            issue.id === diagnostic.code?.toString() &&
+            this.issueRange(issue, document).isEqual(diagnostic.range));
+    }
+
+    /**
+     * Range of an issue: the report's explicit end position, else the `~~~` highlight
+     * under `errorLine1`, else the word at the issue's column.
+     */
+    public issueRange(issue: LintIssue, doc?: vscode.TextDocument): vscode.Range {
+        const line = Math.max(0, issue.line - 1); // VS Code is 0-indexed
+        const column = Math.max(0, issue.column - 1);
+
+        if (issue.endLine !== undefined && issue.endColumn !== undefined) {
+            return new vscode.Range(
+                line,
+                column,
+                Math.max(line, issue.endLine - 1),
+                Math.max(0, issue.endColumn - 1)
+            );
+        }
+
+        const highlight = issue.errorLine2?.match(/~+/);
+        if (highlight) {
+            return new vscode.Range(line, column, line, column + highlight[0].length);
+        }
+
+        if (doc && line < doc.lineCount) {
+            const lineText = doc.lineAt(line).text;
+            const wordRange = doc.getWordRangeAtPosition(new vscode.Position(line, column));
+            if (wordRange) {
+                return wordRange;
+            }
+            // Fallback for when no word is at the position, e.g., for a whole line issue
+            return new vscode.Range(line, 0, line, lineText.length);
+        }
+
+        return new vscode.Range(line, column, line, column + 1);
     }
 
     public clearFile(file: string): void {
         const uri = vscode.Uri.file(file);
+        this.issuesByFile.delete(file);
+        this.fileGenerations.delete(file);
         this.diagnosticCollection.delete(uri);
+        this._onDidChangeIssues.fire();
     }
 
     public clear(): void {
+        this.issuesByFile.clear();
+        this.fileGenerations.clear();
         this.diagnosticCollection.clear();
+        this._onDidChangeIssues.fire();
     }
 
     public getIssuesForFile(file: string): LintIssue[] {
@@ -149,6 +504,9 @@ export class DiagnosticProvider implements vscode.Disposable {
     }
 
     public dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this._onDidChangeIssues.dispose();
+        this._onDidApplyRun.dispose();
         this.diagnosticCollection.dispose();
     }
 }
@@ -2,20 +2,37 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { LintManager } from './lintManager';
-import { DiagnosticProvider } from './diagnosticProvider';
+import { DiagnosticProvider, LintIssue } from './diagnosticProvider';
 import { CodeActionProvider } from './codeActionProvider';
-import { GradleProcessManager } from './gradleProcessManager';
+import { LintIssuesView, LintTreeNode, lintIssueDocsUrl } from './lintIssuesView';
+import { LintHoverProvider } from './lintHoverProvider';
+import { LintDashboardPanel, LintHistory } from './lintDashboard';
+import { ChangedLinesFilter, selectLintDiffMode } from './changedLinesFilter';
+import { createSuppressEdit } from './lintSuppression';
+import { LintXmlSeverity, disableIssue, ignoreIssuePath, nearestLintXml, projectLintXml, setIssueSeverity } from './lintXmlConfig';
+import { GradleModule, findModuleForFile, moduleTask } from './build/gradleModules';
+import { GradleCommandError, GradleProcessManager } from './gradleProcessManager';
 import { AndroidDeviceManager } from './androidDeviceManager';
 import { LogcatManager } from './logcatManager';
 import { AndroidAppLauncher } from './androidLauncher';
 import { AndroidExplorerView } from './androidExplorerView';
 import { DefinitionProvider } from './definitionProvider';
+import { BUILD_SCRIPT_SELECTOR, CONVENTION_PLUGIN_SELECTOR, VERSION_CATALOG_SELECTOR, VersionCatalogProvider } from './versionCatalogProvider';
 import { ReferenceProvider } from './referenceProvider';
 import { HoverProvider } from './hoverProvider';
 import { AdbWirelessManager } from './adbWirelessManager';
 import { LanguageClientManager } from './client/languageClient';
 import { EmulatorManager } from './android/emulatorManager';
 import { VariantManager } from './build/variantManager';
+import { ProjectSync } from './build/projectSync';
+import { ModuleRegistry } from './build/moduleRegistry';
+import { GradleTaskNode, GradleTasksView } from './build/gradleTasksView';
+import { DependenciesView } from './build/dependenciesView';
+import { BuildAnalyzerPanel, BuildProfileHistory } from './build/buildAnalyzer';
+import { applyBuildLog, parseProfileReport } from './build/buildProfile';
+import { GradleFailureReporter } from './gradleFailureReporter';
+import { ApkAnalyzerPanel } from './android/apkAnalyzer';
+import { ScreenCaptureManager } from './screenCapture';
 import { Logger } from './logger';
 import { CONFIG_NAMESPACE, CONFIG_KEYS, COMMANDS, VIEWS, SUPPORTED_LANGUAGES, DEFAULTS } from './constants';
 
@@ -30,6 +47,10 @@ let adbWirelessManager: AdbWirelessManager;
 let languageClientManager: LanguageClientManager | undefined;
 let emulatorManager: EmulatorManager | undefined;
 let variantManager: VariantManager | undefined;
+let projectSync: ProjectSync | undefined;
+let moduleRegistry: ModuleRegistry | undefined;
+let gradleTasksView: GradleTasksView | undefined;
+let gradleFailureReporter: GradleFailureReporter;
 let runStatusBarItem: vscode.StatusBarItem;
 let logger: Logger;
 let gradleLintFallbackInitialized = false;
@@ -50,6 +71,9 @@ export function activate(context: vscode.ExtensionContext) {
     // Initialize diagnostic collection
     diagnosticProvider = new DiagnosticProvider();
     context.subscriptions.push(diagnosticProvider);
+    context.subscriptions.push(
+        vscode.languages.registerHoverProvider([...SUPPORTED_LANGUAGES], new LintHoverProvider(diagnosticProvider))
+    );
 
     gradleProcessManager = new GradleProcessManager(outputChannel);
     context.subscriptions.push(gradleProcessManager);
@@ -60,7 +84,12 @@ export function activate(context: vscode.ExtensionContext) {
     logcatManager = new LogcatManager(deviceManager, context.extensionUri);
     context.subscriptions.push(logcatManager);
 
-    appLauncher = new AndroidAppLauncher(gradleProcessManager, deviceManager, logcatManager, outputChannel);
+    // Modules included from settings.gradle, re-read when a settings or build file changes
+    const primaryWorkspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    moduleRegistry = primaryWorkspaceRoot ? new ModuleRegistry(primaryWorkspaceRoot) : undefined;
+
+    gradleFailureReporter = new GradleFailureReporter(diagnosticProvider, outputChannel);
+    appLauncher = new AndroidAppLauncher(gradleProcessManager, deviceManager, logcatManager, outputChannel, moduleRegistry, gradleFailureReporter);
     context.subscriptions.push(appLauncher);
 
     adbWirelessManager = new AdbWirelessManager(outputChannel, deviceManager.getAdbPath());
@@ -78,15 +107,34 @@ export function activate(context: vscode.ExtensionContext) {
     );
 
     // Connect app launcher to explorer view for status updates
-    appLauncher.setAppIdCallback((appId) => {
-        androidExplorerView.setCurrentAppId(appId);
+    appLauncher.setAppIdCallback((appId, variant) => {
+        androidExplorerView.setCurrentAppId(appId, variant);
     });
 
+    // Lint Issues view, fed by the Gradle lint fallback's diagnostics
+    registerLintIssuesView(context);
+    registerLintXmlCommands(context);
+    registerLintDashboard(context);
+    registerGradleTasksView(context);
+
     // Refresh devices on startup
     androidExplorerView.refreshDevices().catch(err => {
         logger.warn(`Failed to refresh devices on startup: ${err}`);
     });
 
+    // ── Build Variant Manager ──────────────────────────────────────
+    // Created before the Gradle lint fallback, whose tasks follow the selected variants
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (workspaceFolders) {
+        try {
+            variantManager = new VariantManager(context, moduleRegistry);
+            context.subscriptions.push(variantManager);
+            appLauncher.setVariantManager(variantManager);
+        } catch (err) {
+            logger.warn(`Variant manager initialization failed: ${err}`);
+        }
+    }
+
     // ── Language Server (ALS) ──────────────────────────────────────
     const serverEnabled = extensionConfig.get<boolean>(CONFIG_KEYS.SERVER_ENABLED, true);
     if (serverEnabled) {
@@ -107,15 +155,32 @@ export function activate(context: vscode.ExtensionContext) {
         initGradleLintFallback(context);
     }
 
-    // ── Build Variant Manager ──────────────────────────────────────
-    const workspaceFolders = vscode.workspace.workspaceFolders;
+    // ── Project Sync ───────────────────────────────────────────────
     if (workspaceFolders) {
-        try {
-            variantManager = new VariantManager(context);
-            context.subscriptions.push(variantManager);
-        } catch (err) {
-            logger.warn(`Variant manager initialization failed: ${err}`);
-        }
+        // Read variants, modules and the applicationId once, then on every sync
+        projectSync = new ProjectSync(workspaceFolders[0].uri.fsPath, moduleRegistry, variantManager, languageClientManager, outputChannel);
+        context.subscriptions.push(projectSync);
+        context.subscriptions.push(projectSync.onDidSync(result => {
+            androidExplorerView.setCurrentAppId(result.applicationId, result.selectedVariant);
+        }));
+        variantManager?.onVariantChanged(async (variant, modulePath) => {
+            try {
+                // The applicationId depends on the selected variant of the app module
+                if (projectSync && modulePath === moduleRegistry?.getDefaultAppModule().path) {
+                    androidExplorerView.setCurrentAppId(await projectSync.resolveApplicationId(), variant);
+                }
+                if (gradleLintFallbackInitialized) {
+                    await relintModuleFiles(modulePath);
+                }
+            } catch (error) {
+                logger.error(`Failed to apply build variant ${variant} of ${modulePath}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        });
+        projectSync.sync().catch(err => {
+            logger.warn(`Initial project sync failed: ${err}`);
+        });
+
+        registerDependenciesView(context, workspaceFolders[0].uri.fsPath);
     }
 
     // ── Emulator Manager ───────────────────────────────────────────
@@ -136,6 +201,9 @@ export function activate(context: vscode.ExtensionContext) {
     registerCoreCommands(context);
     registerEmulatorCommands(context);
     registerVariantCommands(context);
+    registerBuildAnalyzer(context);
+    registerApkAnalyzer(context);
+    registerScreenCapture(context, outputChannel);
     registerServerCommands(context);
 
     // Optional status bar item
@@ -165,9 +233,24 @@ function initGradleLintFallback(context: vscode.ExtensionContext) {
         return;
     }
 
-    lintManager = new LintManager(diagnosticProvider, gradleProcessManager, logger.getOutputChannel());
+    lintManager = new LintManager(diagnosticProvider, gradleProcessManager, logger.getOutputChannel(), variantManager);
     gradleLintFallbackInitialized = true;
 
+    // Optionally hide lint issues outside the lines changed in git
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (workspaceRoot) {
+        context.subscriptions.push(new ChangedLinesFilter(diagnosticProvider, workspaceRoot, logger.getOutputChannel()));
+    }
+    // Quick fixes for Gradle lint results, including the structured fixes from lint reports
+    const codeActionProvider = new CodeActionProvider(diagnosticProvider);
+    context.subscriptions.push(
+        vscode.languages.registerCodeActionsProvider(
+            [...SUPPORTED_LANGUAGES],
+            codeActionProvider,
+            { providedCodeActionKinds: CodeActionProvider.providedCodeActionKinds }
+        )
+    );
+
     // Listen to file open events
     context.subscriptions.push(
         vscode.workspace.onDidOpenTextDocument(async (document) => {
@@ -215,17 +298,21 @@ function initGradleLintFallback(context: vscode.ExtensionContext) {
     }
 }
 
+// ── Helper: re-lint a module's open files after a build variant change ──
+async function relintModuleFiles(modulePath: string) {
+    const documents = vscode.workspace.textDocuments.filter(document =>
+        isAndroidFile(document) && moduleRegistry?.findModuleForFile(document.uri.fsPath)?.path === modulePath);
+    if (documents.length === 0) {
+        return;
+    }
+
+    // Lint runs per module, so linting one file refreshes all of the module's files
+    const active = vscode.window.activeTextEditor?.document;
+    await lintManager.lintFile(active && documents.includes(active) ? active : documents[0]);
+}
+
 // ── Helper: register TypeScript-based code intelligence providers ──
 function registerFallbackProviders(context: vscode.ExtensionContext) {
-    const codeActionProvider = new CodeActionProvider();
-    context.subscriptions.push(
-        vscode.languages.registerCodeActionsProvider(
-            [...SUPPORTED_LANGUAGES],
-            codeActionProvider,
-            { providedCodeActionKinds: CodeActionProvider.providedCodeActionKinds }
-        )
-    );
-
     const definitionProvider = new DefinitionProvider();
     context.subscriptions.push(
         vscode.languages.registerDefinitionProvider(['kotlin', 'java'], definitionProvider)
@@ -236,6 +323,17 @@ function registerFallbackProviders(context: vscode.ExtensionContext) {
         vscode.languages.registerReferenceProvider(['kotlin', 'java'], referenceProvider)
     );
 
+    // libs.versions.toml: accessors in build scripts <-> catalog entries
+    const versionCatalogProvider = new VersionCatalogProvider();
+    const catalogSelector = [...BUILD_SCRIPT_SELECTOR, ...CONVENTION_PLUGIN_SELECTOR, VERSION_CATALOG_SELECTOR];
+    context.subscriptions.push(
+        versionCatalogProvider,
+        vscode.languages.registerDefinitionProvider(catalogSelector, versionCatalogProvider),
+        vscode.languages.registerReferenceProvider(catalogSelector, versionCatalogProvider),
+        vscode.languages.registerHoverProvider([...BUILD_SCRIPT_SELECTOR, ...CONVENTION_PLUGIN_SELECTOR], versionCatalogProvider),
+        vscode.languages.registerCompletionItemProvider(BUILD_SCRIPT_SELECTOR, versionCatalogProvider, '.')
+    );
+
     const enableHover = vscode.workspace.getConfiguration(CONFIG_NAMESPACE)
         .get<boolean>(CONFIG_KEYS.ENABLE_HOVER_REFERENCES, false);
     if (enableHover) {
@@ -247,6 +345,239 @@ function registerFallbackProviders(context: vscode.ExtensionContext) {
     logger.success('Registered fallback code intelligence providers');
 }
 
+// ── Helper: Lint Issues view ────────────────────────────────────────
+function registerLintIssuesView(context: vscode.ExtensionContext) {
+    const lintIssuesView = new LintIssuesView(diagnosticProvider);
+    const treeView = vscode.window.createTreeView(VIEWS.LINT_ISSUES, { treeDataProvider: lintIssuesView });
+    lintIssuesView.setTreeView(treeView);
+    context.subscriptions.push(lintIssuesView, treeView);
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(COMMANDS.FILTER_LINT_ISSUES, () => lintIssuesView.promptTextFilter()),
+        vscode.commands.registerCommand(COMMANDS.FILTER_LINT_SEVERITY, () => lintIssuesView.promptSeverityFilter()),
+        vscode.commands.registerCommand(COMMANDS.CLEAR_LINT_ISSUES_FILTER, () => lintIssuesView.clearFilter())
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(COMMANDS.SUPPRESS_LINT_ISSUE, async (node?: LintTreeNode) => {
+            const issue = node?.issues[0];
+            if (!issue) {
+                return;
+            }
+
+            const document = await vscode.workspace.openTextDocument(issue.file);
+            const position = new vscode.Position(Math.max(0, issue.line - 1), Math.max(0, issue.column - 1));
+            const edit = createSuppressEdit(document, document.validatePosition(position), issue.id);
+            if (!edit) {
+                const reason = document.languageId === 'xml'
+                    ? `"${issue.id}" is already ignored on this element`
+                    : `Suppressing issues is not supported for ${path.extname(issue.file)} files`;
+                vscode.window.showWarningMessage(`Android Lint: ${reason}`);
+                return;
+            }
+
+            await vscode.workspace.applyEdit(edit);
+            await vscode.window.showTextDocument(document);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(COMMANDS.OPEN_LINT_ISSUE_DOCS, async (node?: LintTreeNode) => {
+            const issue = node?.issues[0];
+            if (issue) {
+                await vscode.env.openExternal(vscode.Uri.parse(issue.urls?.[0] ?? lintIssueDocsUrl(issue.id)));
+            }
+        })
+    );
+}
+
+// ── Helper: Gradle Tasks view ──────────────────────────────────────
+function registerGradleTasksView(context: vscode.ExtensionContext) {
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (!workspaceRoot) {
+        return;
+    }
+
+    const view = new GradleTasksView(gradleProcessManager, context, workspaceRoot);
+    gradleTasksView = view;
+    context.subscriptions.push(
+        view,
+        vscode.window.createTreeView(VIEWS.GRADLE_TASKS, { treeDataProvider: view })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(COMMANDS.REFRESH_GRADLE_TASKS, () => view.reload()),
+        vscode.commands.registerCommand(COMMANDS.RUN_GRADLE_TASK, async (node?: GradleTaskNode) => {
+            const task = node?.tasks[0];
+            if (task) {
+                await view.runTask(task.path);
+            } else {
+                await view.pickAndRunTask();
+            }
+        }),
+        vscode.commands.registerCommand(COMMANDS.PIN_GRADLE_TASK, async (node?: GradleTaskNode) => {
+            const task = node?.tasks[0];
+            if (task) {
+                await view.pin(task.path);
+            }
+        }),
+        vscode.commands.registerCommand(COMMANDS.UNPIN_GRADLE_TASK, async (node?: GradleTaskNode) => {
+            const task = node?.tasks[0];
+            if (task) {
+                await view.unpin(task.path);
+            }
+        })
+    );
+}
+
+// ── Helper: Lint Dashboard ─────────────────────────────────────────
+function registerLintDashboard(context: vscode.ExtensionContext) {
+    const history = new LintHistory(context);
+    const dashboard = LintDashboardPanel.getInstance(diagnosticProvider, history);
+    context.subscriptions.push(dashboard);
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(COMMANDS.SHOW_LINT_DASHBOARD, () => dashboard.show())
+    );
+
+    // Only whole-project runs go into the history, so totals are comparable between runs
+    context.subscriptions.push(
+        diagnosticProvider.onDidApplyRun(async run => {
+            const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+            if (run.scope.kind !== 'project' || !workspaceRoot) {
+                return;
+            }
+
+            // A failed build reports compiler errors instead of lint results
+            const issues = diagnosticProvider.getAllIssues();
+            if (issues.some(issue => issue.source !== 'Android Lint')) {
+                return;
+            }
+
+            await history.record(issues, workspaceRoot);
+            dashboard.update();
+        })
+    );
+}
+
+// ── Helper: lint.xml configuration ─────────────────────────────────
+const LINT_XML_SEVERITIES: LintXmlSeverity[] = ['fatal', 'error', 'warning', 'informational', 'ignore'];
+
+function registerLintXmlCommands(context: vscode.ExtensionContext) {
+    context.subscriptions.push(
+        vscode.commands.registerCommand(COMMANDS.DISABLE_LINT_ISSUE, async (target?: LintTreeNode | LintIssue) => {
+            const issue = await resolveLintIssueArgument(target);
+            const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+            if (!issue || !workspaceRoot) {
+                return;
+            }
+
+            await updateLintXml(issue, nearestLintXml(issue.file, workspaceRoot), `Disabled ${issue.id}`,
+                lintXml => disableIssue(lintXml, issue.id));
+        }),
+
+        vscode.commands.registerCommand(COMMANDS.CHANGE_LINT_SEVERITY, async (target?: LintTreeNode | LintIssue, severity?: LintXmlSeverity) => {
+            const issue = await resolveLintIssueArgument(target);
+            const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+            if (!issue || !workspaceRoot) {
+                return;
+            }
+
+            const chosen = severity ?? await vscode.window.showQuickPick(LINT_XML_SEVERITIES, {
+                placeHolder: `Severity for ${issue.id}`
+            }) as LintXmlSeverity | undefined;
+            if (!chosen) {
+                return;
+            }
+
+            await updateLintXml(issue, nearestLintXml(issue.file, workspaceRoot), `Set ${issue.id} to ${chosen}`,
+                lintXml => setIssueSeverity(lintXml, issue.id, chosen));
+        }),
+
+        vscode.commands.registerCommand(COMMANDS.IGNORE_LINT_ISSUE_PATH, async (target?: LintTreeNode | LintIssue) => {
+            const issue = await resolveLintIssueArgument(target);
+            const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+            if (!issue || !workspaceRoot) {
+                return;
+            }
+
+            await updateLintXml(issue, nearestLintXml(issue.file, workspaceRoot),
+                `Ignoring ${issue.id} in ${path.basename(issue.file)}`,
+                lintXml => ignoreIssuePath(lintXml, issue.id, issue.file));
+        })
+    );
+}
+
+/**
+ * The issue a lint.xml command applies to: a Lint Issues tree node, an issue passed by a
+ * code action, or the lint issue under the cursor when run from the Command Palette.
+ */
+async function resolveLintIssueArgument(target?: LintTreeNode | LintIssue): Promise<LintIssue | undefined> {
+    if (target && 'issues' in target) {
+        return target.issues[0];
+    }
+    if (target) {
+        return target;
+    }
+
+    const editor = vscode.window.activeTextEditor;
+    const issues = editor
+        ? diagnosticProvider.getIssuesAt(editor.document, editor.selection.active)
+            .filter(issue => issue.source === 'Android Lint')
+        : [];
+    if (issues.length === 0) {
+        vscode.window.showInformationMessage('Android Lint: No lint issue at the cursor');
+        return undefined;
+    }
+    if (issues.length === 1) {
+        return issues[0];
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        issues.map(issue => ({ label: issue.id, description: issue.message, issue })),
+        { placeHolder: 'Select a lint issue' }
+    );
+    return picked?.issue;
+}
+
+/**
+ * Apply a lint.xml change, then re-run lint so the new configuration shows up right away:
+ * the whole project for the root lint.xml, otherwise the issue's module.
+ */
+async function updateLintXml(
+    issue: LintIssue,
+    lintXml: string,
+    summary: string,
+    change: (lintXml: string) => Promise<void>
+): Promise<void> {
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? path.dirname(lintXml);
+    try {
+        await change(lintXml);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        vscode.window.showErrorMessage(`Android Lint: Failed to update lint.xml: ${message}`);
+        return;
+    }
+
+    vscode.window.showInformationMessage(
+        `Android Lint: ${summary} (${path.relative(workspaceRoot, lintXml)})`,
+        'Open lint.xml'
+    ).then(action => {
+        if (action === 'Open lint.xml') {
+            vscode.window.showTextDocument(vscode.Uri.file(lintXml));
+        }
+    });
+
+    if (!lintManager) {
+        return;
+    }
+    if (lintXml === projectLintXml(workspaceRoot)) {
+        await lintManager.lintProject();
+    } else {
+        await lintManager.lintFile(await vscode.workspace.openTextDocument(issue.file));
+    }
+}
+
 // ── Helper: core commands ──────────────────────────────────────────
 function registerCoreCommands(context: vscode.ExtensionContext) {
     context.subscriptions.push(
@@ -281,6 +612,56 @@ function registerCoreCommands(context: vscode.ExtensionContext) {
         })
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand(COMMANDS.CREATE_LINT_BASELINE, async () => {
+            if (lintManager) {
+                await lintManager.updateBaseline('create');
+            } else {
+                vscode.window.showInformationMessage('Lint baselines are read by the Language Server');
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(COMMANDS.UPDATE_LINT_BASELINE, async () => {
+            if (lintManager) {
+                await lintManager.updateBaseline('refresh');
+            } else {
+                vscode.window.showInformationMessage('Lint baselines are read by the Language Server');
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(COMMANDS.TOGGLE_BASELINE_ISSUES, async () => {
+            const config = vscode.workspace.getConfiguration(CONFIG_NAMESPACE);
+            const show = !config.get<boolean>(CONFIG_KEYS.LINT_SHOW_BASELINE_ISSUES, false);
+            await config.update(CONFIG_KEYS.LINT_SHOW_BASELINE_ISSUES, show, vscode.ConfigurationTarget.Workspace);
+            vscode.window.showInformationMessage(show ? 'Showing lint baseline issues' : 'Hiding lint baseline issues');
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(COMMANDS.SELECT_LINT_DIFF_MODE, async () => {
+            if (lintManager) {
+                await selectLintDiffMode();
+            } else {
+                vscode.window.showInformationMessage('The lint diff mode only applies to Gradle lint; lint is handled by the Language Server');
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(COMMANDS.CANCEL_GRADLE_TASK, () => {
+            const cancelled = gradleProcessManager.cancelAll();
+            if (cancelled === 0) {
+                vscode.window.showInformationMessage('Android Linter: No Gradle task is running');
+            } else {
+                logger.stop(`Cancelled ${cancelled} running Gradle command(s)`);
+            }
+        })
+    );
+
     context.subscriptions.push(
         vscode.commands.registerCommand(COMMANDS.LAUNCH_ON_DEVICE, async () => {
             androidExplorerView.setGradleRunning(true);
@@ -389,22 +770,28 @@ function registerCoreCommands(context: vscode.ExtensionContext) {
                 return;
             }
 
-            const stringsXmlPaths = [
-                path.join(workspaceRoot, 'app', 'src', 'main', 'res', 'values', 'strings.xml'),
-                path.join(workspaceRoot, 'src', 'main', 'res', 'values', 'strings.xml'),
-            ];
-
-            let stringsXmlPath: string | undefined;
-            for (const p of stringsXmlPaths) {
-                if (fs.existsSync(p)) { stringsXmlPath = p; break; }
-            }
-
-            if (!stringsXmlPath) {
-                vscode.window.showErrorMessage('Could not find strings.xml file');
+            // Extract into the module that owns the file, so the resource is visible to its R class
+            const module = moduleRegistry
+                ? await moduleRegistry.pickModule({
+                    types: ['application', 'library'],
+                    contextUri: uri,
+                    fallback: findModuleForFile(workspaceRoot, uri.fsPath),
+                    placeHolder: 'Select the module to add the string resource to'
+                })
+                : findModuleForFile(workspaceRoot, uri.fsPath);
+            if (!module) {
                 return;
             }
 
+            const stringsXmlPath = path.join(module.dir, 'src', 'main', 'res', 'values', 'strings.xml');
+
             try {
+                if (!fs.existsSync(stringsXmlPath)) {
+                    fs.mkdirSync(path.dirname(stringsXmlPath), { recursive: true });
+                    fs.writeFileSync(stringsXmlPath, '<?xml version="1.0" encoding="utf-8"?>\n<resources>\n</resources>\n', 'utf8');
+                    logger.file(`Created ${stringsXmlPath}`);
+                }
+
                 let stringsContent = fs.readFileSync(stringsXmlPath, 'utf8');
                 const cleanText = text.replace(/^["']|["']$/g, '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
                 const newString = `    <string name="${resourceName}">${cleanText}</string>\n`;
@@ -417,7 +804,7 @@ function registerCoreCommands(context: vscode.ExtensionContext) {
                 edit.replace(uri, range, replacement);
                 await vscode.workspace.applyEdit(edit);
 
-                vscode.window.showInformationMessage(`String extracted to @string/${resourceName}`);
+                vscode.window.showInformationMessage(`String extracted to @string/${resourceName} in ${module.path}`);
             } catch (error) {
                 vscode.window.showErrorMessage(`Failed to extract string: ${error}`);
             }
@@ -499,6 +886,29 @@ function registerEmulatorCommands(context: vscode.ExtensionContext) {
     );
 }
 
+// ── Helper: Dependencies view ──────────────────────────────────────
+function registerDependenciesView(context: vscode.ExtensionContext, workspaceRoot: string) {
+    if (!moduleRegistry) {
+        return;
+    }
+
+    const dependenciesView = new DependenciesView(gradleProcessManager, moduleRegistry, variantManager, workspaceRoot);
+    const treeView = vscode.window.createTreeView(VIEWS.DEPENDENCIES, { treeDataProvider: dependenciesView });
+    dependenciesView.setTreeView(treeView);
+    context.subscriptions.push(dependenciesView, treeView);
+
+    // A sync may have changed the modules or their dependencies
+    if (projectSync) {
+        context.subscriptions.push(projectSync.onDidSync(() => dependenciesView.clearCache()));
+    }
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(COMMANDS.REFRESH_DEPENDENCIES, () => dependenciesView.clearCache()),
+        vscode.commands.registerCommand(COMMANDS.FIND_DEPENDENCY, () => dependenciesView.promptFilter()),
+        vscode.commands.registerCommand(COMMANDS.CLEAR_DEPENDENCY_FILTER, () => dependenciesView.clearFilter())
+    );
+}
+
 // ── Variant commands ───────────────────────────────────────────────
 function registerVariantCommands(context: vscode.ExtensionContext) {
     context.subscriptions.push(
@@ -508,10 +918,187 @@ function registerVariantCommands(context: vscode.ExtensionContext) {
             } else {
                 vscode.window.showWarningMessage('Variant manager not available');
             }
+        }),
+        vscode.commands.registerCommand(COMMANDS.SYNC_PROJECT, async () => {
+            if (projectSync) {
+                await projectSync.syncWithProgress();
+            } else {
+                vscode.window.showWarningMessage('Android Linter: Open an Android project folder to sync it.');
+            }
+        }),
+        vscode.commands.registerCommand(COMMANDS.ASSEMBLE_VARIANT, async () => {
+            const module = await pickBuildModule('assemble');
+            if (module) {
+                await assembleVariant(module);
+            }
+        }),
+        vscode.commands.registerCommand(COMMANDS.RUN_UNIT_TESTS, () =>
+            runVariantTask((variants, modulePath) => variants.getUnitTestTask(modulePath), 'test'))
+    );
+}
+
+/**
+ * Run a module's task for its selected build variant in the Gradle task terminal.
+ */
+async function runVariantTask(taskFor: (variants: VariantManager, modulePath: string) => string, action: string) {
+    const module = await pickBuildModule(action);
+    if (module && variantManager && gradleTasksView) {
+        await gradleTasksView.runTask(moduleTask(module, taskFor(variantManager, module.path)));
+    }
+}
+
+async function pickBuildModule(action: string): Promise<GradleModule | undefined> {
+    if (!variantManager || !moduleRegistry) {
+        vscode.window.showWarningMessage('Android Linter: Open an Android project folder to build it.');
+        return undefined;
+    }
+
+    return moduleRegistry.pickModule({
+        types: ['application', 'library'],
+        contextUri: vscode.window.activeTextEditor?.document.uri,
+        placeHolder: `Select a module to ${action}`
+    });
+}
+
+/**
+ * Assemble a module's selected variant; failures are reported with their cause and locations.
+ */
+async function assembleVariant(module: GradleModule, gradleArgs: string[] = []) {
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (!workspaceRoot || !variantManager) {
+        return;
+    }
+
+    const task = moduleTask(module, variantManager.getAssembleTask(module.path));
+    try {
+        await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Android: Running ${task}`, cancellable: true },
+            (_progress, token) => gradleProcessManager.runCommand(workspaceRoot, [task, ...gradleArgs], { cancellationToken: token })
+        );
+        gradleFailureReporter.clear();
+        vscode.window.showInformationMessage(`Android Linter: ${task} completed`);
+    } catch (error) {
+        if (error instanceof GradleCommandError && error.cancelled) {
+            logger.log(`⚪ ${task} cancelled`);
+        } else if (error instanceof GradleCommandError) {
+            await gradleFailureReporter.report(error, {
+                action: `Assemble ${task}`,
+                workspaceRoot,
+                retry: gradleArgs.includes('--stacktrace') ? undefined : extraArgs => assembleVariant(module, [...gradleArgs, ...extraArgs])
+            });
+        } else {
+            vscode.window.showErrorMessage(`Android Linter: ${task} failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+}
+
+// ── Helper: Build Analyzer ─────────────────────────────────────────
+function registerBuildAnalyzer(context: vscode.ExtensionContext) {
+    const history = new BuildProfileHistory(context);
+    const panel = BuildAnalyzerPanel.getInstance(history);
+    context.subscriptions.push(panel);
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(COMMANDS.ANALYZE_BUILD, async () => {
+            const module = await pickBuildModule('profile');
+            if (module) {
+                await analyzeBuild(module, history, panel);
+            }
         })
     );
 }
 
+/**
+ * Assemble a module's selected variant with `--profile` and show where the build time went.
+ * `--info` makes Gradle log cache misses and non-incremental tasks; that output is only
+ * read here, not written to the output channel.
+ */
+async function analyzeBuild(module: GradleModule, history: BuildProfileHistory, panel: BuildAnalyzerPanel) {
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (!workspaceRoot || !variantManager) {
+        return;
+    }
+
+    const task = moduleTask(module, variantManager.getAssembleTask(module.path));
+    const startedAt = Date.now();
+    let output: string;
+    try {
+        const result = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Android: Profiling ${task}`, cancellable: true },
+            (_progress, token) => gradleProcessManager.runCommand(workspaceRoot, [task, '--profile', '--info'], {
+                cancellationToken: token,
+                hideOutput: true
+            })
+        );
+        output = `${result.stdout}\n${result.stderr}`;
+        gradleFailureReporter.clear();
+    } catch (error) {
+        if (error instanceof GradleCommandError && error.cancelled) {
+            logger.log(`⚪ Profiling ${task} cancelled`);
+        } else if (error instanceof GradleCommandError) {
+            await gradleFailureReporter.report(error, { action: `Profile ${task}`, workspaceRoot });
+        } else {
+            vscode.window.showErrorMessage(`Android Linter: Profiling ${task} failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        return;
+    }
+
+    const reportFile = findProfileReport(workspaceRoot, startedAt);
+    if (!reportFile) {
+        vscode.window.showErrorMessage('Android Linter: Gradle did not write a profile report to build/reports/profile.');
+        return;
+    }
+
+    try {
+        const profile = parseProfileReport(fs.readFileSync(reportFile, 'utf8'), task, startedAt);
+        profile.reportFile = reportFile;
+        applyBuildLog(profile, output);
+        await history.record(profile);
+    } catch (error) {
+        vscode.window.showErrorMessage(`Android Linter: Unable to read the profile report ${reportFile}: ${error instanceof Error ? error.message : String(error)}`);
+        return;
+    }
+    panel.show();
+}
+
+/**
+ * The newest `--profile` report written since the build started.
+ */
+function findProfileReport(workspaceRoot: string, since: number): string | undefined {
+    const reportDir = path.join(workspaceRoot, 'build', 'reports', 'profile');
+    if (!fs.existsSync(reportDir)) {
+        return undefined;
+    }
+
+    return fs.readdirSync(reportDir)
+        .filter(name => /^profile-.*\.html$/.test(name))
+        .map(name => path.join(reportDir, name))
+        .map(file => ({ file, modified: fs.statSync(file).mtimeMs }))
+        // Allow for file systems with coarse timestamps
+        .filter(report => report.modified >= since - 2000)
+        .sort((a, b) => b.modified - a.modified)[0]?.file;
+}
+
+// ── Helper: APK Analyzer ───────────────────────────────────────────
+function registerApkAnalyzer(context: vscode.ExtensionContext) {
+    const panel = ApkAnalyzerPanel.getInstance(moduleRegistry, variantManager);
+    context.subscriptions.push(panel);
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(COMMANDS.ANALYZE_APK, (uri?: vscode.Uri) => panel.analyze(uri?.fsPath))
+    );
+}
+
+// ── Helper: Screen Capture ─────────────────────────────────────────
+function registerScreenCapture(context: vscode.ExtensionContext, outputChannel: vscode.OutputChannel) {
+    const screenCapture = new ScreenCaptureManager(deviceManager, outputChannel);
+    context.subscriptions.push(screenCapture);
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(COMMANDS.SCREEN_CAPTURE, () => screenCapture.capture(androidExplorerView.getSelectedDevice()))
+    );
+}
+
 // ── Language Server commands ───────────────────────────────────────
 function registerServerCommands(context: vscode.ExtensionContext) {
     context.subscriptions.push(
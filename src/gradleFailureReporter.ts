@@ -0,0 +1,153 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { BuildOutputParser, GRADLE_FAILURE_ID, GradleFailure } from './buildOutputParser';
+import { DiagnosticProvider, LintIssue } from './diagnosticProvider';
+import { GradleCommandError } from './gradleProcessManager';
+import { Logger } from './logger';
+
+export interface GradleFailureReportOptions {
+    /** What was being done, e.g. `Install` or `Assemble` */
+    action: string;
+    workspaceRoot: string;
+    /** Run the command again with extra Gradle arguments; omit when already run with `--stacktrace` */
+    retry?: (extraArgs: string[]) => unknown;
+}
+
+/**
+ * Turns a failed Gradle command into a structured failure: the failing task, Gradle's
+ * "What went wrong" and "Try" sections, and compiler or resource errors with locations.
+ * Compiler and resource errors go to the Problems panel; the failure itself is shown in
+ * a notification with actions to show the details, open the file and retry.
+ */
+export class GradleFailureReporter {
+    private readonly parser = new BuildOutputParser();
+    /** Build errors shown per file, by `issueKey`, cleared again once a build succeeds */
+    private readonly reportedIssues = new Map<string, Set<string>>();
+    private readonly logger: Logger;
+
+    constructor(
+        private readonly diagnosticProvider: DiagnosticProvider,
+        outputChannel: vscode.OutputChannel
+    ) {
+        this.logger = Logger.create(outputChannel, 'Build');
+    }
+
+    async report(error: GradleCommandError, options: GradleFailureReportOptions): Promise<void> {
+        const output = `${error.stdout}\n${error.stderr}`;
+        const failures = this.parser.parseFailures(output, options.workspaceRoot);
+        const issues = this.parser.parse(output, options.workspaceRoot)
+            .filter(issue => issue.id !== GRADLE_FAILURE_ID);
+
+        this.showInProblems(issues);
+        this.logFailure(options.action, failures, issues);
+
+        const errors = issues.filter(issue => issue.severity === 'error');
+        const failure = failures[0];
+        const summary = errors.length > 0
+            ? `${errors.length} error(s), first in ${path.basename(errors[0].file)}:${errors[0].line}: ${firstLine(errors[0].message)}`
+            : failure ? mainCause(failure) : `Gradle exited with code ${error.exitCode}`;
+        const task = failure?.task ? ` (${failure.task})` : '';
+
+        const target = errors[0]
+            ? { file: errors[0].file, line: errors[0].line, column: errors[0].column }
+            : failure?.location ? { ...failure.location, column: 1 } : undefined;
+
+        const actions = ['Show Details'];
+        if (target) {
+            actions.push('Open File');
+        }
+        if (options.retry) {
+            actions.push('Retry with --stacktrace');
+        }
+
+        const choice = await vscode.window.showErrorMessage(
+            `Android Linter: ${options.action} failed${task}: ${summary}`,
+            ...actions
+        );
+        switch (choice) {
+            case 'Show Details':
+                this.logger.show(false);
+                break;
+            case 'Open File':
+                if (target) {
+                    const position = new vscode.Position(Math.max(0, target.line - 1), Math.max(0, target.column - 1));
+                    await vscode.window.showTextDocument(vscode.Uri.file(target.file), {
+                        selection: new vscode.Range(position, position)
+                    });
+                }
+                break;
+            case 'Retry with --stacktrace':
+                await options.retry?.(['--stacktrace']);
+                break;
+        }
+    }
+
+    /**
+     * Remove the build errors of an earlier failure, e.g. once the build succeeds.
+     * Issues from lint runs, compilation errors included, are kept.
+     */
+    clear(): void {
+        for (const [file, keys] of this.reportedIssues) {
+            const remaining = this.diagnosticProvider.getAllIssues()
+                .filter(issue => issue.file === file && !keys.has(issueKey(issue)));
+            this.diagnosticProvider.applyRun(this.diagnosticProvider.beginRun({ kind: 'file', file }), remaining);
+        }
+        this.reportedIssues.clear();
+    }
+
+    /** Replace the build errors of each file, keeping its other issues */
+    private showInProblems(issues: LintIssue[]): void {
+        this.clear();
+
+        const files = new Set(issues.map(issue => issue.file));
+        for (const file of files) {
+            const fileIssues = issues.filter(issue => issue.file === file);
+            const keys = new Set(fileIssues.map(issueKey));
+            // A lint run may already show the same compiler error
+            const otherIssues = this.diagnosticProvider.getAllIssues()
+                .filter(issue => issue.file === file && !keys.has(issueKey(issue)));
+            const run = this.diagnosticProvider.beginRun({ kind: 'file', file });
+            this.diagnosticProvider.applyRun(run, [...otherIssues, ...fileIssues]);
+            this.reportedIssues.set(file, keys);
+        }
+    }
+
+    /** Always written, since "Show Details" opens the output */
+    private logFailure(action: string, failures: GradleFailure[], issues: LintIssue[]): void {
+        this.logger.error(`${action} failed`);
+        for (const failure of failures) {
+            if (failure.task) {
+                this.logger.always(`   Task: ${failure.task}`);
+            }
+            if (failure.location) {
+                this.logger.always(`   Where: ${failure.location.file}:${failure.location.line}`);
+            }
+            this.logger.always('   What went wrong:');
+            failure.message.split('\n').forEach(line => this.logger.always(`      ${line}`));
+            if (failure.suggestions.length > 0) {
+                this.logger.always('   Try:');
+                failure.suggestions.forEach(suggestion => this.logger.always(`      - ${suggestion}`));
+            }
+        }
+        for (const issue of issues) {
+            this.logger.always(`   ${issue.severity === 'error' ? '❌' : '⚠️'} ${issue.file}:${issue.line}:${issue.column}: ${firstLine(issue.message)}`);
+        }
+    }
+}
+
+/**
+ * The first line of "What went wrong" that says more than which task or worker failed.
+ */
+function mainCause(failure: GradleFailure): string {
+    const lines = failure.message.split('\n');
+    return lines.find(line => !/^(Execution failed for task|A failure occurred while executing)/.test(line)) ?? lines[0];
+}
+
+/** Identifies a build error regardless of where unsaved edits moved it */
+function issueKey(issue: LintIssue): string {
+    return `${issue.source}|${issue.severity}|${issue.message}`;
+}
+
+function firstLine(text: string): string {
+    return text.split('\n')[0];
+}
@@ -3,16 +3,26 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { LintIssue } from './diagnosticProvider';
 import { LintReportParser } from './lintReportParser';
-import { GradleCommandError, GradleProcessManager } from './gradleProcessManager';
+import { BuildOutputParser, GRADLE_FAILURE_ID } from './buildOutputParser';
+import { LintBaseline, addBaselineToBuildFile, hasBaselineConfigured, resolveBaselinePath } from './lintBaseline';
+import { GradleCommandError, GradleProcessManager, GradleTaskProgress } from './gradleProcessManager';
+import { GradleModule, findModuleForFile, getGradleModules, moduleFromName, moduleTask } from './build/gradleModules';
+import { VariantManager } from './build/variantManager';
 import { CONFIG_NAMESPACE, CONFIG_KEYS, DEFAULTS } from './constants';
 import { Logger } from './logger';
 
 export class GradleLintRunner implements vscode.Disposable {
     private parser: LintReportParser;
+    private buildOutputParser = new BuildOutputParser();
     private logger: Logger;
     private gradleManager: GradleProcessManager;
+    private baselineCache = new Map<string, { mtimeMs: number; baseline: LintBaseline }>();
 
-    constructor(gradleManager: GradleProcessManager, outputChannel?: vscode.OutputChannel) {
+    constructor(
+        gradleManager: GradleProcessManager,
+        outputChannel?: vscode.OutputChannel,
+        private readonly variantManager?: VariantManager
+    ) {
         this.parser = new LintReportParser(outputChannel);
         const channel = outputChannel || vscode.window.createOutputChannel('Android Linter');
         this.logger = Logger.create(channel, 'LintRunner');
@@ -20,51 +30,80 @@ export class GradleLintRunner implements vscode.Disposable {
     }
 
     public async lintFile(workspaceRoot: string, filePath: string): Promise<LintIssue[]> {
-        // For file-specific linting, we'll run a full lint and return ALL results
-        // Android Gradle doesn't support per-file linting out of the box
-        // So we run full project lint and show all issues
-        const allIssues = await this.runGradleLint(workspaceRoot);
-        
-        this.logger.log(`   📊 Found ${allIssues.length} total issues in project`);
-        this.logger.log(`   🎯 Returning all issues (not just for ${filePath})`);
-        
-        // Return ALL issues, not just for this file
-        // This matches Android Studio behavior where opening any file shows all project issues
-        return allIssues;
+        // Android Gradle doesn't support per-file linting out of the box,
+        // so lint the module that owns the file and return all of its issues
+        const config = vscode.workspace.getConfiguration(CONFIG_NAMESPACE);
+        const lintScope = config.get<string>(CONFIG_KEYS.LINT_SCOPE) || 'module';
+        if (lintScope === 'project') {
+            return this.lintProject(workspaceRoot);
+        }
+
+        const module = this.resolveModule(workspaceRoot, filePath);
+        const issues = await this.runGradleLint(workspaceRoot, [module]);
+
+        this.logger.log(`   📊 Found ${issues.length} issues in module ${module.path}`);
+        return issues;
     }
 
+    /**
+     * Run the lint task in every module and combine their reports.
+     */
     public async lintProject(
         workspaceRoot: string,
-        cancellationToken?: vscode.CancellationToken
+        cancellationToken?: vscode.CancellationToken,
+        onProgress?: (progress: GradleTaskProgress) => void
     ): Promise<LintIssue[]> {
-        return this.runGradleLint(workspaceRoot, cancellationToken);
+        let modules = getGradleModules(workspaceRoot);
+        if (modules.length === 0) {
+            modules = [this.resolveModule(workspaceRoot)];
+        }
+
+        return this.runGradleLint(workspaceRoot, modules, cancellationToken, true, onProgress);
+    }
+
+    /**
+     * The module that owns `filePath`, falling back to the configured `lintModule`.
+     */
+    public resolveModule(workspaceRoot: string, filePath?: string): GradleModule {
+        const owner = filePath ? findModuleForFile(workspaceRoot, filePath) : undefined;
+        if (owner) {
+            return owner;
+        }
+
+        const config = vscode.workspace.getConfiguration(CONFIG_NAMESPACE);
+        return moduleFromName(workspaceRoot, config.get<string>(CONFIG_KEYS.LINT_MODULE) || 'app');
     }
 
     private async runGradleLint(
         workspaceRoot: string,
-        cancellationToken?: vscode.CancellationToken
+        modules: GradleModule[],
+        cancellationToken?: vscode.CancellationToken,
+        wholeProject = false,
+        onProgress?: (progress: GradleTaskProgress) => void
     ): Promise<LintIssue[]> {
         const config = vscode.workspace.getConfiguration(CONFIG_NAMESPACE);
         const timeout = config.get<number>(CONFIG_KEYS.LINT_TIMEOUT) || DEFAULTS.LINT_TIMEOUT;
-        const lintScope = config.get<string>(CONFIG_KEYS.LINT_SCOPE) || 'module';
-        const lintModule = config.get<string>(CONFIG_KEYS.LINT_MODULE) || 'app';
 
         // Optimization settings
-        const lintTaskName = config.get<string>(CONFIG_KEYS.LINT_TASK) || 'lintDebug';
+        const configuredLintTask = (config.get<string>(CONFIG_KEYS.LINT_TASK) || '').trim();
         const useOffline = config.get<boolean>(CONFIG_KEYS.LINT_OFFLINE, false);
         const fastMode = config.get<boolean>(CONFIG_KEYS.LINT_FAST_MODE, true);
 
-        // Determine the full lint task
-        let lintTask: string;
-        if (lintScope === 'project') {
-            lintTask = lintTaskName;
-            this.logger.build(`Starting Gradle lint task: ${lintTask} (full project)`);
+        let lintTasks: string[];
+        if (wholeProject) {
+            // An unqualified task name runs in every project that defines it; variant tasks
+            // differ per module, so qualify them for the modules that have lint<Variant> tasks only
+            const androidModules = modules.filter(module => module.type === 'application' || module.type === 'library');
+            lintTasks = (configuredLintTask || androidModules.length === 0)
+                ? [configuredLintTask || this.lintTaskFor(modules[0])]
+                : androidModules.map(module => moduleTask(module, this.lintTaskFor(module)));
+            this.logger.build(`Starting Gradle lint task: ${lintTasks.join(' ')} (full project, ${modules.length} module(s))`);
         } else {
-            lintTask = `:${lintModule}:${lintTaskName}`;
-            this.logger.build(`Starting Gradle lint task: ${lintTask} (module: ${lintModule})`);
+            lintTasks = [moduleTask(modules[0], this.lintTaskFor(modules[0]))];
+            this.logger.build(`Starting Gradle lint task: ${lintTasks[0]} (module: ${modules[0].path})`);
         }
 
-        const args = [lintTask];
+        const args = [...lintTasks];
 
         // Add optimization flags
         if (useOffline) {
@@ -80,29 +119,30 @@ export class GradleLintRunner implements vscode.Disposable {
         args.push('--continue');
 
         try {
-            const result = await this.gradleManager.runCommand(
+            // Output is streamed to the output channel by GradleProcessManager
+            await this.gradleManager.runCommand(
                 workspaceRoot,
                 args,
                 {
                     timeout,
-                    cancellationToken
+                    cancellationToken,
+                    onProgress
                 }
             );
 
-            if (result.stdout) {
-                this.logger.log(`📤 Gradle output: ${result.stdout.substring(0, 500)}`);
-            }
-            if (result.stderr) {
-                this.logger.warn(`Gradle stderr: ${result.stderr.substring(0, 500)}`);
-            }
-
             if (cancellationToken?.isCancellationRequested) {
                 this.logger.stop('Lint cancelled');
                 return [];
             }
 
-            return await this.parseLintResults(workspaceRoot, lintTaskName);
+            return await this.parseLintResults(workspaceRoot, modules);
         } catch (error: any) {
+            // Reports left in the build directory are from an earlier run
+            if (error instanceof GradleCommandError && error.cancelled) {
+                this.logger.stop('Lint cancelled');
+                throw error;
+            }
+
             // Lint command may exit with non-zero even when successful
             // if it finds issues, so we still try to parse results
             this.logger.warn('Gradle command exited with error (this is normal if lint found issues)');
@@ -137,7 +177,9 @@ export class GradleLintRunner implements vscode.Disposable {
                 throw new Error(errorMsg);
             }
             
-            const compilationIssues = this.parseCompilationErrors(errorOutput, workspaceRoot);
+            const buildIssues = this.parseCompilationErrors(errorOutput, workspaceRoot);
+            const gradleFailures = buildIssues.filter(issue => issue.id === GRADLE_FAILURE_ID);
+            const compilationIssues = buildIssues.filter(issue => issue.id !== GRADLE_FAILURE_ID);
             const compilationErrors = compilationIssues.filter(issue => issue.severity === 'error');
             const compilationWarnings = compilationIssues.filter(issue => issue.severity === 'warning');
             
@@ -149,7 +191,7 @@ export class GradleLintRunner implements vscode.Disposable {
             }
             
             try {
-                const results = await this.parseLintResults(workspaceRoot, lintTaskName);
+                const results = await this.parseLintResults(workspaceRoot, modules);
                 
                 // If we found compilation warnings, merge them with lint results
                 if (compilationWarnings.length > 0) {
@@ -162,6 +204,12 @@ export class GradleLintRunner implements vscode.Disposable {
                     return results;
                 }
                 
+                // Gradle explained why the build failed: report that instead of a generic error
+                if (gradleFailures.length > 0) {
+                    this.logger.error(`Gradle build failed: ${gradleFailures[0].message.split('\n')[0]}`);
+                    return gradleFailures;
+                }
+
                 // If no results found but gradle failed, it's an actual error
                 const exitCode = error instanceof GradleCommandError ? error.exitCode : (error as any).code;
                 if (exitCode !== 0) {
@@ -181,40 +229,158 @@ export class GradleLintRunner implements vscode.Disposable {
         }
     }
 
-    private async parseLintResults(workspaceRoot: string, lintTaskName?: string): Promise<LintIssue[]> {
-        const config = vscode.workspace.getConfiguration('android-linter');
-        const lintModule = config.get<string>('lintModule') || 'app';
-
-        // Try to derive report name from task name
-        // e.g. lintDebug -> lint-results-debug.xml
-        let derivedReportName = 'lint-results.xml';
-        if (lintTaskName && lintTaskName.toLowerCase().startsWith('lint')) {
-            const variant = lintTaskName.substring(4).toLowerCase();
-            if (variant) {
-                derivedReportName = `lint-results-${variant}.xml`;
+    /**
+     * Create or refresh the lint baseline of a module by running
+     * `updateLintBaseline<Variant>`. When the module has no baseline configured yet,
+     * `lint { baseline = file("lint-baseline.xml") }` is added to its build file first.
+     */
+    public async updateBaseline(
+        workspaceRoot: string,
+        module: GradleModule,
+        cancellationToken?: vscode.CancellationToken
+    ): Promise<string | undefined> {
+        const config = vscode.workspace.getConfiguration(CONFIG_NAMESPACE);
+        const lintTaskName = this.lintTaskFor(module);
+        const timeout = config.get<number>(CONFIG_KEYS.LINT_TIMEOUT) || DEFAULTS.LINT_TIMEOUT;
+
+        if (!hasBaselineConfigured(module.dir)) {
+            const buildFile = await addBaselineToBuildFile(module.dir);
+            if (!buildFile) {
+                throw new Error(`Could not find an android { } block in ${module.path}'s build file to configure a baseline`);
+            }
+            this.logger.file(`Configured lint baseline in ${buildFile}`);
+        }
+
+        // lintFreeDebug -> updateLintBaselineFreeDebug, lint -> updateLintBaseline
+        const variantSuffix = lintTaskName.toLowerCase().startsWith('lint') ? lintTaskName.substring(4) : '';
+        const task = moduleTask(module, `updateLintBaseline${variantSuffix}`);
+        this.logger.build(`Updating lint baseline: ${task}`);
+
+        await this.gradleManager.runCommand(workspaceRoot, [task], { timeout, cancellationToken });
+
+        const baselinePath = resolveBaselinePath(module.dir);
+        this.baselineCache.delete(baselinePath);
+        return fs.existsSync(baselinePath) ? baselinePath : undefined;
+    }
+
+    /**
+     * Path of the module's baseline file, if it exists.
+     */
+    public findBaseline(module: GradleModule): string | undefined {
+        const baselinePath = resolveBaselinePath(module.dir);
+        return fs.existsSync(baselinePath) ? baselinePath : undefined;
+    }
+
+    /**
+     * Mark issues recorded in their module's lint baseline with `inBaseline`.
+     */
+    public async applyBaseline(workspaceRoot: string, issues: LintIssue[]): Promise<LintIssue[]> {
+        const modules = getGradleModules(workspaceRoot);
+        const baselines = new Map<string, LintBaseline | undefined>();
+        let matched = 0;
+
+        const marked: LintIssue[] = [];
+        for (const issue of issues) {
+            const module = findModuleForFile(workspaceRoot, issue.file, modules);
+            if (!module) {
+                marked.push(issue);
+                continue;
+            }
+
+            if (!baselines.has(module.dir)) {
+                baselines.set(module.dir, await this.loadBaseline(module.dir));
+            }
+            const baseline = baselines.get(module.dir);
+            const inBaseline = baseline ? baseline.contains(issue) : false;
+            if (inBaseline) {
+                matched++;
+            }
+            marked.push({ ...issue, inBaseline });
+        }
+
+        if (matched > 0) {
+            this.logger.log(`   📋 ${matched} issue(s) matched a lint baseline`);
+        }
+        return marked;
+    }
+
+    private async loadBaseline(moduleDir: string): Promise<LintBaseline | undefined> {
+        const baselinePath = resolveBaselinePath(moduleDir);
+        if (!fs.existsSync(baselinePath)) {
+            return undefined;
+        }
+
+        try {
+            const { mtimeMs } = fs.statSync(baselinePath);
+            const cached = this.baselineCache.get(baselinePath);
+            if (cached && cached.mtimeMs === mtimeMs) {
+                return cached.baseline;
+            }
+
+            const baseline = await LintBaseline.load(baselinePath);
+            this.baselineCache.set(baselinePath, { mtimeMs, baseline });
+            return baseline;
+        } catch (error) {
+            this.logger.warn(`Failed to read lint baseline ${baselinePath}: ${error}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * The lint task of a module: the `lintTask` setting, else the module's selected build variant.
+     */
+    private lintTaskFor(module: GradleModule): string {
+        const configured = (vscode.workspace.getConfiguration(CONFIG_NAMESPACE).get<string>(CONFIG_KEYS.LINT_TASK) || '').trim();
+        return configured || this.variantManager?.getLintTask(module.path) || 'lintDebug';
+    }
+
+    private async parseLintResults(
+        workspaceRoot: string,
+        modules: GradleModule[]
+    ): Promise<LintIssue[]> {
+        const issues: LintIssue[] = [];
+        for (const module of modules) {
+            issues.push(...await this.readLintReports(workspaceRoot, module));
+        }
+        return this.applyBaseline(workspaceRoot, issues);
+    }
+
+    private async readLintReports(
+        workspaceRoot: string,
+        module: GradleModule
+    ): Promise<LintIssue[]> {
+        const reportsDir = path.join(module.dir, 'build', 'reports');
+
+        // Derive the report name from the variant of the lint task
+        // e.g. lintFreeDebug -> lint-results-freeDebug.xml
+        const variant = this.lintTaskFor(module).replace(/^lint/i, '');
+        const derivedReportBase = variant
+            ? `lint-results-${variant.charAt(0).toLowerCase()}${variant.slice(1)}`
+            : 'lint-results';
+        const derivedReportName = `${derivedReportBase}.xml`;
+
+        // SARIF carries full ranges and fixes, so prefer it whenever the module asks for it
+        if (this.isSarifReportEnabled(module.dir)) {
+            const sarifIssues = this.parseSarifResults(workspaceRoot, reportsDir, derivedReportBase);
+            if (sarifIssues) {
+                return sarifIssues;
             }
         }
 
         // Look for lint report XML files
         const possibleReportPaths = [
             // Prioritize the specific variant report
-            path.join(workspaceRoot, lintModule, 'build', 'reports', derivedReportName),
-            path.join(workspaceRoot, 'app', 'build', 'reports', derivedReportName),
-            path.join(workspaceRoot, 'build', 'reports', derivedReportName),
+            path.join(reportsDir, derivedReportName),
 
             // Fallbacks
-            path.join(workspaceRoot, lintModule, 'build', 'reports', 'lint-results.xml'),
-            path.join(workspaceRoot, lintModule, 'build', 'reports', 'lint-results-debug.xml'),
-            path.join(workspaceRoot, 'app', 'build', 'reports', 'lint-results.xml'),
-            path.join(workspaceRoot, 'build', 'reports', 'lint-results.xml'),
-            path.join(workspaceRoot, 'app', 'build', 'reports', 'lint-results-debug.xml'),
+            path.join(reportsDir, 'lint-results.xml'),
+            path.join(reportsDir, 'lint-results-debug.xml'),
         ];
 
-        this.logger.log(`🔍 Looking for lint reports (expecting: ${derivedReportName})...`);
+        this.logger.log(`🔍 Looking for lint reports in ${module.path} (expecting: ${derivedReportName})...`);
 
         // Try to find and parse the first available report
         for (const reportPath of possibleReportPaths) {
-            // this.log(`   Checking: ${reportPath}`); // Too verbose
             if (fs.existsSync(reportPath)) {
                 this.logger.log(`   ✅ Found XML report: ${reportPath}`);
                 const stats = fs.statSync(reportPath);
@@ -227,55 +393,69 @@ export class GradleLintRunner implements vscode.Disposable {
             }
         }
 
-        // If no XML report found, check for JSON or SARIF
-        const possibleJsonPaths = [
-            path.join(workspaceRoot, lintModule, 'build', 'reports', 'lint-results.json'),
-            path.join(workspaceRoot, 'app', 'build', 'reports', 'lint-results.json'),
-        ];
+        // If no XML report found, check for SARIF or JSON
+        const sarifIssues = this.parseSarifResults(workspaceRoot, reportsDir, derivedReportBase);
+        if (sarifIssues) {
+            return sarifIssues;
+        }
 
-        for (const jsonReportPath of possibleJsonPaths) {
-            this.logger.log(`   Checking: ${jsonReportPath}`);
-            if (fs.existsSync(jsonReportPath)) {
-                this.logger.log(`   ✅ Found JSON report: ${jsonReportPath}`);
-                const jsonContent = fs.readFileSync(jsonReportPath, 'utf-8');
-                return this.parser.parseJsonReport(jsonContent, workspaceRoot);
-            }
+        const jsonReportPath = path.join(reportsDir, 'lint-results.json');
+        if (fs.existsSync(jsonReportPath)) {
+            this.logger.log(`   ✅ Found JSON report: ${jsonReportPath}`);
+            const jsonContent = fs.readFileSync(jsonReportPath, 'utf-8');
+            return this.parser.parseJsonReport(jsonContent, workspaceRoot);
         }
 
         // No reports found
-        this.logger.log(`   ❌ No lint reports found`);
+        this.logger.log(`   ❌ No lint reports found for ${module.path}`);
         return [];
     }
 
+    /**
+     * Parse the first SARIF report found in the reports directory, or undefined if none exists.
+     */
+    private parseSarifResults(workspaceRoot: string, reportsDir: string, reportBase: string): LintIssue[] | undefined {
+        const possibleSarifPaths = [
+            path.join(reportsDir, `${reportBase}.sarif`),
+            path.join(reportsDir, 'lint-results.sarif'),
+        ];
+
+        for (const sarifReportPath of possibleSarifPaths) {
+            if (fs.existsSync(sarifReportPath)) {
+                this.logger.log(`   ✅ Found SARIF report: ${sarifReportPath}`);
+                const sarifContent = fs.readFileSync(sarifReportPath, 'utf-8');
+                return this.parser.parseSarifReport(sarifContent, workspaceRoot);
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Check whether the module's build file enables SARIF output (`sarifReport true` / `sarifReport = true`).
+     */
+    private isSarifReportEnabled(moduleDir: string): boolean {
+        const buildFiles = [
+            path.join(moduleDir, 'build.gradle.kts'),
+            path.join(moduleDir, 'build.gradle'),
+        ];
+
+        for (const buildFile of buildFiles) {
+            if (fs.existsSync(buildFile)) {
+                const content = fs.readFileSync(buildFile, 'utf-8');
+                return /\bsarifReport\s*=?\s*true\b/.test(content);
+            }
+        }
+
+        return false;
+    }
+
     private parseCompilationErrors(output: string, workspaceRoot: string): LintIssue[] {
-        const issues: LintIssue[] = [];
-        
-        // Kotlin error format:
-        // e: file:///C:/path/to/file.kt:257:13 Error message here.
-        // w: file:///C:/path/to/file.kt:100:5 Warning message here.
-        
-        const errorPattern = /^([ew]):\s+file:\/\/\/(.+?):(\d+):(\d+)\s+(.+)$/gm;
-        
-        let match;
-        while ((match = errorPattern.exec(output)) !== null) {
-            const [, severity, filePath, line, column, message] = match;
-            
-            // Convert file:/// URL to local path
-            const localPath = filePath.replace(/\//g, path.sep);
-            
-            const issue: LintIssue = {
-                file: localPath,
-                line: parseInt(line, 10),
-                column: parseInt(column, 10),
-                severity: severity === 'e' ? 'error' : 'warning',
-                message: message.trim(),
-                source: 'Kotlin Compiler',
-                id: 'KotlinCompilationError',
-                category: 'Compilation'
-            };
-            
-            issues.push(issue);
-            this.logger.log(`   🔴 ${severity === 'e' ? 'Error' : 'Warning'}: ${path.basename(localPath)}:${line} - ${message.substring(0, 80)}`);
+        const issues = this.buildOutputParser.parse(output, workspaceRoot);
+
+        for (const issue of issues) {
+            const label = issue.severity === 'error' ? 'Error' : 'Warning';
+            this.logger.log(`   🔴 ${issue.source} ${label}: ${path.basename(issue.file)}:${issue.line} - ${issue.message.substring(0, 80)}`);
         }
         
         return issues;
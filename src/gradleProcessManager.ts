@@ -2,7 +2,7 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import { spawn, ChildProcess } from 'child_process';
-import { CONFIG_NAMESPACE, CONFIG_KEYS } from './constants';
+import { CONFIG_NAMESPACE, CONFIG_KEYS, COMMANDS } from './constants';
 import { Logger } from './logger';
 
 export interface GradleCommandOptions {
@@ -10,6 +10,23 @@ export interface GradleCommandOptions {
     cancellationToken?: vscode.CancellationToken;
     env?: NodeJS.ProcessEnv;
     silent?: boolean;
+    /** Keep Gradle's output out of the output channel, still showing the command and its progress */
+    hideOutput?: boolean;
+    /** Called with each complete line of stdout and stderr as Gradle prints it */
+    onOutputLine?: (line: string) => void;
+    /** Called whenever this command starts a new task */
+    onProgress?: (progress: GradleTaskProgress) => void;
+}
+
+/**
+ * Progress of a running Gradle command, parsed from its `> Task :module:task` lines.
+ * `total` is the number of tasks the same command ran last time, when known.
+ */
+export interface GradleTaskProgress {
+    command: string;
+    task?: string;
+    completed: number;
+    total?: number;
 }
 
 export interface GradleCommandResult {
@@ -18,18 +35,32 @@ export interface GradleCommandResult {
     exitCode: number;
 }
 
+/**
+ * `:app:lintDebug (12/87)`, or the command itself before the first task starts.
+ */
+export function formatGradleProgress(progress: GradleTaskProgress): string {
+    if (!progress.task) {
+        return progress.command;
+    }
+    const count = progress.total !== undefined ? `${progress.completed}/${progress.total}` : `${progress.completed}`;
+    return `${progress.task} (${count})`;
+}
+
 export class GradleCommandError extends Error {
     public readonly exitCode: number;
     public readonly stdout: string;
     public readonly stderr: string;
     public readonly timedOut: boolean;
+    /** Killed on request, so its output says nothing about the build */
+    public readonly cancelled: boolean;
 
-    constructor(message: string, result: GradleCommandResult, timedOut = false) {
+    constructor(message: string, result: GradleCommandResult, timedOut = false, cancelled = false) {
         super(message);
         this.exitCode = result.exitCode;
         this.stdout = result.stdout;
         this.stderr = result.stderr;
         this.timedOut = timedOut;
+        this.cancelled = cancelled;
     }
 }
 
@@ -42,12 +73,23 @@ interface WorkspaceState {
     stopTimer?: NodeJS.Timeout;
 }
 
+interface RunningCommand {
+    progress: GradleTaskProgress;
+    cancel: () => void;
+}
+
 export class GradleProcessManager implements vscode.Disposable {
     private readonly logger: Logger;
     private readonly workspaceStates = new Map<string, WorkspaceState>();
+    private readonly runningCommands = new Set<RunningCommand>();
+    /** Tasks executed by the last run of each command, used as the expected total */
+    private readonly taskCounts = new Map<string, number>();
+    private readonly statusBarItem: vscode.StatusBarItem;
 
     constructor(outputChannel: vscode.OutputChannel) {
         this.logger = Logger.create(outputChannel, 'Gradle');
+        this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 80);
+        this.statusBarItem.command = COMMANDS.CANCEL_GRADLE_TASK;
     }
 
     public async runCommand(
@@ -62,6 +104,20 @@ export class GradleProcessManager implements vscode.Disposable {
         await this.executeCommand(workspaceRoot, ['--stop'], { silent: true, manageIdle: false });
     }
 
+    /**
+     * Kill every running Gradle command, including child processes of the wrapper.
+     * Returns how many commands were cancelled.
+     */
+    public cancelAll(): number {
+        const running = Array.from(this.runningCommands);
+        running.forEach(command => command.cancel());
+        return running.length;
+    }
+
+    public isRunning(): boolean {
+        return this.runningCommands.size > 0;
+    }
+
     public dispose(): void {
         for (const [, state] of this.workspaceStates.entries()) {
             if (state.stopTimer) {
@@ -69,6 +125,7 @@ export class GradleProcessManager implements vscode.Disposable {
             }
         }
         this.workspaceStates.clear();
+        this.statusBarItem.dispose();
     }
 
     private async executeCommand(
@@ -108,7 +165,9 @@ export class GradleProcessManager implements vscode.Disposable {
         const spawnOptions = {
             cwd: workspaceRoot,
             env,
-            shell: process.platform === 'win32'
+            shell: process.platform === 'win32',
+            // Own process group, so cancelling can kill the wrapper and everything it started
+            detached: process.platform !== 'win32'
         };
 
         const commandLabel = `${path.basename(gradleExecutable)} ${finalArgs.join(' ')}`;
@@ -125,7 +184,8 @@ export class GradleProcessManager implements vscode.Disposable {
             quotedExecutable,
             finalArgs,
             spawnOptions,
-            options
+            options,
+            args.join(' ')
         ).finally(() => {
             state.runningCommands = Math.max(0, state.runningCommands - 1);
             if (options.manageIdle && stopOnIdle && state.runningCommands === 0) {
@@ -156,8 +216,10 @@ export class GradleProcessManager implements vscode.Disposable {
             cwd: string;
             env: NodeJS.ProcessEnv;
             shell: boolean;
+            detached: boolean;
         },
-        options: InternalCommandOptions
+        options: InternalCommandOptions,
+        commandKey: string
     ): Promise<GradleCommandResult> {
         return new Promise<GradleCommandResult>((resolve, reject) => {
             const child: ChildProcess = spawn(executable, args, spawnOptions);
@@ -167,6 +229,20 @@ export class GradleProcessManager implements vscode.Disposable {
             let timedOut = false;
             let cancelled = false;
             let timeoutHandle: NodeJS.Timeout | undefined;
+            const partialLines = { stdout: '', stderr: '' };
+            const seenTasks = new Set<string>();
+
+            const running: RunningCommand = {
+                progress: { command: commandKey, completed: 0, total: this.taskCounts.get(commandKey) },
+                cancel: () => {
+                    cancelled = true;
+                    this.killProcessTree(child);
+                }
+            };
+            if (!options.silent) {
+                this.runningCommands.add(running);
+                this.updateStatusBar();
+            }
 
             const cleanup = () => {
                 child.stdout?.removeAllListeners();
@@ -175,22 +251,49 @@ export class GradleProcessManager implements vscode.Disposable {
                 if (timeoutHandle) {
                     clearTimeout(timeoutHandle);
                 }
+                this.runningCommands.delete(running);
+                this.updateStatusBar();
+            };
+
+            const handleLine = (line: string) => {
+                if (!options.silent && !options.hideOutput) {
+                    this.logger.appendAlways(`${line}\n`);
+                }
+                options.onOutputLine?.(line);
+
+                const task = /^> Task (:\S+)/.exec(line)?.[1];
+                if (task && !seenTasks.has(task)) {
+                    seenTasks.add(task);
+                    const progress = running.progress;
+                    progress.task = task;
+                    progress.completed = seenTasks.size;
+                    if (progress.total !== undefined && progress.total < progress.completed) {
+                        progress.total = undefined;
+                    }
+                    if (!options.silent) {
+                        this.updateStatusBar();
+                    }
+                    options.onProgress?.({ ...progress });
+                }
+            };
+
+            // Gradle writes partial lines, so only hand out complete ones
+            const handleData = (stream: 'stdout' | 'stderr', text: string) => {
+                const lines = (partialLines[stream] + text).split(/\r?\n/);
+                partialLines[stream] = lines.pop() ?? '';
+                lines.forEach(handleLine);
             };
 
             child.stdout?.on('data', (data: Buffer) => {
                 const text = data.toString();
                 stdout += text;
-                if (!options.silent) {
-                    this.logger.appendAlways(text);
-                }
+                handleData('stdout', text);
             });
 
             child.stderr?.on('data', (data: Buffer) => {
                 const text = data.toString();
                 stderr += text;
-                if (!options.silent) {
-                    this.logger.appendAlways(text);
-                }
+                handleData('stderr', text);
             });
 
             child.on('error', (error) => {
@@ -199,6 +302,11 @@ export class GradleProcessManager implements vscode.Disposable {
             });
 
             child.on('close', (code, signal) => {
+                for (const rest of [partialLines.stdout, partialLines.stderr]) {
+                    if (rest) {
+                        handleLine(rest);
+                    }
+                }
                 cleanup();
                 const result: GradleCommandResult = {
                     stdout,
@@ -212,7 +320,7 @@ export class GradleProcessManager implements vscode.Disposable {
                 }
 
                 if (cancelled) {
-                    reject(new GradleCommandError('Gradle command cancelled', result));
+                    reject(new GradleCommandError('Gradle command cancelled', result, false, true));
                     return;
                 }
 
@@ -221,6 +329,10 @@ export class GradleProcessManager implements vscode.Disposable {
                     return;
                 }
 
+                if (seenTasks.size > 0) {
+                    this.taskCounts.set(commandKey, seenTasks.size);
+                }
+
                 if (result.exitCode !== 0) {
                     reject(new GradleCommandError('Gradle command failed', result));
                     return;
@@ -232,30 +344,67 @@ export class GradleProcessManager implements vscode.Disposable {
             if (options.timeout && options.timeout > 0) {
                 timeoutHandle = setTimeout(() => {
                     timedOut = true;
-                    if (!child.killed) {
-                        if (process.platform === 'win32') {
-                            child.kill();
-                        } else {
-                            child.kill('SIGKILL');
-                        }
-                    }
+                    this.killProcessTree(child);
                 }, options.timeout);
             }
 
-            options.cancellationToken?.onCancellationRequested(() => {
-                cancelled = true;
-                if (!child.killed) {
-                    if (process.platform === 'win32') {
-                        child.kill();
-                    } else {
-                        child.kill('SIGINT');
-                    }
-                }
-            });
+            options.cancellationToken?.onCancellationRequested(() => running.cancel());
         });
     }
 
-    private resolveGradleExecutable(workspaceRoot: string): string | undefined {
+    /**
+     * Kill the wrapper together with the processes it started. On Windows `gradlew.bat`
+     * runs under cmd.exe, so the whole tree has to go through taskkill; elsewhere the
+     * child leads its own process group.
+     */
+    private killProcessTree(child: ChildProcess): void {
+        if (child.pid === undefined || child.exitCode !== null) {
+            return;
+        }
+
+        if (process.platform === 'win32') {
+            spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { windowsHide: true })
+                .on('error', error => {
+                    this.logger.warn(`taskkill failed: ${error.message}`);
+                    child.kill();
+                });
+            return;
+        }
+
+        try {
+            process.kill(-child.pid, 'SIGTERM');
+        } catch {
+            child.kill('SIGTERM');
+        }
+
+        // Escalate if Gradle ignores SIGTERM
+        setTimeout(() => {
+            if (child.exitCode === null && child.signalCode === null) {
+                try {
+                    process.kill(-child.pid!, 'SIGKILL');
+                } catch {
+                    child.kill('SIGKILL');
+                }
+            }
+        }, 5000).unref();
+    }
+
+    private updateStatusBar(): void {
+        const running = Array.from(this.runningCommands);
+        if (running.length === 0) {
+            this.statusBarItem.hide();
+            return;
+        }
+
+        this.statusBarItem.text = `$(sync~spin) Gradle: ${formatGradleProgress(running[running.length - 1].progress)}`;
+        this.statusBarItem.tooltip = `Running ${running.map(r => r.progress.command).join(', ')}\nClick to cancel`;
+        this.statusBarItem.show();
+    }
+
+    /**
+     * Path of the Gradle wrapper (or the configured gradlePath), if it exists.
+     */
+    public resolveGradleExecutable(workspaceRoot: string): string | undefined {
         const config = vscode.workspace.getConfiguration(CONFIG_NAMESPACE);
         let gradlePath = config.get<string>(CONFIG_KEYS.GRADLE_PATH) || './gradlew';
 
@@ -0,0 +1,182 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { promises as fsPromises } from 'fs';
+import { createStream, QualifiedTag } from 'sax';
+import { LintIssue } from './diagnosticProvider';
+
+const DEFAULT_BASELINE_FILE = 'lint-baseline.xml';
+
+/**
+ * An entry of a lint baseline: the same id, file and message identify an issue
+ * that is already known and should not be reported again.
+ */
+interface BaselineEntry {
+    id: string;
+    file: string;
+    message: string;
+}
+
+/**
+ * Parsed `lint-baseline.xml` for a single module.
+ *
+ * Baseline locations are stored relative to the directory containing the
+ * baseline file, so issues are matched on their path relative to that directory.
+ */
+export class LintBaseline {
+    private readonly keys: Set<string>;
+
+    private constructor(
+        public readonly baselinePath: string,
+        entries: BaselineEntry[]
+    ) {
+        this.keys = new Set(entries.map(entry => LintBaseline.key(entry.id, entry.file, entry.message)));
+    }
+
+    public static async load(baselinePath: string): Promise<LintBaseline> {
+        const xml = await fsPromises.readFile(baselinePath, 'utf8');
+        const baselineDir = path.dirname(baselinePath);
+        const entries: BaselineEntry[] = [];
+        const parser = createStream(true, { trim: false, normalize: false });
+
+        let current: { id: string; message: string } | undefined;
+        let locationCaptured = false;
+
+        parser.on('opentag', (node: QualifiedTag) => {
+            const attrs = node.attributes as Record<string, string>;
+            if (node.name === 'issue') {
+                current = { id: attrs.id || '', message: attrs.message || '' };
+                locationCaptured = false;
+                return;
+            }
+
+            if (node.name === 'location' && current && !locationCaptured && attrs.file) {
+                const file = path.isAbsolute(attrs.file) ? attrs.file : path.join(baselineDir, attrs.file);
+                entries.push({ id: current.id, file: LintBaseline.relative(baselineDir, file), message: current.message });
+                locationCaptured = true;
+            }
+        });
+
+        parser.on('closetag', (tagName: string) => {
+            if (tagName === 'issue') {
+                current = undefined;
+            }
+        });
+
+        return new Promise((resolve, reject) => {
+            parser.on('error', (error: Error) => {
+                parser.removeAllListeners();
+                reject(error);
+            });
+
+            parser.on('end', () => {
+                resolve(new LintBaseline(baselinePath, entries));
+            });
+
+            parser.write(xml);
+            parser.end();
+        });
+    }
+
+    public get size(): number {
+        return this.keys.size;
+    }
+
+    /**
+     * Check whether an issue is already recorded in this baseline.
+     */
+    public contains(issue: LintIssue): boolean {
+        const baselineDir = path.dirname(this.baselinePath);
+        const file = LintBaseline.relative(baselineDir, issue.file);
+        return this.keys.has(LintBaseline.key(issue.id, file, issue.message));
+    }
+
+    private static key(id: string, file: string, message: string): string {
+        return `${id}\u0000${file}\u0000${message.trim()}`;
+    }
+
+    private static relative(baseDir: string, file: string): string {
+        const relative = path.relative(baseDir, file).split(path.sep).join('/');
+        return process.platform === 'win32' ? relative.toLowerCase() : relative;
+    }
+}
+
+/**
+ * Resolve the baseline file configured for a module.
+ * Reads `lint { baseline = file("...") }` (KTS) or `baseline file("...")` (Groovy)
+ * from the module build file and falls back to `<module>/lint-baseline.xml`.
+ */
+export function resolveBaselinePath(moduleDir: string): string {
+    const configured = readConfiguredBaseline(moduleDir);
+    if (configured) {
+        return path.isAbsolute(configured) ? configured : path.join(moduleDir, configured);
+    }
+
+    return path.join(moduleDir, DEFAULT_BASELINE_FILE);
+}
+
+/**
+ * Check whether the module build file declares a lint baseline.
+ */
+export function hasBaselineConfigured(moduleDir: string): boolean {
+    return readConfiguredBaseline(moduleDir) !== undefined;
+}
+
+/**
+ * Add `lint { baseline = file("lint-baseline.xml") }` to the module's `android { }` block.
+ * Returns the build file that was modified, or undefined if no suitable block was found.
+ */
+export async function addBaselineToBuildFile(moduleDir: string): Promise<string | undefined> {
+    const buildFile = findBuildFile(moduleDir);
+    if (!buildFile) {
+        return undefined;
+    }
+
+    const content = await fsPromises.readFile(buildFile, 'utf8');
+    const isKts = buildFile.endsWith('.kts');
+    const baselineLine = isKts
+        ? `baseline = file("${DEFAULT_BASELINE_FILE}")`
+        : `baseline file("${DEFAULT_BASELINE_FILE}")`;
+
+    // Prefer extending an existing lint/lintOptions block
+    const lintBlock = /^([ \t]*)(lint|lintOptions)\s*\{[^\n]*\n/m.exec(content);
+    if (lintBlock) {
+        const indent = `${lintBlock[1]}    `;
+        const insertAt = lintBlock.index + lintBlock[0].length;
+        const updated = `${content.slice(0, insertAt)}${indent}${baselineLine}\n${content.slice(insertAt)}`;
+        await fsPromises.writeFile(buildFile, updated, 'utf8');
+        return buildFile;
+    }
+
+    const androidBlock = /^([ \t]*)android\s*\{[^\n]*\n/m.exec(content);
+    if (!androidBlock) {
+        return undefined;
+    }
+
+    const indent = `${androidBlock[1]}    `;
+    const insertAt = androidBlock.index + androidBlock[0].length;
+    const block = `${indent}lint {\n${indent}    ${baselineLine}\n${indent}}\n`;
+    const updated = `${content.slice(0, insertAt)}${block}${content.slice(insertAt)}`;
+    await fsPromises.writeFile(buildFile, updated, 'utf8');
+    return buildFile;
+}
+
+function readConfiguredBaseline(moduleDir: string): string | undefined {
+    const buildFile = findBuildFile(moduleDir);
+    if (!buildFile) {
+        return undefined;
+    }
+
+    try {
+        const content = fs.readFileSync(buildFile, 'utf8');
+        const match = content.match(/\bbaseline\s*=?\s*(?:file\s*\(\s*)?["']([^"']+)["']/);
+        return match ? match[1] : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+function findBuildFile(moduleDir: string): string | undefined {
+    return ['build.gradle.kts', 'build.gradle']
+        .map(name => path.join(moduleDir, name))
+        .find(candidate => fs.existsSync(candidate));
+}
@@ -0,0 +1,649 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DiagnosticProvider, LintIssue } from './diagnosticProvider';
+import { findModuleForFile, readGradleModules } from './build/gradleModules';
+import { COMMANDS } from './constants';
+
+const HISTORY_KEY = 'lintDashboard.history';
+const LAST_RUN_KEYS = 'lintDashboard.lastRunIssues';
+const PREVIOUS_RUN_KEYS = 'lintDashboard.previousRunIssues';
+const MAX_HISTORY = 50;
+const TOP_FILES = 10;
+
+/**
+ * Totals of one project-wide lint run, kept in workspaceState
+ */
+export interface LintRunSnapshot {
+    timestamp: number;
+    total: number;
+    bySeverity: Record<string, number>;
+    newIssues: number;
+}
+
+/**
+ * Messages sent FROM the webview TO the extension
+ */
+type WebviewToExtensionMessage =
+    | { type: 'openIssue'; file: string; line: number; column: number }
+    | { type: 'runLint' }
+    | { type: 'clearHistory' };
+
+/**
+ * Messages sent FROM the extension TO the webview
+ */
+type ExtensionToWebviewMessage =
+    | { type: 'update'; data: DashboardData };
+
+interface DashboardIssue {
+    id: string;
+    severity: string;
+    message: string;
+    file: string;
+    relativePath: string;
+    line: number;
+    column: number;
+}
+
+interface DashboardData {
+    total: number;
+    baseline: number;
+    bySeverity: Record<string, number>;
+    byCategory: Record<string, number>;
+    byModule: Record<string, number>;
+    topFiles: { file: string; relativePath: string; count: number }[];
+    newIssues: DashboardIssue[];
+    history: LintRunSnapshot[];
+}
+
+/**
+ * Per-run lint totals and the issues seen in the last two project runs, so the
+ * dashboard can chart trends and tell which issues are new.
+ */
+export class LintHistory {
+    constructor(private readonly context: vscode.ExtensionContext) {}
+
+    /**
+     * Record the outcome of a project lint run.
+     */
+    public async record(issues: LintIssue[], workspaceRoot: string): Promise<void> {
+        const active = issues.filter(issue => issue.source === 'Android Lint' && !issue.inBaseline);
+        const keys = active.map(issue => issueKey(issue, workspaceRoot));
+        const lastRun = this.context.workspaceState.get<string[]>(LAST_RUN_KEYS);
+        const known = new Set(lastRun ?? keys);
+
+        const snapshot: LintRunSnapshot = {
+            timestamp: Date.now(),
+            total: active.length,
+            bySeverity: countBy(active, issue => issue.severity),
+            newIssues: keys.filter(key => !known.has(key)).length
+        };
+
+        const history = [...this.getSnapshots(), snapshot].slice(-MAX_HISTORY);
+        await this.context.workspaceState.update(HISTORY_KEY, history);
+        await this.context.workspaceState.update(PREVIOUS_RUN_KEYS, lastRun);
+        await this.context.workspaceState.update(LAST_RUN_KEYS, keys);
+    }
+
+    public getSnapshots(): LintRunSnapshot[] {
+        return this.context.workspaceState.get<LintRunSnapshot[]>(HISTORY_KEY) ?? [];
+    }
+
+    /**
+     * The issues that the project run before the latest one did not report.
+     * Nothing is new until there are two runs to compare.
+     */
+    public findNewIssues(issues: LintIssue[], workspaceRoot: string): LintIssue[] {
+        const previous = this.context.workspaceState.get<string[]>(PREVIOUS_RUN_KEYS);
+        if (!previous) {
+            return [];
+        }
+        const known = new Set(previous);
+        return issues.filter(issue => !known.has(issueKey(issue, workspaceRoot)));
+    }
+
+    public async clear(): Promise<void> {
+        await this.context.workspaceState.update(HISTORY_KEY, undefined);
+        await this.context.workspaceState.update(LAST_RUN_KEYS, undefined);
+        await this.context.workspaceState.update(PREVIOUS_RUN_KEYS, undefined);
+    }
+}
+
+/**
+ * Lint Dashboard: totals per severity, category and module, the files with the most
+ * issues, the history of project runs and the issues that are new since the last run.
+ */
+export class LintDashboardPanel implements vscode.Disposable {
+    private static instance: LintDashboardPanel | undefined;
+    private panel: vscode.WebviewPanel | undefined;
+    private disposables: vscode.Disposable[] = [];
+
+    private constructor(
+        private readonly diagnosticProvider: DiagnosticProvider,
+        private readonly history: LintHistory
+    ) {
+        this.disposables.push(
+            diagnosticProvider.onDidChangeIssues(() => this.update())
+        );
+    }
+
+    public static getInstance(diagnosticProvider: DiagnosticProvider, history: LintHistory): LintDashboardPanel {
+        if (!LintDashboardPanel.instance) {
+            LintDashboardPanel.instance = new LintDashboardPanel(diagnosticProvider, history);
+        }
+        return LintDashboardPanel.instance;
+    }
+
+    public show(): void {
+        if (this.panel) {
+            this.panel.reveal(vscode.ViewColumn.One);
+            this.update();
+            return;
+        }
+
+        this.panel = vscode.window.createWebviewPanel(
+            'androidLintDashboard',
+            'Lint Dashboard',
+            vscode.ViewColumn.One,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            }
+        );
+
+        this.panel.webview.html = this.getWebviewContent();
+
+        this.panel.webview.onDidReceiveMessage(
+            message => this.handleWebviewMessage(message),
+            undefined
+        );
+
+        this.panel.onDidDispose(() => {
+            this.panel = undefined;
+        });
+
+        this.update();
+    }
+
+    /**
+     * Send the current issues and history to the webview, if it is open.
+     */
+    public update(): void {
+        if (!this.panel) {
+            return;
+        }
+
+        const message: ExtensionToWebviewMessage = { type: 'update', data: this.collectData() };
+        this.panel.webview.postMessage(message);
+    }
+
+    private collectData(): DashboardData {
+        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? '';
+        const lintIssues = this.diagnosticProvider.getAllIssues().filter(issue => issue.source === 'Android Lint');
+        const active = lintIssues.filter(issue => !issue.inBaseline);
+        const modules = workspaceRoot ? readGradleModules(workspaceRoot) : [];
+        const moduleByDir = new Map<string, string>();
+        const moduleOf = (file: string) => {
+            const dir = path.dirname(file);
+            if (!moduleByDir.has(dir)) {
+                moduleByDir.set(dir, (workspaceRoot && findModuleForFile(workspaceRoot, file, modules)?.path) || ':');
+            }
+            return moduleByDir.get(dir)!;
+        };
+
+        const fileCounts = countBy(active, issue => issue.file);
+        const topFiles = Object.entries(fileCounts)
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, TOP_FILES)
+            .map(([file, count]) => ({ file, relativePath: relativePath(workspaceRoot, file), count }));
+
+        const newIssues = this.history.findNewIssues(active, workspaceRoot)
+            .map(issue => ({
+                id: issue.id,
+                severity: issue.severity,
+                message: issue.message,
+                file: issue.file,
+                relativePath: relativePath(workspaceRoot, issue.file),
+                line: issue.line,
+                column: issue.column
+            }));
+
+        return {
+            total: active.length,
+            baseline: lintIssues.length - active.length,
+            bySeverity: countBy(active, issue => issue.severity),
+            byCategory: countBy(active, issue => issue.category || 'Other'),
+            byModule: countBy(active, issue => moduleOf(issue.file)),
+            topFiles,
+            newIssues,
+            history: this.history.getSnapshots()
+        };
+    }
+
+    private async handleWebviewMessage(message: WebviewToExtensionMessage): Promise<void> {
+        switch (message.type) {
+            case 'openIssue': {
+                const position = new vscode.Position(Math.max(0, message.line - 1), Math.max(0, message.column - 1));
+                await vscode.window.showTextDocument(vscode.Uri.file(message.file), {
+                    selection: new vscode.Range(position, position),
+                    viewColumn: vscode.ViewColumn.Beside
+                });
+                break;
+            }
+            case 'runLint':
+                await vscode.commands.executeCommand(COMMANDS.LINT_PROJECT);
+                break;
+            case 'clearHistory':
+                await this.history.clear();
+                this.update();
+                break;
+        }
+    }
+
+    private getWebviewContent(): string {
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Lint Dashboard</title>
+    <style>
+        * {
+            box-sizing: border-box;
+        }
+
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            padding: 12px 20px;
+        }
+
+        h2 {
+            font-size: 13px;
+            font-weight: 600;
+            text-transform: uppercase;
+            margin: 24px 0 8px;
+            opacity: 0.8;
+        }
+
+        #toolbar {
+            display: flex;
+            gap: 8px;
+            align-items: center;
+        }
+
+        button {
+            padding: 4px 10px;
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            border-radius: 2px;
+            cursor: pointer;
+        }
+
+        button.secondary {
+            background-color: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+        }
+
+        /* Summary cards */
+        #cards {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 12px;
+            margin-top: 16px;
+        }
+
+        .card {
+            min-width: 120px;
+            padding: 10px 14px;
+            border: 1px solid var(--vscode-widget-border);
+            border-radius: 4px;
+        }
+
+        .card .value {
+            font-size: 24px;
+            font-weight: 600;
+        }
+
+        .card .label {
+            opacity: 0.8;
+        }
+
+        .sev-error .value { color: var(--vscode-errorForeground); }
+        .sev-warning .value { color: var(--vscode-editorWarning-foreground); }
+        .sev-information .value { color: var(--vscode-editorInfo-foreground); }
+        .sev-new .value { color: var(--vscode-charts-orange); }
+
+        .columns {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 32px;
+        }
+
+        .columns > div {
+            flex: 1;
+            min-width: 240px;
+        }
+
+        /* Bar lists */
+        .bar-row {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            margin: 3px 0;
+        }
+
+        .bar-label {
+            width: 40%;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+
+        .bar {
+            height: 10px;
+            background-color: var(--vscode-charts-blue);
+            border-radius: 2px;
+        }
+
+        .bar-count {
+            opacity: 0.8;
+        }
+
+        a {
+            color: var(--vscode-textLink-foreground);
+            cursor: pointer;
+            text-decoration: none;
+        }
+
+        a:hover {
+            text-decoration: underline;
+        }
+
+        /* History chart */
+        #history svg {
+            width: 100%;
+            height: 180px;
+        }
+
+        #history .line { fill: none; stroke: var(--vscode-charts-blue); stroke-width: 2; }
+        #history .point { fill: var(--vscode-charts-blue); }
+        #history .axis { stroke: var(--vscode-widget-border); }
+        #history text { fill: var(--vscode-descriptionForeground); font-size: 10px; }
+
+        /* New issues */
+        table {
+            border-collapse: collapse;
+            width: 100%;
+        }
+
+        td {
+            padding: 3px 8px 3px 0;
+            vertical-align: top;
+        }
+
+        .empty {
+            opacity: 0.7;
+            font-style: italic;
+        }
+    </style>
+</head>
+<body>
+    <div id="toolbar">
+        <button id="run-btn">Run Lint on Project</button>
+        <button id="clear-history-btn" class="secondary">Clear History</button>
+    </div>
+
+    <div id="cards"></div>
+
+    <div class="columns">
+        <div>
+            <h2>By Category</h2>
+            <div id="by-category"></div>
+        </div>
+        <div>
+            <h2>By Module</h2>
+            <div id="by-module"></div>
+        </div>
+    </div>
+
+    <h2>Top Files</h2>
+    <div id="top-files"></div>
+
+    <h2>History</h2>
+    <div id="history"></div>
+
+    <h2>New Since Last Run</h2>
+    <div id="new-issues"></div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+
+        document.getElementById('run-btn').addEventListener('click', () => {
+            vscode.postMessage({ type: 'runLint' });
+        });
+
+        document.getElementById('clear-history-btn').addEventListener('click', () => {
+            vscode.postMessage({ type: 'clearHistory' });
+        });
+
+        window.addEventListener('message', event => {
+            const msg = event.data;
+            switch (msg.type) {
+                case 'update':
+                    render(msg.data);
+                    break;
+            }
+        });
+
+        function render(data) {
+            renderCards(data);
+            renderBars(document.getElementById('by-category'), Object.entries(data.byCategory));
+            renderBars(document.getElementById('by-module'), Object.entries(data.byModule));
+            renderBars(
+                document.getElementById('top-files'),
+                data.topFiles.map(f => [f.relativePath, f.count, () => openIssue(f.file, 1, 1)])
+            );
+            renderHistory(data.history);
+            renderNewIssues(data.newIssues);
+        }
+
+        function renderCards(data) {
+            const cards = [
+                ['Total', data.total, ''],
+                ['Errors', data.bySeverity.error || 0, 'sev-error'],
+                ['Warnings', data.bySeverity.warning || 0, 'sev-warning'],
+                ['Info', data.bySeverity.information || 0, 'sev-information'],
+                ['New', data.newIssues.length, 'sev-new'],
+                ['In Baseline', data.baseline, '']
+            ];
+
+            const container = document.getElementById('cards');
+            container.innerHTML = '';
+            for (const [label, value, className] of cards) {
+                const card = document.createElement('div');
+                card.className = 'card ' + className;
+                const valueDiv = document.createElement('div');
+                valueDiv.className = 'value';
+                valueDiv.textContent = value;
+                const labelDiv = document.createElement('div');
+                labelDiv.className = 'label';
+                labelDiv.textContent = label;
+                card.appendChild(valueDiv);
+                card.appendChild(labelDiv);
+                container.appendChild(card);
+            }
+        }
+
+        function renderBars(container, entries) {
+            container.innerHTML = '';
+            if (entries.length === 0) {
+                container.appendChild(emptyMessage('No issues'));
+                return;
+            }
+
+            entries.sort((a, b) => b[1] - a[1]);
+            const max = entries[0][1];
+            for (const [label, count, onClick] of entries) {
+                const row = document.createElement('div');
+                row.className = 'bar-row';
+
+                const labelEl = document.createElement(onClick ? 'a' : 'span');
+                labelEl.className = 'bar-label';
+                labelEl.textContent = label;
+                labelEl.title = label;
+                if (onClick) {
+                    labelEl.addEventListener('click', onClick);
+                }
+
+                const bar = document.createElement('div');
+                bar.className = 'bar';
+                bar.style.width = Math.max(2, Math.round((count / max) * 45)) + '%';
+
+                const countEl = document.createElement('span');
+                countEl.className = 'bar-count';
+                countEl.textContent = count;
+
+                row.appendChild(labelEl);
+                row.appendChild(bar);
+                row.appendChild(countEl);
+                container.appendChild(row);
+            }
+        }
+
+        function renderHistory(history) {
+            const container = document.getElementById('history');
+            container.innerHTML = '';
+            if (history.length === 0) {
+                container.appendChild(emptyMessage('Run lint on the whole project to start recording history'));
+                return;
+            }
+
+            const width = 600, height = 180, pad = 28;
+            const max = Math.max(1, ...history.map(h => h.total));
+            const step = history.length > 1 ? (width - pad * 2) / (history.length - 1) : 0;
+            const x = i => pad + i * step;
+            const y = total => height - pad - (total / max) * (height - pad * 2);
+
+            const ns = 'http://www.w3.org/2000/svg';
+            const svg = document.createElementNS(ns, 'svg');
+            svg.setAttribute('viewBox', '0 0 ' + width + ' ' + height);
+            svg.setAttribute('preserveAspectRatio', 'none');
+
+            const axis = document.createElementNS(ns, 'line');
+            axis.setAttribute('class', 'axis');
+            axis.setAttribute('x1', pad);
+            axis.setAttribute('x2', width - pad);
+            axis.setAttribute('y1', height - pad);
+            axis.setAttribute('y2', height - pad);
+            svg.appendChild(axis);
+
+            const line = document.createElementNS(ns, 'polyline');
+            line.setAttribute('class', 'line');
+            line.setAttribute('points', history.map((h, i) => x(i) + ',' + y(h.total)).join(' '));
+            svg.appendChild(line);
+
+            history.forEach((h, i) => {
+                const point = document.createElementNS(ns, 'circle');
+                point.setAttribute('class', 'point');
+                point.setAttribute('cx', x(i));
+                point.setAttribute('cy', y(h.total));
+                point.setAttribute('r', 3);
+                const title = document.createElementNS(ns, 'title');
+                title.textContent = new Date(h.timestamp).toLocaleString() + ': ' + h.total +
+                    ' issue(s), ' + h.newIssues + ' new';
+                point.appendChild(title);
+                svg.appendChild(point);
+            });
+
+            const first = document.createElementNS(ns, 'text');
+            first.setAttribute('x', pad);
+            first.setAttribute('y', height - 8);
+            first.textContent = new Date(history[0].timestamp).toLocaleDateString();
+            svg.appendChild(first);
+
+            const top = document.createElementNS(ns, 'text');
+            top.setAttribute('x', 0);
+            top.setAttribute('y', pad);
+            top.textContent = max;
+            svg.appendChild(top);
+
+            container.appendChild(svg);
+        }
+
+        function renderNewIssues(issues) {
+            const container = document.getElementById('new-issues');
+            container.innerHTML = '';
+            if (issues.length === 0) {
+                container.appendChild(emptyMessage('No new issues since the last project run'));
+                return;
+            }
+
+            const table = document.createElement('table');
+            for (const issue of issues) {
+                const row = document.createElement('tr');
+
+                const idCell = document.createElement('td');
+                idCell.textContent = issue.id;
+                idCell.className = 'sev-' + issue.severity;
+
+                const locationCell = document.createElement('td');
+                const link = document.createElement('a');
+                link.textContent = issue.relativePath + ':' + issue.line;
+                link.addEventListener('click', () => openIssue(issue.file, issue.line, issue.column));
+                locationCell.appendChild(link);
+
+                const messageCell = document.createElement('td');
+                messageCell.textContent = issue.message;
+
+                row.appendChild(idCell);
+                row.appendChild(locationCell);
+                row.appendChild(messageCell);
+                table.appendChild(row);
+            }
+            container.appendChild(table);
+        }
+
+        function openIssue(file, line, column) {
+            vscode.postMessage({ type: 'openIssue', file, line, column });
+        }
+
+        function emptyMessage(text) {
+            const p = document.createElement('p');
+            p.className = 'empty';
+            p.textContent = text;
+            return p;
+        }
+    </script>
+</body>
+</html>`;
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        if (this.panel) {
+            this.panel.dispose();
+        }
+        LintDashboardPanel.instance = undefined;
+    }
+}
+
+/** Identity of an issue across runs; ignores line numbers so edits above it don't make it "new" */
+function issueKey(issue: LintIssue, workspaceRoot: string): string {
+    return `${issue.id}|${relativePath(workspaceRoot, issue.file)}|${issue.message}`;
+}
+
+function relativePath(workspaceRoot: string, file: string): string {
+    return workspaceRoot ? path.relative(workspaceRoot, file) : file;
+}
+
+function countBy<T>(items: T[], key: (item: T) => string): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const item of items) {
+        const value = key(item);
+        counts[value] = (counts[value] ?? 0) + 1;
+    }
+    return counts;
+}
@@ -0,0 +1,133 @@
+import * as vscode from 'vscode';
+import { QuickFix, QuickFixEdit } from './diagnosticProvider';
+import { findEnclosingTag, namespacePrefix, setAttribute } from './xmlEdits';
+
+/** Lint's markers for "insert at the start/end of the range" in `oldString` */
+const INSERT_BEGIN = '_lint_insert_begin_';
+const INSERT_END = '_lint_insert_end_';
+
+/**
+ * Convert a structured lint fix into a WorkspaceEdit, opening every file it touches.
+ * Returns undefined when an edit no longer matches the file (e.g. the code changed since lint ran).
+ */
+export async function createLintFixEdit(fix: QuickFix): Promise<vscode.WorkspaceEdit | undefined> {
+    const edits = fix.edits || [];
+    if (edits.length === 0) {
+        return undefined;
+    }
+
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    const documents = new Map<string, vscode.TextDocument>();
+
+    for (const edit of edits) {
+        let document = documents.get(edit.file);
+        if (!document) {
+            try {
+                document = await vscode.workspace.openTextDocument(vscode.Uri.file(edit.file));
+            } catch {
+                return undefined;
+            }
+            documents.set(edit.file, document);
+        }
+
+        const resolved = resolveEdit(document, edit);
+        if (!resolved) {
+            return undefined;
+        }
+        workspaceEdit.replace(document.uri, resolved.range, resolved.text);
+    }
+
+    return workspaceEdit;
+}
+
+function resolveEdit(
+    document: vscode.TextDocument,
+    edit: QuickFixEdit
+): { range: vscode.Range; text: string } | undefined {
+    const range = editRange(document, edit);
+
+    if (edit.attribute) {
+        const text = document.getText();
+        const tag = findEnclosingTag(text, document.offsetAt(range.start));
+        if (!tag) {
+            return undefined;
+        }
+        const prefix = edit.attribute.namespace ? namespacePrefix(text, edit.attribute.namespace) : undefined;
+        const name = prefix ? `${prefix}:${edit.attribute.name}` : edit.attribute.name;
+        const replacement = setAttribute(text, tag, name, edit.attribute.value);
+        if (!replacement) {
+            return undefined;
+        }
+        return {
+            range: new vscode.Range(document.positionAt(replacement.start), document.positionAt(replacement.end)),
+            text: replacement.text
+        };
+    }
+
+    if (edit.oldString === INSERT_BEGIN) {
+        return { range: new vscode.Range(range.start, range.start), text: edit.replacement };
+    }
+    if (edit.oldString === INSERT_END) {
+        return { range: new vscode.Range(range.end, range.end), text: edit.replacement };
+    }
+
+    const rangeText = document.getText(range);
+    const rangeStart = document.offsetAt(range.start);
+
+    if (edit.oldString) {
+        const index = rangeText.indexOf(edit.oldString);
+        if (index === -1) {
+            return undefined;
+        }
+        return {
+            range: new vscode.Range(
+                document.positionAt(rangeStart + index),
+                document.positionAt(rangeStart + index + edit.oldString.length)
+            ),
+            text: edit.replacement
+        };
+    }
+
+    if (edit.oldPattern) {
+        let match: RegExpExecArray | null;
+        try {
+            match = new RegExp(edit.oldPattern).exec(rangeText);
+        } catch {
+            return undefined;
+        }
+        if (!match) {
+            return undefined;
+        }
+
+        // Lint replaces the first group when the pattern has one, otherwise the whole match
+        const target = match[1] ?? match[0];
+        const offset = match.index + (match[1] !== undefined ? match[0].indexOf(match[1]) : 0);
+        return {
+            range: new vscode.Range(
+                document.positionAt(rangeStart + offset),
+                document.positionAt(rangeStart + offset + target.length)
+            ),
+            text: edit.replacement
+        };
+    }
+
+    return { range, text: edit.replacement };
+}
+
+function editRange(document: vscode.TextDocument, edit: QuickFixEdit): vscode.Range {
+    if (edit.startOffset !== undefined) {
+        const start = document.positionAt(edit.startOffset);
+        const end = document.positionAt(edit.endOffset ?? edit.startOffset);
+        return new vscode.Range(start, end);
+    }
+
+    const start = new vscode.Position(
+        Math.max(0, (edit.startLine ?? 1) - 1),
+        Math.max(0, (edit.startColumn ?? 1) - 1)
+    );
+    const end = new vscode.Position(
+        Math.max(0, (edit.endLine ?? edit.startLine ?? 1) - 1),
+        Math.max(0, (edit.endColumn ?? edit.startColumn ?? 1) - 1)
+    );
+    return document.validateRange(new vscode.Range(start, end));
+}
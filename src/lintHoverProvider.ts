@@ -0,0 +1,62 @@
+import * as vscode from 'vscode';
+import { DiagnosticProvider, LintIssue } from './diagnosticProvider';
+import { lintIssueDocsUrl } from './lintIssuesView';
+
+/**
+ * Shows the full lint explanation, priority and documentation links
+ * when hovering a range reported by Android Lint.
+ */
+export class LintHoverProvider implements vscode.HoverProvider {
+    constructor(private readonly diagnosticProvider: DiagnosticProvider) {}
+
+    provideHover(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): vscode.Hover | undefined {
+        const issues = this.diagnosticProvider.getIssuesAt(document, position)
+            .filter(issue => issue.source === 'Android Lint');
+        if (issues.length === 0) {
+            return undefined;
+        }
+
+        const markdown = new vscode.MarkdownString();
+        issues.forEach((issue, index) => {
+            if (index > 0) {
+                markdown.appendMarkdown('\n\n---\n\n');
+            }
+            this.appendIssue(markdown, issue);
+        });
+
+        const range = this.diagnosticProvider.issueRange(issues[0], document);
+        return new vscode.Hover(markdown, range);
+    }
+
+    private appendIssue(markdown: vscode.MarkdownString, issue: LintIssue): void {
+        markdown.appendMarkdown(`**${issue.summary || issue.id}** \`${issue.id}\`\n\n`);
+
+        const details = [issue.category, issue.severity];
+        if (issue.priority !== undefined) {
+            details.push(`priority ${issue.priority}/10`);
+        }
+        markdown.appendMarkdown(`_${details.join(' · ')}_\n\n`);
+
+        markdown.appendText(issue.message);
+
+        if (issue.explanation) {
+            markdown.appendMarkdown('\n\n');
+            markdown.appendText(issue.explanation);
+        }
+
+        const urls = issue.urls && issue.urls.length > 0 ? issue.urls : [lintIssueDocsUrl(issue.id)];
+        markdown.appendMarkdown('\n\n');
+        markdown.appendMarkdown(urls.map(url => `[${this.linkLabel(url)}](${url})`).join(' · '));
+    }
+
+    private linkLabel(url: string): string {
+        try {
+            return new URL(url).hostname;
+        } catch {
+            return url;
+        }
+    }
+}
@@ -0,0 +1,265 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DiagnosticProvider, LintIssue } from './diagnosticProvider';
+import { CONFIG_NAMESPACE, CONFIG_KEYS } from './constants';
+
+type LintTreeItemType =
+    | 'category'
+    | 'issue-id'
+    | 'file'
+    | 'issue';
+
+type Severity = LintIssue['severity'];
+
+const SEVERITY_ORDER: Record<Severity, number> = { error: 0, warning: 1, information: 2 };
+const SEVERITY_LABELS: Record<Severity, string> = { error: 'Error', warning: 'Warning', information: 'Information' };
+
+/**
+ * "Lint Issues" view: known lint issues grouped category → issue id → file,
+ * similar to Android Studio's inspection results.
+ */
+export class LintIssuesView implements vscode.TreeDataProvider<LintTreeNode>, vscode.Disposable {
+    private _onDidChangeTreeData: vscode.EventEmitter<LintTreeNode | undefined | null | void> = new vscode.EventEmitter<LintTreeNode | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<LintTreeNode | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    private textFilter = '';
+    private severityFilter = new Set<Severity>(['error', 'warning', 'information']);
+    private treeView?: vscode.TreeView<LintTreeNode>;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly diagnosticProvider: DiagnosticProvider) {
+        this.disposables.push(
+            diagnosticProvider.onDidChangeIssues(() => this.refresh()),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration(`${CONFIG_NAMESPACE}.${CONFIG_KEYS.LINT_SHOW_BASELINE_ISSUES}`)) {
+                    this.refresh();
+                }
+            })
+        );
+    }
+
+    setTreeView(treeView: vscode.TreeView<LintTreeNode>): void {
+        this.treeView = treeView;
+        this.updateDescription();
+    }
+
+    refresh(): void {
+        this.updateDescription();
+        this._onDidChangeTreeData.fire();
+    }
+
+    async promptTextFilter(): Promise<void> {
+        const value = await vscode.window.showInputBox({
+            title: 'Filter Lint Issues',
+            prompt: 'Show issues whose id, message, category or file contains this text',
+            value: this.textFilter
+        });
+        if (value !== undefined) {
+            this.textFilter = value.trim();
+            this.refresh();
+        }
+    }
+
+    async promptSeverityFilter(): Promise<void> {
+        const picks = await vscode.window.showQuickPick(
+            (Object.keys(SEVERITY_LABELS) as Severity[]).map(severity => ({
+                label: SEVERITY_LABELS[severity],
+                severity,
+                picked: this.severityFilter.has(severity)
+            })),
+            { canPickMany: true, title: 'Show Lint Severities' }
+        );
+        if (picks) {
+            this.severityFilter = new Set(picks.map(pick => pick.severity));
+            this.refresh();
+        }
+    }
+
+    clearFilter(): void {
+        this.textFilter = '';
+        this.severityFilter = new Set<Severity>(['error', 'warning', 'information']);
+        this.refresh();
+    }
+
+    getTreeItem(element: LintTreeNode): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(element?: LintTreeNode): LintTreeNode[] {
+        if (!element) {
+            return this.getCategoryNodes(this.getVisibleIssues());
+        }
+
+        switch (element.type) {
+            case 'category':
+                return this.getIssueIdNodes(element.issues);
+            case 'issue-id':
+                return this.getFileNodes(element.issues);
+            case 'file':
+                return this.getIssueNodes(element.issues);
+            default:
+                return [];
+        }
+    }
+
+    private getVisibleIssues(): LintIssue[] {
+        const showBaseline = vscode.workspace.getConfiguration(CONFIG_NAMESPACE)
+            .get<boolean>(CONFIG_KEYS.LINT_SHOW_BASELINE_ISSUES, false);
+        const text = this.textFilter.toLowerCase();
+
+        return this.diagnosticProvider.getAllIssues().filter(issue => {
+            if (issue.inBaseline && !showBaseline) {
+                return false;
+            }
+            if (this.diagnosticProvider.isFilteredOut(issue)) {
+                return false;
+            }
+            if (!this.severityFilter.has(issue.severity)) {
+                return false;
+            }
+            if (!text) {
+                return true;
+            }
+            return [issue.id, issue.message, issue.category, issue.file]
+                .some(value => value.toLowerCase().includes(text));
+        });
+    }
+
+    private getCategoryNodes(issues: LintIssue[]): LintTreeNode[] {
+        return Array.from(groupBy(issues, issue => issue.category || 'General'))
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([category, categoryIssues]) => {
+                const node = new LintTreeNode(category, 'category', vscode.TreeItemCollapsibleState.Expanded, categoryIssues);
+                node.iconPath = new vscode.ThemeIcon('folder');
+                node.description = `${categoryIssues.length}`;
+                return node;
+            });
+    }
+
+    private getIssueIdNodes(issues: LintIssue[]): LintTreeNode[] {
+        return Array.from(groupBy(issues, issue => issue.id))
+            .map(([id, idIssues]) => ({ id, idIssues, severity: mostSevere(idIssues) }))
+            .sort((a, b) =>
+                SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] ||
+                b.idIssues.length - a.idIssues.length ||
+                a.id.localeCompare(b.id))
+            .map(({ id, idIssues, severity }) => {
+                const node = new LintTreeNode(id, 'issue-id', vscode.TreeItemCollapsibleState.Collapsed, idIssues);
+                node.iconPath = severityIcon(severity);
+                node.description = `${idIssues.length}`;
+                node.tooltip = `${id} (${SEVERITY_LABELS[severity]})\n${idIssues[0].message}`;
+                node.contextValue = 'lintIssueId';
+                return node;
+            });
+    }
+
+    private getFileNodes(issues: LintIssue[]): LintTreeNode[] {
+        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+
+        return Array.from(groupBy(issues, issue => issue.file))
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([file, fileIssues]) => {
+                const node = new LintTreeNode(path.basename(file), 'file', vscode.TreeItemCollapsibleState.Collapsed, fileIssues);
+                node.resourceUri = vscode.Uri.file(file);
+                node.iconPath = vscode.ThemeIcon.File;
+                const dir = workspaceRoot ? path.relative(workspaceRoot, path.dirname(file)) : path.dirname(file);
+                node.description = `${fileIssues.length} · ${dir}`;
+                node.tooltip = file;
+                return node;
+            });
+    }
+
+    private getIssueNodes(issues: LintIssue[]): LintTreeNode[] {
+        return [...issues]
+            .sort((a, b) => a.line - b.line || a.column - b.column)
+            .map(issue => {
+                const node = new LintTreeNode(`Line ${issue.line}`, 'issue', vscode.TreeItemCollapsibleState.None, [issue]);
+                node.description = issue.message;
+                node.tooltip = `${issue.id}: ${issue.message}\n${issue.file}:${issue.line}:${issue.column}`;
+                node.iconPath = severityIcon(issue.severity);
+                node.contextValue = 'lintIssue';
+
+                const line = Math.max(0, issue.line - 1);
+                const column = Math.max(0, issue.column - 1);
+                node.command = {
+                    command: 'vscode.open',
+                    title: 'Open Issue',
+                    arguments: [
+                        vscode.Uri.file(issue.file),
+                        { selection: new vscode.Range(line, column, line, column) }
+                    ]
+                };
+                return node;
+            });
+    }
+
+    private updateDescription(): void {
+        if (!this.treeView) {
+            return;
+        }
+
+        const filters: string[] = [];
+        if (this.textFilter) {
+            filters.push(`"${this.textFilter}"`);
+        }
+        if (this.severityFilter.size < Object.keys(SEVERITY_LABELS).length) {
+            filters.push(Array.from(this.severityFilter).map(severity => SEVERITY_LABELS[severity]).join('/') || 'no severities');
+        }
+
+        const total = this.getVisibleIssues().length;
+        this.treeView.description = filters.length > 0 ? `${total} · filtered by ${filters.join(', ')}` : `${total}`;
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this._onDidChangeTreeData.dispose();
+    }
+}
+
+export class LintTreeNode extends vscode.TreeItem {
+    constructor(
+        public readonly label: string,
+        public readonly type: LintTreeItemType,
+        public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+        public readonly issues: LintIssue[]
+    ) {
+        super(label, collapsibleState);
+    }
+}
+
+/**
+ * Documentation page of a lint check.
+ */
+export function lintIssueDocsUrl(issueId: string): string {
+    return `https://googlesamples.github.io/android-custom-lint-rules/checks/${issueId}.md.html`;
+}
+
+function groupBy(issues: LintIssue[], key: (issue: LintIssue) => string): Map<string, LintIssue[]> {
+    const groups = new Map<string, LintIssue[]>();
+    for (const issue of issues) {
+        const value = key(issue);
+        if (!groups.has(value)) {
+            groups.set(value, []);
+        }
+        groups.get(value)!.push(issue);
+    }
+    return groups;
+}
+
+function mostSevere(issues: LintIssue[]): Severity {
+    return issues.reduce<Severity>(
+        (current, issue) => SEVERITY_ORDER[issue.severity] < SEVERITY_ORDER[current] ? issue.severity : current,
+        'information'
+    );
+}
+
+function severityIcon(severity: Severity): vscode.ThemeIcon {
+    switch (severity) {
+        case 'error':
+            return new vscode.ThemeIcon('error', new vscode.ThemeColor('problemsErrorIcon.foreground'));
+        case 'warning':
+            return new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'));
+        default:
+            return new vscode.ThemeIcon('info', new vscode.ThemeColor('problemsInfoIcon.foreground'));
+    }
+}
@@ -1,8 +1,9 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { DiagnosticProvider, LintIssue } from './diagnosticProvider';
+import { DiagnosticProvider, LintIssue, LintRunScope } from './diagnosticProvider';
 import { GradleLintRunner } from './gradleLintRunner';
-import { GradleProcessManager } from './gradleProcessManager';
+import { GradleCommandError, GradleProcessManager, formatGradleProgress } from './gradleProcessManager';
+import { VariantManager } from './build/variantManager';
 import { CONFIG_NAMESPACE, CONFIG_KEYS, OUTPUT_CHANNELS } from './constants';
 import { Logger } from './logger';
 
@@ -18,12 +19,13 @@ export class LintManager implements vscode.Disposable {
     constructor(
         diagnosticProvider: DiagnosticProvider,
         gradleManager: GradleProcessManager,
-        outputChannel?: vscode.OutputChannel
+        outputChannel?: vscode.OutputChannel,
+        variantManager?: VariantManager
     ) {
         this.diagnosticProvider = diagnosticProvider;
         const channel = outputChannel || vscode.window.createOutputChannel(OUTPUT_CHANNELS.MAIN);
         this.logger = Logger.create(channel, 'LintManager');
-        this.gradleLintRunner = new GradleLintRunner(gradleManager, channel);
+        this.gradleLintRunner = new GradleLintRunner(gradleManager, channel, variantManager);
     }
 
     public async lintFile(document: vscode.TextDocument): Promise<void> {
@@ -76,6 +78,7 @@ export class LintManager implements vscode.Disposable {
         this.logger.debug(`Starting lint for: ${document.fileName}`);
         this.logger.log(`   Workspace: ${workspaceFolder.uri.fsPath}`);
 
+        const run = this.diagnosticProvider.beginRun(this.scopeForFile(workspaceFolder.uri.fsPath, document.uri.fsPath));
         let issues: LintIssue[] = [];
         let errorCount = 0;
         let warningCount = 0;
@@ -109,12 +112,11 @@ export class LintManager implements vscode.Disposable {
                 return;
             }
 
-            // Clear and add all issues
-            this.diagnosticProvider.clear();
+            // Replace the issues of the linted scope, keeping diagnostics elsewhere
+            this.logger.log(`📊 Merging ${issues.length} issues into Problems panel...`);
+            this.diagnosticProvider.applyRun(run, issues);
 
             if (issues.length > 0) {
-                this.logger.log(`📊 Adding ${issues.length} issues to Problems panel...`);
-                this.diagnosticProvider.addIssues(issues);
                 this.logger.success('Issues added to Problems panel');
 
                 if (errorCount > 0) {
@@ -130,6 +132,10 @@ export class LintManager implements vscode.Disposable {
                 vscode.window.showInformationMessage('Android Lint: No issues found! ✓');
             }
         } catch (error) {
+            if (error instanceof GradleCommandError && error.cancelled) {
+                // Keep the diagnostics of the last completed run
+                return;
+            }
             const errorMsg = `Failed to lint file: ${error instanceof Error ? error.message : String(error)}`;
             this.logger.error(errorMsg);
             // Error notification already shown in GradleLintRunner, don't duplicate
@@ -153,13 +159,13 @@ export class LintManager implements vscode.Disposable {
                     cancellable: true
                 },
                 async (progress, token) => {
-                    // Clear existing diagnostics
-                    this.diagnosticProvider.clear();
+                    const run = this.diagnosticProvider.beginRun({ kind: 'project' });
 
-                    // Run full project lint
+                    // Run full project lint, showing the Gradle task being executed
                     const issues = await this.gradleLintRunner.lintProject(
                         workspaceFolder.uri.fsPath,
-                        token
+                        token,
+                        gradleProgress => progress.report({ message: formatGradleProgress(gradleProgress) })
                     );
 
                     if (token.isCancellationRequested) {
@@ -171,8 +177,8 @@ export class LintManager implements vscode.Disposable {
                     }
 
                     // Update diagnostics
+                    this.diagnosticProvider.applyRun(run, issues);
                     if (issues.length > 0) {
-                        this.diagnosticProvider.addIssues(issues);
                         vscode.window.showInformationMessage(
                             `Android Lint found ${issues.length} issue(s)`
                         );
@@ -182,12 +188,91 @@ export class LintManager implements vscode.Disposable {
                 }
             );
         } catch (error) {
+            if (error instanceof GradleCommandError && error.cancelled) {
+                return;
+            }
             vscode.window.showErrorMessage(
                 `Failed to lint project: ${error instanceof Error ? error.message : String(error)}`
             );
         }
     }
 
+    /**
+     * Create or refresh the lint baseline, then re-mark the issues currently shown.
+     */
+    public async updateBaseline(mode: 'create' | 'refresh'): Promise<void> {
+        const workspaceFolders = vscode.workspace.workspaceFolders;
+        if (!workspaceFolders || workspaceFolders.length === 0) {
+            vscode.window.showWarningMessage('No workspace folder found');
+            return;
+        }
+
+        const workspaceRoot = workspaceFolders[0].uri.fsPath;
+        const module = this.gradleLintRunner.resolveModule(workspaceRoot, vscode.window.activeTextEditor?.document.uri.fsPath);
+        const existing = this.gradleLintRunner.findBaseline(module);
+
+        if (mode === 'create' && existing) {
+            const answer = await vscode.window.showWarningMessage(
+                `A lint baseline already exists at ${path.relative(workspaceRoot, existing)}. Replace it with the current issues?`,
+                'Replace', 'Cancel'
+            );
+            if (answer !== 'Replace') {
+                return;
+            }
+        } else if (mode === 'refresh' && !existing) {
+            const answer = await vscode.window.showInformationMessage(
+                `Module ${module.path} has no lint baseline yet. Create one from the current issues?`,
+                'Create', 'Cancel'
+            );
+            if (answer !== 'Create') {
+                return;
+            }
+        }
+
+        try {
+            const baselinePath = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Updating Android Lint baseline for ${module.path}...`,
+                    cancellable: true
+                },
+                (_progress, token) => this.gradleLintRunner.updateBaseline(workspaceRoot, module, token)
+            );
+
+            if (!baselinePath) {
+                vscode.window.showWarningMessage('Android Lint: Gradle finished but no baseline file was written.');
+                return;
+            }
+
+            const issues = await this.gradleLintRunner.applyBaseline(workspaceRoot, this.diagnosticProvider.getAllIssues());
+            this.diagnosticProvider.addIssues(issues);
+
+            const action = await vscode.window.showInformationMessage(
+                `Android Lint baseline written to ${path.relative(workspaceRoot, baselinePath)}`,
+                'Open Baseline'
+            );
+            if (action === 'Open Baseline') {
+                await vscode.window.showTextDocument(vscode.Uri.file(baselinePath));
+            }
+        } catch (error) {
+            const errorMsg = error instanceof Error ? error.message : String(error);
+            this.logger.error(`Failed to update lint baseline: ${errorMsg}`);
+            vscode.window.showErrorMessage(`Android Lint: Failed to update baseline: ${errorMsg}`);
+        }
+    }
+
+    /**
+     * The part of the project a lint of `filePath` covers, matching what the runner lints.
+     */
+    private scopeForFile(workspaceRoot: string, filePath: string): LintRunScope {
+        const config = vscode.workspace.getConfiguration(CONFIG_NAMESPACE);
+        if ((config.get<string>(CONFIG_KEYS.LINT_SCOPE) || 'module') === 'project') {
+            return { kind: 'project' };
+        }
+
+        return { kind: 'module', dir: this.gradleLintRunner.resolveModule(workspaceRoot, filePath).dir };
+    }
+
     public dispose(): void {
         this.gradleLintRunner.dispose();
         this.pendingLints.clear();
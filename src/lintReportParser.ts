@@ -2,10 +2,204 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import { createReadStream } from 'fs';
 import { ReadStream } from 'fs';
+import { fileURLToPath } from 'url';
 import { createStream, QualifiedTag, SAXStream } from 'sax';
-import { LintIssue, QuickFix } from './diagnosticProvider';
+import { LintIssue, LintLocation, QuickFix, QuickFixEdit } from './diagnosticProvider';
 import { Logger } from './logger';
 
+/**
+ * Subset of the SARIF 2.1 schema that Android Lint emits.
+ */
+interface SarifLog {
+    runs?: SarifRun[];
+}
+
+interface SarifRun {
+    tool?: { driver?: { rules?: SarifRule[] } };
+    originalUriBaseIds?: Record<string, SarifArtifactLocation>;
+    results?: SarifResult[];
+}
+
+interface SarifRule {
+    id: string;
+    shortDescription?: { text?: string };
+    fullDescription?: { text?: string };
+    helpUri?: string;
+    defaultConfiguration?: { level?: string };
+    properties?: { tags?: string[] };
+}
+
+interface SarifResult {
+    ruleId?: string;
+    ruleIndex?: number;
+    level?: string;
+    message?: { text?: string };
+    locations?: Array<{ physicalLocation?: SarifPhysicalLocation }>;
+    relatedLocations?: Array<{ physicalLocation?: SarifPhysicalLocation; message?: { text?: string } }>;
+    fixes?: SarifFix[];
+}
+
+interface SarifPhysicalLocation {
+    artifactLocation?: SarifArtifactLocation;
+    region?: SarifRegion;
+}
+
+interface SarifArtifactLocation {
+    uri?: string;
+    uriBaseId?: string;
+}
+
+interface SarifRegion {
+    startLine?: number;
+    startColumn?: number;
+    endLine?: number;
+    endColumn?: number;
+    charOffset?: number;
+    charLength?: number;
+}
+
+interface SarifFix {
+    description?: { text?: string };
+    artifactChanges?: Array<{
+        artifactLocation?: SarifArtifactLocation;
+        replacements?: Array<{
+            deletedRegion?: SarifRegion;
+            insertedContent?: { text?: string };
+        }>;
+    }>;
+}
+
+/**
+ * Collects lint's structured fixes (`<fix-replace>`, `<fix-attribute>`, `<fix-composite>`,
+ * `<fix-alternatives>`, and generic `<fix>`/`<edit>` elements) while an `<issue>` is parsed.
+ * Composite fixes become one quick fix with several edits; alternatives become separate fixes.
+ */
+class XmlFixCollector {
+    public fixes: QuickFix[] = [];
+    private groups: QuickFix[] = [];
+    private leaf: { fix: QuickFix; template: Omit<QuickFixEdit, 'file'> } | undefined;
+
+    constructor(private readonly workspaceRoot: string) {}
+
+    /** Returns true when the tag belonged to a fix */
+    public open(name: string, attrs: Record<string, string>): boolean {
+        const title = attrs.description || attrs.displayName || 'Apply lint fix';
+        switch (name) {
+            case 'fix':
+            case 'fix-composite':
+                this.groups.push({ title, edits: [] });
+                return true;
+            case 'fix-alternatives':
+                return true;
+            case 'fix-replace':
+                this.leaf = {
+                    fix: { title, edits: [] },
+                    template: {
+                        replacement: attrs.replacement ?? '',
+                        oldString: attrs.oldString,
+                        oldPattern: attrs.oldPattern
+                    }
+                };
+                return true;
+            case 'fix-attribute':
+                this.leaf = {
+                    fix: { title, edits: [] },
+                    template: {
+                        replacement: '',
+                        attribute: { namespace: attrs.namespace, name: attrs.attribute, value: attrs.value }
+                    }
+                };
+                return true;
+            case 'range':
+                if (this.leaf && attrs.file) {
+                    this.leaf.fix.edits!.push({
+                        ...this.leaf.template,
+                        file: this.resolve(attrs.file),
+                        startOffset: this.toNumber(attrs.startOffset),
+                        endOffset: this.toNumber(attrs.endOffset)
+                    });
+                }
+                return true;
+            case 'edit': {
+                const group = this.groups[this.groups.length - 1];
+                if (group) {
+                    group.edits!.push({
+                        file: attrs.file ? this.resolve(attrs.file) : '',
+                        startOffset: this.toNumber(attrs.startOffset),
+                        endOffset: this.toNumber(attrs.endOffset),
+                        startLine: this.toNumber(attrs.startLine ?? attrs.line),
+                        startColumn: this.toNumber(attrs.startColumn ?? attrs.column),
+                        endLine: this.toNumber(attrs.endLine),
+                        endColumn: this.toNumber(attrs.endColumn),
+                        replacement: attrs.replacement ?? ''
+                    });
+                }
+                return true;
+            }
+            default:
+                return false;
+        }
+    }
+
+    public close(name: string): void {
+        if (name === 'fix-replace' || name === 'fix-attribute') {
+            if (!this.leaf) {
+                return;
+            }
+            // Without a <range>, the fix applies to the issue's own location
+            if (this.leaf.fix.edits!.length === 0) {
+                this.leaf.fix.edits!.push({ ...this.leaf.template, file: '' });
+            }
+            this.add(this.leaf.fix);
+            this.leaf = undefined;
+        } else if (name === 'fix' || name === 'fix-composite') {
+            const group = this.groups.pop();
+            if (group && group.edits!.length > 0) {
+                this.add(group);
+            }
+        }
+    }
+
+    /**
+     * Point edits without their own range at the issue's primary location.
+     */
+    public complete(issue: LintIssue): QuickFix[] | undefined {
+        const highlight = issue.errorLine2?.match(/~+/)?.[0].length ?? 0;
+        for (const fix of this.fixes) {
+            for (const edit of fix.edits || []) {
+                if (edit.file) {
+                    continue;
+                }
+                edit.file = issue.file;
+                if (edit.startOffset === undefined && edit.startLine === undefined) {
+                    edit.startLine = issue.line;
+                    edit.startColumn = issue.column;
+                    edit.endLine = issue.endLine ?? issue.line;
+                    edit.endColumn = issue.endColumn ?? issue.column + highlight;
+                }
+            }
+        }
+        return this.fixes.length > 0 ? this.fixes : undefined;
+    }
+
+    private add(fix: QuickFix): void {
+        const group = this.groups[this.groups.length - 1];
+        if (group) {
+            group.edits!.push(...(fix.edits || []));
+        } else {
+            this.fixes.push(fix);
+        }
+    }
+
+    private resolve(file: string): string {
+        return path.isAbsolute(file) ? file : path.join(this.workspaceRoot, file);
+    }
+
+    private toNumber(value: string | undefined): number | undefined {
+        return value !== undefined && value !== '' ? parseInt(value, 10) : undefined;
+    }
+}
+
 export class LintReportParser {
     private logger?: Logger;
 
@@ -25,8 +219,10 @@ export class LintReportParser {
         this.log(`Starting XML streaming parse: ${reportPath}`);
 
         return await new Promise<LintIssue[]>((resolve, reject) => {
-            let currentIssue: { id: string; severity: string; message: string; category?: string; quickfix?: string } | null = null;
-            let locationCaptured = false;
+            let currentIssue: Record<string, string> | null = null;
+            let primaryLocation: Record<string, string> | undefined;
+            let secondaryLocations: LintLocation[] = [];
+            let fixCollector = new XmlFixCollector(workspaceRoot);
             const parser: SAXStream = createStream(true, { trim: false, normalize: false });
             let stream: ReadStream | undefined;
             let isRejected = false;
@@ -54,9 +250,24 @@ export class LintReportParser {
                     source: 'Android Lint',
                     id: currentIssue.id || 'UnknownId',
                     category: currentIssue.category || 'General',
-                    quickFix: this.extractQuickFix(currentIssue.id, currentIssue.message, currentIssue.quickfix)
+                    quickFix: this.extractQuickFix(currentIssue.id, currentIssue.message, currentIssue.quickfix),
+                    explanation: currentIssue.explanation,
+                    summary: currentIssue.summary,
+                    urls: this.parseUrls(currentIssue.url, currentIssue.urls),
+                    priority: currentIssue.priority ? parseInt(currentIssue.priority, 10) : undefined,
+                    errorLine1: currentIssue.errorLine1,
+                    errorLine2: currentIssue.errorLine2,
+                    secondaryLocations: secondaryLocations.length > 0 ? secondaryLocations : undefined
                 };
 
+                // Newer reports carry the full range on the location itself
+                if (locationAttrs.endLine && locationAttrs.endColumn) {
+                    lintIssue.endLine = parseInt(locationAttrs.endLine, 10);
+                    lintIssue.endColumn = parseInt(locationAttrs.endColumn, 10);
+                }
+
+                lintIssue.fixes = fixCollector.complete(lintIssue);
+
                 this.log(`Created lint issue: ${lintIssue.id} in ${path.basename(lintIssue.file)}:${lintIssue.line}`);
                 issues.push(lintIssue);
             };
@@ -65,27 +276,45 @@ export class LintReportParser {
                 if (node.name === 'issue') {
                     const attrs = node.attributes as Record<string, string>;
                     currentIssue = {
+                        ...attrs,
                         id: attrs.id || 'UnknownId',
                         severity: attrs.severity || 'information',
-                        message: attrs.message || 'Unknown issue',
-                        category: attrs.category,
-                        quickfix: attrs.quickfix
+                        message: attrs.message || 'Unknown issue'
                     };
-                    locationCaptured = false;
+                    primaryLocation = undefined;
+                    secondaryLocations = [];
+                    fixCollector = new XmlFixCollector(workspaceRoot);
+                    return;
+                }
+
+                if (currentIssue && fixCollector.open(node.name, node.attributes as Record<string, string>)) {
                     return;
                 }
 
-                if (node.name === 'location' && currentIssue && !locationCaptured) {
+                if (node.name === 'location' && currentIssue) {
                     const attrs = node.attributes as Record<string, string>;
-                    pushIssue(attrs);
-                    locationCaptured = true;
+                    if (!primaryLocation) {
+                        primaryLocation = attrs;
+                    } else if (attrs.file) {
+                        secondaryLocations.push({
+                            file: path.isAbsolute(attrs.file) ? attrs.file : path.join(workspaceRoot, attrs.file),
+                            line: parseInt(attrs.line || '1', 10),
+                            column: parseInt(attrs.column || '1', 10),
+                            message: attrs.message
+                        });
+                    }
                 }
             });
 
             parser.on('closetag', (tagName: string) => {
+                fixCollector.close(tagName);
                 if (tagName === 'issue') {
+                    if (primaryLocation) {
+                        pushIssue(primaryLocation);
+                    }
                     currentIssue = null;
-                    locationCaptured = false;
+                    primaryLocation = undefined;
+                    secondaryLocations = [];
                 }
             });
 
@@ -146,7 +375,8 @@ export class LintReportParser {
                     source: 'Android Lint',
                     id: issue.id || 'UnknownId',
                     category: issue.category || 'General',
-                    quickFix: this.extractQuickFix(issue.id, issue.message, issue.quickfix)
+                    quickFix: this.extractQuickFix(issue.id, issue.message, issue.quickfix),
+                    fixes: this.convertJsonFixes(issue.fixes, filePath, workspaceRoot)
                 };
 
                 issues.push(lintIssue);
@@ -158,6 +388,207 @@ export class LintReportParser {
         return issues;
     }
 
+    /**
+     * Parse a SARIF 2.1 report as written by `lint { sarifReport = true }`.
+     * Rule metadata supplies the category, regions supply the full range and
+     * `fixes[]` is converted into structured quick fixes.
+     */
+    public parseSarifReport(sarifContent: string, workspaceRoot: string): LintIssue[] {
+        const issues: LintIssue[] = [];
+
+        try {
+            const report = JSON.parse(sarifContent) as SarifLog;
+
+            for (const run of report.runs || []) {
+                const rules = run.tool?.driver?.rules || [];
+                const rulesById = new Map<string, SarifRule>();
+                for (const rule of rules) {
+                    if (rule.id) {
+                        rulesById.set(rule.id, rule);
+                    }
+                }
+
+                const baseUris = run.originalUriBaseIds || {};
+
+                for (const result of run.results || []) {
+                    const rule = result.ruleId
+                        ? rulesById.get(result.ruleId)
+                        : (result.ruleIndex !== undefined ? rules[result.ruleIndex] : undefined);
+                    const issueId = result.ruleId || rule?.id || 'UnknownId';
+
+                    const physicalLocation = result.locations?.[0]?.physicalLocation;
+                    const filePath = this.resolveSarifUri(physicalLocation?.artifactLocation, baseUris, workspaceRoot);
+                    if (!filePath) {
+                        continue;
+                    }
+
+                    const region = physicalLocation?.region;
+                    const level = result.level || rule?.defaultConfiguration?.level || 'warning';
+                    const message = result.message?.text || rule?.shortDescription?.text || 'Unknown issue';
+
+                    const lintIssue: LintIssue = {
+                        file: filePath,
+                        line: region?.startLine || 1,
+                        column: region?.startColumn || 1,
+                        endLine: region?.endLine ?? (region?.endColumn !== undefined ? region?.startLine : undefined),
+                        endColumn: region?.endColumn,
+                        severity: this.mapSeverity(level),
+                        message,
+                        source: 'Android Lint',
+                        id: issueId,
+                        category: rule?.properties?.tags?.[0] || 'General',
+                        quickFix: this.extractQuickFix(issueId, message),
+                        fixes: this.convertSarifFixes(result.fixes, baseUris, workspaceRoot),
+                        summary: rule?.shortDescription?.text,
+                        explanation: rule?.fullDescription?.text,
+                        urls: rule?.helpUri ? [rule.helpUri] : undefined,
+                        secondaryLocations: this.convertSarifRelatedLocations(result.relatedLocations, baseUris, workspaceRoot)
+                    };
+
+                    issues.push(lintIssue);
+                }
+            }
+
+            this.log(`Total SARIF issues parsed: ${issues.length}`);
+        } catch (error) {
+            this.log(`Failed to parse SARIF lint report: ${error}`);
+        }
+
+        return issues;
+    }
+
+    /**
+     * Convert `fixes: [{ description, edits: [{ file, startOffset, endOffset, replacement }] }]`
+     * from a JSON report. Edits without a file apply to the issue's file.
+     */
+    private convertJsonFixes(fixes: unknown, issueFile: string, workspaceRoot: string): QuickFix[] | undefined {
+        if (!Array.isArray(fixes)) {
+            return undefined;
+        }
+
+        const converted: QuickFix[] = [];
+        for (const fix of fixes) {
+            const edits: QuickFixEdit[] = (Array.isArray(fix?.edits) ? fix.edits : []).map((edit: Record<string, unknown>) => ({
+                file: typeof edit.file === 'string'
+                    ? (path.isAbsolute(edit.file) ? edit.file : path.join(workspaceRoot, edit.file))
+                    : issueFile,
+                startOffset: typeof edit.startOffset === 'number' ? edit.startOffset : undefined,
+                endOffset: typeof edit.endOffset === 'number' ? edit.endOffset : undefined,
+                startLine: typeof edit.startLine === 'number' ? edit.startLine : undefined,
+                startColumn: typeof edit.startColumn === 'number' ? edit.startColumn : undefined,
+                endLine: typeof edit.endLine === 'number' ? edit.endLine : undefined,
+                endColumn: typeof edit.endColumn === 'number' ? edit.endColumn : undefined,
+                replacement: typeof edit.replacement === 'string' ? edit.replacement : ''
+            }));
+
+            if (edits.length > 0) {
+                converted.push({ title: fix.description || 'Apply lint fix', edits });
+            }
+        }
+
+        return converted.length > 0 ? converted : undefined;
+    }
+
+    private convertSarifRelatedLocations(
+        relatedLocations: SarifResult['relatedLocations'],
+        baseUris: Record<string, SarifArtifactLocation>,
+        workspaceRoot: string
+    ): LintLocation[] | undefined {
+        const locations: LintLocation[] = [];
+        for (const related of relatedLocations || []) {
+            const file = this.resolveSarifUri(related.physicalLocation?.artifactLocation, baseUris, workspaceRoot);
+            if (file) {
+                locations.push({
+                    file,
+                    line: related.physicalLocation?.region?.startLine || 1,
+                    column: related.physicalLocation?.region?.startColumn || 1,
+                    message: related.message?.text
+                });
+            }
+        }
+        return locations.length > 0 ? locations : undefined;
+    }
+
+    /**
+     * Combine the report's `url` and comma-separated `urls` attributes.
+     */
+    private parseUrls(url?: string, urls?: string): string[] | undefined {
+        const all = [url, ...(urls || '').split(',')]
+            .map(value => value?.trim())
+            .filter((value): value is string => !!value);
+        const unique = Array.from(new Set(all));
+        return unique.length > 0 ? unique : undefined;
+    }
+
+    private convertSarifFixes(
+        fixes: SarifFix[] | undefined,
+        baseUris: Record<string, SarifArtifactLocation>,
+        workspaceRoot: string
+    ): QuickFix[] | undefined {
+        if (!fixes || fixes.length === 0) {
+            return undefined;
+        }
+
+        const converted: QuickFix[] = [];
+        for (const fix of fixes) {
+            const edits: QuickFixEdit[] = [];
+            for (const change of fix.artifactChanges || []) {
+                const file = this.resolveSarifUri(change.artifactLocation, baseUris, workspaceRoot);
+                if (!file) {
+                    continue;
+                }
+
+                for (const replacement of change.replacements || []) {
+                    const region = replacement.deletedRegion || {};
+                    edits.push({
+                        file,
+                        startLine: region.startLine,
+                        startColumn: region.startColumn,
+                        endLine: region.endLine,
+                        endColumn: region.endColumn,
+                        startOffset: region.charOffset,
+                        endOffset: region.charOffset !== undefined
+                            ? region.charOffset + (region.charLength || 0)
+                            : undefined,
+                        replacement: replacement.insertedContent?.text || ''
+                    });
+                }
+            }
+
+            if (edits.length > 0) {
+                converted.push({
+                    title: fix.description?.text || 'Apply lint fix',
+                    edits
+                });
+            }
+        }
+
+        return converted.length > 0 ? converted : undefined;
+    }
+
+    private resolveSarifUri(
+        location: SarifArtifactLocation | undefined,
+        baseUris: Record<string, SarifArtifactLocation>,
+        workspaceRoot: string
+    ): string | undefined {
+        if (!location?.uri) {
+            return undefined;
+        }
+
+        let uri = location.uri;
+        const base = location.uriBaseId ? baseUris[location.uriBaseId]?.uri : undefined;
+        if (base && !/^[a-z]+:/i.test(uri)) {
+            uri = base.endsWith('/') ? `${base}${uri}` : `${base}/${uri}`;
+        }
+
+        if (uri.startsWith('file:')) {
+            return fileURLToPath(uri);
+        }
+
+        const decoded = decodeURIComponent(uri);
+        return path.isAbsolute(decoded) ? decoded : path.join(workspaceRoot, decoded);
+    }
+
     private mapSeverity(severity: string): 'error' | 'warning' | 'information' {
         const severityLower = (severity || '').toLowerCase();
         
@@ -169,6 +600,7 @@ export class LintReportParser {
                 return 'warning';
             case 'information':
             case 'informational':
+            case 'note':
             default:
                 return 'information';
         }
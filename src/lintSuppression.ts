@@ -0,0 +1,126 @@
+import * as vscode from 'vscode';
+import {
+    TOOLS_URI,
+    TextReplacement,
+    XmlTag,
+    findEnclosingTag,
+    findParentTag,
+    findRootTag,
+    getAttribute,
+    namespacePrefix,
+    setAttribute
+} from './xmlEdits';
+
+/** Which XML element receives `tools:ignore` */
+export type XmlSuppressTarget = 'element' | 'parent' | 'file';
+
+/**
+ * Build the edit that suppresses `issueId` at `position`:
+ * `@Suppress` for Kotlin, `@SuppressLint` for Java and `tools:ignore` on the enclosing element for XML.
+ * Returns undefined when the language has no supported suppression.
+ */
+export function createSuppressEdit(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    issueId: string
+): vscode.WorkspaceEdit | undefined {
+    if (document.languageId === 'xml') {
+        return createXmlSuppressEdit(document, position, issueId, 'element');
+    }
+
+    if (document.languageId !== 'kotlin' && document.languageId !== 'java') {
+        return undefined;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    const lineText = document.lineAt(position.line).text;
+    const indentation = lineText.match(/^\s*/)?.[0] || '';
+
+    // Add @SuppressLint annotation (Kotlin/Java)
+    const isKotlin = document.languageId === 'kotlin';
+    const suppressAnnotation = isKotlin
+        ? `${indentation}@Suppress("${issueId}")\n`
+        : `${indentation}@SuppressLint("${issueId}")\n`;
+
+    edit.insert(document.uri, new vscode.Position(position.line, 0), suppressAnnotation);
+    return edit;
+}
+
+/**
+ * The element `tools:ignore` would be added to, for labelling code actions.
+ */
+export function findXmlSuppressTarget(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    target: XmlSuppressTarget
+): XmlTag | undefined {
+    const text = document.getText();
+    if (target === 'file') {
+        return findRootTag(text);
+    }
+
+    const element = findEnclosingTag(text, document.offsetAt(position));
+    if (!element || target === 'element') {
+        return element;
+    }
+    return findParentTag(text, element.start);
+}
+
+/**
+ * Add `issueId` to the `tools:ignore` list of the chosen element, declaring
+ * `xmlns:tools` on the root element when the file does not have it yet.
+ * Returns undefined when there is no such element or the id is already ignored there.
+ */
+export function createXmlSuppressEdit(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    issueId: string,
+    target: XmlSuppressTarget
+): vscode.WorkspaceEdit | undefined {
+    const text = document.getText();
+    const tag = findXmlSuppressTarget(document, position, target);
+    const root = findRootTag(text);
+    if (!tag || !root) {
+        return undefined;
+    }
+
+    const hasToolsNamespace = text.includes(TOOLS_URI);
+    const prefix = namespacePrefix(text, TOOLS_URI);
+    const attributeName = `${prefix}:ignore`;
+
+    const existing = (getAttribute(text, tag, attributeName) || '')
+        .split(',')
+        .map(id => id.trim())
+        .filter(Boolean);
+    if (existing.includes(issueId) || existing.includes('all')) {
+        return undefined;
+    }
+
+    const replacements: TextReplacement[] = [];
+    if (!hasToolsNamespace) {
+        replacements.push(setAttribute(text, root, `xmlns:${prefix}`, TOOLS_URI)!);
+    }
+
+    const ignore = setAttribute(text, tag, attributeName, [...existing, issueId].join(','));
+    if (!ignore) {
+        return undefined;
+    }
+
+    // Both attributes land at the same spot when suppressing on the root element
+    const sameSpot = replacements.find(r => r.start === ignore.start && r.end === ignore.end);
+    if (sameSpot) {
+        sameSpot.text += ignore.text;
+    } else {
+        replacements.push(ignore);
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    for (const replacement of replacements) {
+        edit.replace(
+            document.uri,
+            new vscode.Range(document.positionAt(replacement.start), document.positionAt(replacement.end)),
+            replacement.text
+        );
+    }
+    return edit;
+}
@@ -0,0 +1,164 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { promises as fsPromises } from 'fs';
+
+const LINT_XML = 'lint.xml';
+
+/**
+ * The `lint.xml` closest to a file, looking up to the workspace root. Files nearer to the
+ * source override the project-wide one, so a change there would have no effect.
+ * When none exists, returns the project-wide file.
+ */
+export function nearestLintXml(file: string, workspaceRoot: string): string {
+    let dir = path.dirname(file);
+    while (!path.relative(workspaceRoot, dir).startsWith('..')) {
+        const candidate = path.join(dir, LINT_XML);
+        if (fs.existsSync(candidate)) {
+            return candidate;
+        }
+        const parent = path.dirname(dir);
+        if (parent === dir) {
+            break;
+        }
+        dir = parent;
+    }
+    return projectLintXml(workspaceRoot);
+}
+
+/** Severities accepted by lint.xml */
+export type LintXmlSeverity = 'fatal' | 'error' | 'warning' | 'informational' | 'ignore';
+
+/**
+ * The project-wide `lint.xml` in the workspace root; lint applies it to every module
+ * that has no override of its own.
+ */
+export function projectLintXml(workspaceRoot: string): string {
+    return path.join(workspaceRoot, LINT_XML);
+}
+
+/**
+ * Set `severity="ignore"` for an issue id in lint.xml, creating the file if needed.
+ */
+export async function disableIssue(lintXmlPath: string, issueId: string): Promise<void> {
+    await setIssueSeverity(lintXmlPath, issueId, 'ignore');
+}
+
+/**
+ * Set the severity of an issue id in lint.xml, creating the file if needed.
+ * The file is edited as text so existing formatting and comments are kept.
+ */
+export async function setIssueSeverity(lintXmlPath: string, issueId: string, severity: LintXmlSeverity): Promise<void> {
+    const content = await readLintXml(lintXmlPath);
+    await fsPromises.writeFile(lintXmlPath, setIssueAttribute(content, issueId, 'severity', severity), 'utf8');
+}
+
+/**
+ * Add `<ignore path="..."/>` for a file under the issue's element. The path is written
+ * relative to the lint.xml directory, which is how lint resolves it.
+ */
+export async function ignoreIssuePath(lintXmlPath: string, issueId: string, file: string): Promise<void> {
+    const relative = path.relative(path.dirname(lintXmlPath), file).split(path.sep).join('/');
+    const content = await readLintXml(lintXmlPath);
+    await fsPromises.writeFile(lintXmlPath, addIgnorePath(content, issueId, relative), 'utf8');
+}
+
+async function readLintXml(lintXmlPath: string): Promise<string> {
+    return fs.existsSync(lintXmlPath)
+        ? fsPromises.readFile(lintXmlPath, 'utf8')
+        : '<?xml version="1.0" encoding="UTF-8"?>\n<lint>\n</lint>\n';
+}
+
+function findIssueTag(content: string, issueId: string): RegExpExecArray | null {
+    return new RegExp(`<issue\\b[^>]*\\bid\\s*=\\s*["']${escapeRegExp(issueId)}["'][^>]*?(/?)>`).exec(content);
+}
+
+/**
+ * Set an attribute on the `<issue id="...">` element, adding the element when missing.
+ */
+function setIssueAttribute(content: string, issueId: string, name: string, value: string): string {
+    const existing = findIssueTag(content, issueId);
+    if (existing) {
+        const tag = existing[0];
+        const attribute = new RegExp(`\\b${name}\\s*=\\s*(["'])[^"']*\\1`);
+        const updated = attribute.test(tag)
+            ? tag.replace(attribute, `${name}="${value}"`)
+            : tag.replace(/\s*(\/?)>$/, ` ${name}="${value}"$1>`);
+        return content.slice(0, existing.index) + updated + content.slice(existing.index + tag.length);
+    }
+
+    const indent = detectIndent(content);
+    return insertIssueElement(content, `${indent}<issue id="${issueId}" ${name}="${value}" />\n`);
+}
+
+/**
+ * Add an `<ignore path="..."/>` child to the `<issue id="...">` element, expanding a
+ * self-closing element or adding a new one when needed.
+ */
+function addIgnorePath(content: string, issueId: string, ignoredPath: string): string {
+    const indent = detectIndent(content);
+    const ignore = `<ignore path="${ignoredPath}" />`;
+
+    const existing = findIssueTag(content, issueId);
+    if (!existing) {
+        return insertIssueElement(content, `${indent}<issue id="${issueId}">\n${indent}${indent}${ignore}\n${indent}</issue>\n`);
+    }
+
+    const tag = existing[0];
+    const tagEnd = existing.index + tag.length;
+    const lineStart = content.lastIndexOf('\n', existing.index) + 1;
+    const tagIndent = /^[ \t]*/.exec(content.slice(lineStart))?.[0] ?? '';
+
+    if (existing[1] === '/') {
+        const opening = tag.replace(/\s*\/>$/, '>');
+        const expanded = `${opening}\n${tagIndent}${indent}${ignore}\n${tagIndent}</issue>`;
+        return content.slice(0, existing.index) + expanded + content.slice(tagEnd);
+    }
+
+    const closing = content.indexOf('</issue>', tagEnd);
+    if (closing === -1) {
+        throw new Error(`lint.xml has no closing tag for issue ${issueId}`);
+    }
+    const body = content.slice(tagEnd, closing);
+    if (new RegExp(`<ignore\\b[^>]*\\bpath\\s*=\\s*["']${escapeRegExp(ignoredPath)}["']`).test(body)) {
+        return content;
+    }
+
+    const closingLineStart = content.lastIndexOf('\n', closing) + 1;
+    if (closingLineStart > tagEnd && content.slice(closingLineStart, closing).trim() === '') {
+        const line = `${tagIndent}${indent}${ignore}\n`;
+        return content.slice(0, closingLineStart) + line + content.slice(closingLineStart);
+    }
+    return `${content.slice(0, closing)}\n${tagIndent}${indent}${ignore}\n${tagIndent}${content.slice(closing)}`;
+}
+
+/**
+ * Insert a new top-level element before `</lint>`, expanding `<lint/>` when needed.
+ */
+function insertIssueElement(content: string, element: string): string {
+    const selfClosing = /<lint\b([^>]*)\/>/.exec(content);
+    if (selfClosing) {
+        const expanded = `<lint${selfClosing[1].trimEnd()}>\n${element}</lint>`;
+        return content.slice(0, selfClosing.index) + expanded + content.slice(selfClosing.index + selfClosing[0].length);
+    }
+
+    const closing = content.lastIndexOf('</lint>');
+    if (closing === -1) {
+        throw new Error('lint.xml has no <lint> root element');
+    }
+
+    // Insert at the start of the closing tag's line so the tag keeps its indentation
+    const lineStart = content.lastIndexOf('\n', closing) + 1;
+    if (content.slice(lineStart, closing).trim() === '') {
+        return content.slice(0, lineStart) + element + content.slice(lineStart);
+    }
+    return `${content.slice(0, closing)}\n${element}${content.slice(closing)}`;
+}
+
+function detectIndent(content: string): string {
+    const match = /\n([ \t]+)<issue\b/.exec(content);
+    return match ? match[1] : '    ';
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
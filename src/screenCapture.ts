@@ -0,0 +1,261 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFile, spawn } from 'child_process';
+import { promisify } from 'util';
+import { AndroidDevice, AndroidDeviceManager } from './androidDeviceManager';
+import { CONFIG_NAMESPACE, CONFIG_KEYS } from './constants';
+import { Logger } from './logger';
+
+const execFileAsync = promisify(execFile);
+
+const DEFAULT_FOLDER = 'screenshots';
+/** Editor groups VS Code opens side by side */
+const MAX_COLUMNS = 9;
+
+interface Capture {
+    device: AndroidDevice;
+    /** Temporary file the capture is shown from until it is saved */
+    file: string;
+    fileName: string;
+}
+
+/**
+ * Captures device screens with `adb exec-out screencap -p` and opens them in editor tabs,
+ * one column per device when capturing every connected device. Captures can then be saved
+ * to the workspace or copied to the clipboard.
+ */
+export class ScreenCaptureManager implements vscode.Disposable {
+    private readonly logger: Logger;
+    private readonly tempDir = path.join(os.tmpdir(), 'android-linter-captures');
+
+    constructor(
+        private readonly deviceManager: AndroidDeviceManager,
+        outputChannel: vscode.OutputChannel
+    ) {
+        this.logger = Logger.create(outputChannel, 'ScreenCapture');
+    }
+
+    /**
+     * Capture a connected device, or all of them side by side. With several devices connected,
+     * asks which one, listing the selected device first.
+     */
+    public async capture(selectedDevice?: AndroidDevice): Promise<void> {
+        const devices = (await this.deviceManager.listDevices()).filter(device => device.state === 'device');
+        if (devices.length === 0) {
+            vscode.window.showWarningMessage('Android Linter: No connected Android devices. Connect a device or start an emulator.');
+            return;
+        }
+
+        const targets = await this.pickDevices(devices, selectedDevice);
+        if (!targets) {
+            return;
+        }
+
+        const captures = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: targets.length === 1 ? `Android: Capturing ${targets[0].label}` : `Android: Capturing ${targets.length} devices`
+            },
+            () => Promise.all(targets.map(device => this.captureDevice(device, targets)))
+        );
+        const succeeded = captures.filter((capture): capture is Capture => !!capture);
+        if (succeeded.length === 0) {
+            return;
+        }
+
+        for (let i = 0; i < succeeded.length; i++) {
+            await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(succeeded[i].file), {
+                viewColumn: succeeded.length === 1 ? vscode.ViewColumn.Active : Math.min(i + 1, MAX_COLUMNS),
+                preview: false
+            });
+        }
+
+        await this.offerActions(succeeded);
+    }
+
+    /**
+     * The only connected device, else a pick of one device or all of them.
+     */
+    private async pickDevices(devices: AndroidDevice[], selectedDevice?: AndroidDevice): Promise<AndroidDevice[] | undefined> {
+        if (devices.length === 1) {
+            return devices;
+        }
+
+        const ordered = [
+            ...devices.filter(device => device.id === selectedDevice?.id),
+            ...devices.filter(device => device.id !== selectedDevice?.id)
+        ];
+        const items = [
+            ...ordered.map(device => ({
+                label: device.isEmulator ? `$(device-desktop) ${device.label}` : `$(device-mobile) ${device.label}`,
+                description: device.id === selectedDevice?.id ? 'selected' : undefined,
+                devices: [device]
+            })),
+            {
+                label: '$(multiple-windows) Capture all connected devices',
+                description: `${devices.length} devices, side by side`,
+                devices
+            }
+        ];
+
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Select the device to capture',
+            matchOnDescription: true
+        });
+        return picked?.devices;
+    }
+
+    private async captureDevice(device: AndroidDevice, targets: AndroidDevice[]): Promise<Capture | undefined> {
+        try {
+            const image = await this.deviceManager.captureScreen(device.id);
+            // Emulators of the same device definition share a model
+            const sameModel = targets.filter(target => target.model === device.model).length > 1;
+            const fileName = captureFileName(device, new Date(), sameModel);
+            await fs.promises.mkdir(this.tempDir, { recursive: true });
+            const file = path.join(this.tempDir, fileName);
+            await fs.promises.writeFile(file, image);
+            this.logger.log(`📸 Captured ${device.label} (${image.length} bytes)`);
+            return { device, file, fileName };
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            this.logger.error(`Failed to capture the screen of ${device.label}: ${message}`);
+            vscode.window.showErrorMessage(`Android Linter: Unable to capture the screen of ${device.label}: ${message}`);
+            return undefined;
+        }
+    }
+
+    private async offerActions(captures: Capture[]): Promise<void> {
+        const save = captures.length === 1 ? 'Save to Workspace' : 'Save All to Workspace';
+        const copy = 'Copy to Clipboard';
+        const actions = captures.length === 1 ? [save, copy] : [save];
+        const message = captures.length === 1
+            ? `Android Linter: Captured ${captures[0].device.label}`
+            : `Android Linter: Captured ${captures.map(capture => capture.device.label).join(', ')}`;
+
+        const choice = await vscode.window.showInformationMessage(message, ...actions);
+        if (choice === save) {
+            await this.save(captures);
+        } else if (choice === copy) {
+            await this.copyToClipboard(captures[0]);
+        }
+    }
+
+    /**
+     * Copy the captures to the configured folder, relative to the workspace unless absolute.
+     */
+    private async save(captures: Capture[]): Promise<void> {
+        const folder = this.getSaveFolder();
+        if (!folder) {
+            vscode.window.showWarningMessage('Android Linter: Open a workspace folder to save screen captures.');
+            return;
+        }
+
+        try {
+            await fs.promises.mkdir(folder, { recursive: true });
+            const saved: string[] = [];
+            for (const capture of captures) {
+                const target = path.join(folder, capture.fileName);
+                await fs.promises.copyFile(capture.file, target);
+                saved.push(target);
+            }
+
+            this.logger.success(`Saved ${saved.length} screen capture(s) to ${folder}`);
+            const reveal = 'Reveal';
+            const choice = await vscode.window.showInformationMessage(
+                `Android Linter: Saved ${saved.map(file => vscode.workspace.asRelativePath(file)).join(', ')}`,
+                reveal
+            );
+            if (choice === reveal) {
+                await vscode.commands.executeCommand('revealInExplorer', vscode.Uri.file(saved[0]));
+            }
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Android Linter: Unable to save the screen capture: ${message}`);
+        }
+    }
+
+    private getSaveFolder(): string | undefined {
+        const config = vscode.workspace.getConfiguration(CONFIG_NAMESPACE);
+        const folder = (config.get<string>(CONFIG_KEYS.SCREEN_CAPTURE_FOLDER) || DEFAULT_FOLDER).trim();
+        if (path.isAbsolute(folder)) {
+            return folder;
+        }
+        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        return workspaceRoot ? path.join(workspaceRoot, folder) : undefined;
+    }
+
+    /**
+     * VS Code's clipboard only takes text, so images go through the platform's tools:
+     * AppleScript on macOS, PowerShell on Windows and wl-copy or xclip on Linux.
+     */
+    private async copyToClipboard(capture: Capture): Promise<void> {
+        try {
+            switch (process.platform) {
+                case 'darwin':
+                    // The path is passed as an argument so quotes or backslashes in it can't break the script
+                    await execFileAsync('osascript', [
+                        '-e', 'on run argv',
+                        '-e', 'set the clipboard to (read (POSIX file (item 1 of argv)) as «class PNGf»)',
+                        '-e', 'end run',
+                        capture.file
+                    ], { timeout: 10000 });
+                    break;
+                case 'win32':
+                    await execFileAsync('powershell.exe', [
+                        '-NoProfile', '-STA', '-Command',
+                        'Add-Type -AssemblyName System.Windows.Forms, System.Drawing; ' +
+                        `[System.Windows.Forms.Clipboard]::SetImage([System.Drawing.Image]::FromFile('${capture.file.replace(/'/g, "''")}'))`
+                    ], { timeout: 10000 });
+                    break;
+                default:
+                    await copyWithLinuxTool(capture.file);
+                    break;
+            }
+            vscode.window.showInformationMessage(`Android Linter: Copied the screen of ${capture.device.label} to the clipboard`);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            this.logger.error(`Failed to copy the screen capture to the clipboard: ${message}`);
+            vscode.window.showErrorMessage(`Android Linter: Unable to copy the image to the clipboard: ${message}`);
+        }
+    }
+
+    public dispose(): void {
+        // Captures that were not saved are only kept until VS Code closes
+        fs.rm(this.tempDir, { recursive: true, force: true }, () => undefined);
+    }
+}
+
+/**
+ * `Pixel_7_2026-10-19_14-03-22.png`; the device id when adb does not report a model,
+ * or as well when several captured devices share it.
+ */
+function captureFileName(device: AndroidDevice, date: Date, includeId: boolean): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const timestamp = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+        `_${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`;
+    const name = (device.model && includeId ? `${device.model}_${device.id}` : device.model ?? device.id).replace(/[^\w.-]+/g, '_');
+    return `${name}_${timestamp}.png`;
+}
+
+/**
+ * wl-copy on Wayland, xclip on X11; both read the image from stdin.
+ */
+function copyWithLinuxTool(file: string): Promise<void> {
+    const [command, args] = process.env.WAYLAND_DISPLAY
+        ? ['wl-copy', ['--type', 'image/png']]
+        : ['xclip', ['-selection', 'clipboard', '-t', 'image/png']];
+
+    return new Promise((resolve, reject) => {
+        const child = spawn(command, args, { stdio: ['pipe', 'ignore', 'pipe'] });
+        let stderr = '';
+        child.stderr?.on('data', (data: Buffer) => {
+            stderr += data.toString();
+        });
+        child.on('error', error => reject(new Error(`${command} is not available (${error.message})`)));
+        // Both keep running in the background to serve the clipboard, so don't wait for their output to close
+        child.on('exit', code => code === 0 ? resolve() : reject(new Error(stderr.trim() || `${command} exited with code ${code}`)));
+        fs.createReadStream(file).pipe(child.stdin);
+    });
+}
@@ -0,0 +1,141 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import {
+    ANDROID_NAMESPACE,
+    XmlElementNode,
+    androidAttribute,
+    decodeBinaryXml,
+    decodeProtoXml,
+    formatXml
+} from '../../android/binaryXml';
+import { XmlFixtureElement, buildBinaryXml, buildProto } from './fixtures';
+
+const MANIFEST: XmlFixtureElement = {
+    name: 'manifest',
+    attributes: [
+        { name: 'versionCode', namespace: ANDROID_NAMESPACE, resourceId: 0x0101021b, type: 0x10, data: 42 },
+        { name: 'versionName', namespace: ANDROID_NAMESPACE, resourceId: 0x0101021c, value: '1.2.0' },
+        { name: 'package', value: 'com.example.app' }
+    ],
+    children: [
+        {
+            name: 'uses-sdk',
+            attributes: [
+                { name: 'minSdkVersion', namespace: ANDROID_NAMESPACE, resourceId: 0x0101020c, type: 0x10, data: 24 },
+                { name: 'targetSdkVersion', namespace: ANDROID_NAMESPACE, resourceId: 0x01010270, type: 0x10, data: 34 }
+            ]
+        },
+        {
+            name: 'application',
+            attributes: [
+                // Shrunk manifests drop the names of framework attributes
+                { name: 'debuggable', namespace: ANDROID_NAMESPACE, resourceId: 0x0101000f, stripName: true, type: 0x12, data: 0xffffffff },
+                { name: 'icon', namespace: ANDROID_NAMESPACE, resourceId: 0x01010002, stripName: true, type: 0x01, data: 0x7f080001 },
+                { name: 'unknown', namespace: ANDROID_NAMESPACE, resourceId: 0x01019999, stripName: true, type: 0x11, data: 0x10 }
+            ],
+            children: [
+                { name: 'meta-data', attributes: [{ name: 'note', value: 'a < b & "c"' }], children: ['text'] }
+            ]
+        }
+    ]
+};
+
+function child(element: XmlElementNode, name: string): XmlElementNode {
+    const found = element.children.find((c): c is XmlElementNode => typeof c !== 'string' && c.name === name);
+    assert.ok(found, `<${name}> was not decoded`);
+    return found;
+}
+
+describe('decodeBinaryXml', () => {
+    for (const utf16 of [false, true]) {
+        it(`decodes elements, namespaces and attributes (${utf16 ? 'UTF-16' : 'UTF-8'} strings)`, () => {
+            const root = decodeBinaryXml(buildBinaryXml(MANIFEST, ANDROID_NAMESPACE, utf16));
+            assert.strictEqual(root.name, 'manifest');
+            assert.deepStrictEqual(Array.from(root.namespaces), [['android', ANDROID_NAMESPACE]]);
+            assert.strictEqual(androidAttribute(root, 'versionCode'), '42');
+            assert.strictEqual(androidAttribute(root, 'versionName'), '1.2.0');
+            assert.strictEqual(androidAttribute(root, 'package'), 'com.example.app');
+            assert.strictEqual(androidAttribute(child(root, 'uses-sdk'), 'targetSdkVersion'), '34');
+        });
+    }
+
+    it('names stripped framework attributes from their resource ids', () => {
+        const application = child(decodeBinaryXml(buildBinaryXml(MANIFEST, ANDROID_NAMESPACE)), 'application');
+        assert.deepStrictEqual(application.attributes.map(a => [a.name, a.value]), [
+            ['debuggable', 'true'],
+            ['icon', '@0x7f080001'],
+            ['attr_0x1019999', '0x00000010']
+        ]);
+    });
+
+    it('keeps text content', () => {
+        const metaData = child(child(decodeBinaryXml(buildBinaryXml(MANIFEST, ANDROID_NAMESPACE)), 'application'), 'meta-data');
+        assert.deepStrictEqual(metaData.children, ['text']);
+    });
+
+    it('rejects other files', () => {
+        assert.throws(() => decodeBinaryXml(Buffer.from('<manifest/>')), /Not a binary XML file/);
+    });
+});
+
+describe('decodeProtoXml', () => {
+    // XmlNode { element = 1 } / XmlElement { namespace_declaration = 1; name = 3; attribute = 4; child = 5 }
+    const attribute = (name: string, value: string, resourceId?: number) => buildProto([
+        [1, ANDROID_NAMESPACE],
+        [2, name],
+        [3, value],
+        ...(resourceId !== undefined ? [[5, resourceId] as [number, number]] : [])
+    ]);
+    const usesSdk = buildProto([
+        [3, 'uses-sdk'],
+        // int_decimal primitive: Item { prim = 7 } / Primitive { int_decimal_value = 6 }
+        [4, buildProto([[1, ANDROID_NAMESPACE], [5, 0x0101020c], [6, buildProto([[7, buildProto([[6, 21]])]])]])],
+        [4, buildProto([[1, ANDROID_NAMESPACE], [2, 'targetSdkVersion'], [6, buildProto([[7, buildProto([[6, -1]])]])]])]
+    ]);
+    const manifest = buildProto([
+        [1, buildProto([[1, 'android'], [2, ANDROID_NAMESPACE]])],
+        [3, 'manifest'],
+        [4, attribute('versionName', '2.0')],
+        [4, attribute('', 'com.example.app.Application', 0x01010003)],
+        [5, buildProto([[1, usesSdk]])],
+        [5, buildProto([[2, 'text']])]
+    ]);
+
+    it('decodes elements, namespaces and attributes', () => {
+        const root = decodeProtoXml(buildProto([[1, manifest]]));
+        assert.strictEqual(root.name, 'manifest');
+        assert.deepStrictEqual(Array.from(root.namespaces), [['android', ANDROID_NAMESPACE]]);
+        assert.strictEqual(androidAttribute(root, 'versionName'), '2.0');
+        assert.strictEqual(androidAttribute(root, 'name'), 'com.example.app.Application');
+        assert.deepStrictEqual(root.children[1], 'text');
+    });
+
+    it('formats compiled values, including negative numbers', () => {
+        const sdk = child(decodeProtoXml(buildProto([[1, manifest]])), 'uses-sdk');
+        assert.strictEqual(androidAttribute(sdk, 'minSdkVersion'), '21');
+        assert.strictEqual(androidAttribute(sdk, 'targetSdkVersion'), '-1');
+    });
+
+    it('rejects a node without an element', () => {
+        assert.throws(() => decodeProtoXml(buildProto([[2, 'text']])), /no root element/);
+    });
+});
+
+describe('formatXml', () => {
+    it('prints the tree with namespace prefixes and escaped values', () => {
+        const root = decodeBinaryXml(buildBinaryXml({
+            name: 'manifest',
+            attributes: [{ name: 'versionName', namespace: ANDROID_NAMESPACE, resourceId: 0x0101021c, value: '1.0' }],
+            children: [{ name: 'meta-data', attributes: [{ name: 'note', value: 'a < b & "c"' }] }]
+        }, ANDROID_NAMESPACE));
+
+        assert.strictEqual(formatXml(root), [
+            '<?xml version="1.0" encoding="utf-8"?>',
+            '<manifest',
+            `    xmlns:android="${ANDROID_NAMESPACE}"`,
+            '    android:versionName="1.0">',
+            '    <meta-data note="a &lt; b &amp; &quot;c&quot;" />',
+            '</manifest>'
+        ].join('\n'));
+    });
+});
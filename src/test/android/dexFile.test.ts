@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { mergeDexPackages, readDexFile } from '../../android/dexFile';
+import { buildDex } from './fixtures';
+
+const CLASSES = [
+    { descriptor: 'Lcom/example/app/MainActivity;', directMethods: 2, virtualMethods: 3 },
+    { descriptor: 'Lcom/example/app/ui/HomeFragment;', directMethods: 1, virtualMethods: 4 },
+    { descriptor: 'LBuildConfig;', directMethods: 1, virtualMethods: 0 }
+];
+
+const METHOD_REFS = [
+    'Lcom/example/app/MainActivity;',
+    'Lcom/example/app/MainActivity;',
+    'Landroid/app/Activity;',
+    'Landroid/app/Activity;',
+    'Landroid/app/Activity;',
+    '[Ljava/lang/String;'
+];
+
+describe('readDexFile', () => {
+    const stats = readDexFile('classes.dex', buildDex(CLASSES, METHOD_REFS));
+
+    it('counts the classes and methods of the file', () => {
+        assert.strictEqual(stats.name, 'classes.dex');
+        assert.strictEqual(stats.classes, 3);
+        assert.strictEqual(stats.definedMethods, 11);
+        assert.strictEqual(stats.referencedMethods, 6);
+    });
+
+    it('counts per package', () => {
+        const byName = new Map(stats.packages.map(p => [p.name, p]));
+        assert.deepStrictEqual(byName.get('com.example.app'), { name: 'com.example.app', classes: 1, definedMethods: 5, referencedMethods: 2 });
+        assert.deepStrictEqual(byName.get('com.example.app.ui'), { name: 'com.example.app.ui', classes: 1, definedMethods: 5, referencedMethods: 0 });
+        assert.deepStrictEqual(byName.get('(default)'), { name: '(default)', classes: 1, definedMethods: 1, referencedMethods: 0 });
+        assert.strictEqual(byName.get('android.app')?.referencedMethods, 3);
+        // Methods of array types belong to the element type's package
+        assert.strictEqual(byName.get('java.lang')?.referencedMethods, 1);
+    });
+
+    it('rejects data that is not a DEX file', () => {
+        assert.throws(() => readDexFile('classes.dex', Buffer.alloc(0x70)), /classes\.dex is not a DEX file/);
+        assert.throws(() => readDexFile('classes.dex', Buffer.from('dex\n035\0')), /not a DEX file/);
+    });
+
+    it('reports tables past the end of the data', () => {
+        const truncated = buildDex(CLASSES, METHOD_REFS).subarray(0, 0x90);
+        assert.throws(() => readDexFile('classes.dex', truncated), /Truncated or corrupt DEX file/);
+    });
+
+    it('reports items past the end of the data', () => {
+        const dex = buildDex(CLASSES, METHOD_REFS);
+        // Point the first string id past the end of the file
+        dex.writeUInt32LE(dex.length + 10, dex.readUInt32LE(0x3c));
+        assert.throws(() => readDexFile('classes.dex', dex), /Truncated or corrupt DEX file: reading the string data/);
+    });
+
+    it('reports class data cut off in the middle', () => {
+        const dex = buildDex(CLASSES, METHOD_REFS);
+        const lastClassDef = dex.readUInt32LE(0x64) + 2 * 32;
+        dex.writeUInt32LE(dex.length - 1, lastClassDef + 24);
+        dex[dex.length - 1] = 0x80;
+        assert.throws(() => readDexFile('classes.dex', dex), /Truncated or corrupt DEX file: reading the class data/);
+    });
+});
+
+describe('mergeDexPackages', () => {
+    it('adds up the packages of several files, most defined methods first', () => {
+        const first = readDexFile('classes.dex', buildDex(CLASSES, METHOD_REFS));
+        const second = readDexFile('classes2.dex', buildDex(
+            [{ descriptor: 'Lcom/example/app/Extra;', directMethods: 7, virtualMethods: 0 }],
+            ['Landroid/app/Activity;']
+        ));
+
+        const merged = mergeDexPackages([first, second]);
+        assert.deepStrictEqual(merged[0], { name: 'com.example.app', classes: 2, definedMethods: 12, referencedMethods: 2 });
+        assert.strictEqual(merged.find(p => p.name === 'android.app')?.referencedMethods, 4);
+        // The inputs are left alone
+        assert.strictEqual(first.packages.find(p => p.name === 'com.example.app')?.classes, 1);
+    });
+});
@@ -0,0 +1,302 @@
+import * as zlib from 'zlib';
+
+/**
+ * Writers for the small ZIP, DEX and compiled XML files the APK parser tests read. They
+ * write only the fields the parsers look at; checksums and the rest are left zero.
+ */
+
+// ── ZIP ───────────────────────────────────────────────────────────
+
+export interface ZipFixtureEntry {
+    name: string;
+    data: Buffer;
+    deflate?: boolean;
+}
+
+export function buildZip(entries: ZipFixtureEntry[], comment = ''): Buffer {
+    const locals: Buffer[] = [];
+    const centrals: Buffer[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = Buffer.from(entry.name, 'utf8');
+        const content = entry.deflate ? zlib.deflateRawSync(entry.data) : entry.data;
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(entry.deflate ? 8 : 0, 8);
+        local.writeUInt32LE(content.length, 18);
+        local.writeUInt32LE(entry.data.length, 22);
+        local.writeUInt16LE(name.length, 26);
+        locals.push(local, name, content);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0);
+        central.writeUInt16LE(entry.deflate ? 8 : 0, 10);
+        central.writeUInt32LE(content.length, 20);
+        central.writeUInt32LE(entry.data.length, 24);
+        central.writeUInt16LE(name.length, 28);
+        central.writeUInt32LE(offset, 42);
+        centrals.push(central, name);
+
+        offset += local.length + name.length + content.length;
+    }
+
+    const centralDirectory = Buffer.concat(centrals);
+    const commentBytes = Buffer.from(comment, 'utf8');
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(centralDirectory.length, 12);
+    end.writeUInt32LE(offset, 16);
+    end.writeUInt16LE(commentBytes.length, 20);
+
+    return Buffer.concat([...locals, centralDirectory, end, commentBytes]);
+}
+
+// ── DEX ───────────────────────────────────────────────────────────
+
+export interface DexFixtureClass {
+    /** e.g. `Lcom/example/MainActivity;` */
+    descriptor: string;
+    directMethods: number;
+    virtualMethods: number;
+}
+
+/**
+ * A DEX file defining `classes`, with one method reference per entry of `methodRefs`
+ * (the descriptor of the method's class).
+ */
+export function buildDex(classes: DexFixtureClass[], methodRefs: string[]): Buffer {
+    const types = Array.from(new Set([...classes.map(c => c.descriptor), ...methodRefs]));
+
+    const headerSize = 0x70;
+    const stringIdsOffset = headerSize;
+    const typeIdsOffset = stringIdsOffset + types.length * 4;
+    const methodIdsOffset = typeIdsOffset + types.length * 4;
+    const classDefsOffset = methodIdsOffset + methodRefs.length * 8;
+    let dataOffset = classDefsOffset + classes.length * 32;
+
+    const stringData = types.map(descriptor => {
+        const item = Buffer.concat([uleb128(descriptor.length), Buffer.from(descriptor, 'utf8'), Buffer.from([0])]);
+        const offset = dataOffset;
+        dataOffset += item.length;
+        return { item, offset };
+    });
+    const classData = classes.map(c => {
+        const item = Buffer.concat([uleb128(0), uleb128(0), uleb128(c.directMethods), uleb128(c.virtualMethods)]);
+        const offset = dataOffset;
+        dataOffset += item.length;
+        return { item, offset };
+    });
+
+    const dex = Buffer.alloc(dataOffset);
+    dex.write('dex\n035\0', 0, 'latin1');
+    dex.writeUInt32LE(types.length, 0x38);
+    dex.writeUInt32LE(stringIdsOffset, 0x3c);
+    dex.writeUInt32LE(types.length, 0x40);
+    dex.writeUInt32LE(typeIdsOffset, 0x44);
+    dex.writeUInt32LE(methodRefs.length, 0x58);
+    dex.writeUInt32LE(methodIdsOffset, 0x5c);
+    dex.writeUInt32LE(classes.length, 0x60);
+    dex.writeUInt32LE(classDefsOffset, 0x64);
+
+    types.forEach((_, index) => {
+        dex.writeUInt32LE(stringData[index].offset, stringIdsOffset + index * 4);
+        dex.writeUInt32LE(index, typeIdsOffset + index * 4);
+        stringData[index].item.copy(dex, stringData[index].offset);
+    });
+    methodRefs.forEach((descriptor, index) => {
+        dex.writeUInt16LE(types.indexOf(descriptor), methodIdsOffset + index * 8);
+    });
+    classes.forEach((c, index) => {
+        const classDef = classDefsOffset + index * 32;
+        dex.writeUInt32LE(types.indexOf(c.descriptor), classDef);
+        dex.writeUInt32LE(classData[index].offset, classDef + 24);
+        classData[index].item.copy(dex, classData[index].offset);
+    });
+    return dex;
+}
+
+function uleb128(value: number): Buffer {
+    const bytes: number[] = [];
+    do {
+        let byte = value & 0x7f;
+        value >>>= 7;
+        if (value !== 0) {
+            byte |= 0x80;
+        }
+        bytes.push(byte);
+    } while (value !== 0);
+    return Buffer.from(bytes);
+}
+
+// ── Binary XML (APK) ──────────────────────────────────────────────
+
+export interface XmlFixtureAttribute {
+    name: string;
+    /** Namespace URI, e.g. the Android namespace */
+    namespace?: string;
+    /** A string value; typed values use `type` and `data` instead */
+    value?: string;
+    type?: number;
+    data?: number;
+    /** Resource id of the attribute, written to the resource map */
+    resourceId?: number;
+    /** Leave the name out of the string pool, as shrunk manifests do */
+    stripName?: boolean;
+}
+
+export interface XmlFixtureElement {
+    name: string;
+    attributes?: XmlFixtureAttribute[];
+    children?: (XmlFixtureElement | string)[];
+}
+
+/**
+ * Compile an element tree to the binary XML chunks of an APK, declaring the `android`
+ * namespace on the root element. Strings are written as UTF-8 unless `utf16` is set.
+ */
+export function buildBinaryXml(root: XmlFixtureElement, namespaceUri: string, utf16 = false): Buffer {
+    // Attribute names with resource ids come first, matching the resource map
+    const attributes = collectAttributes(root);
+    const withIds = attributes.filter(a => a.resourceId !== undefined);
+    const strings: string[] = withIds.map(a => a.stripName ? '' : a.name);
+    const resourceIds = withIds.map(a => a.resourceId ?? 0);
+    const index = (value: string) => {
+        let position = strings.indexOf(value);
+        if (position < 0) {
+            position = strings.push(value) - 1;
+        }
+        return position;
+    };
+    const nameIndex = (attribute: XmlFixtureAttribute) =>
+        attribute.resourceId !== undefined ? withIds.indexOf(attribute) : index(attribute.name);
+
+    const nodes: Buffer[] = [];
+    nodes.push(node(0x0100, [index('android'), index(namespaceUri)]));
+    const write = (element: XmlFixtureElement) => {
+        const attributeBytes = (element.attributes ?? []).map(attribute => {
+            const bytes = Buffer.alloc(20);
+            bytes.writeUInt32LE(attribute.namespace ? index(attribute.namespace) : 0xffffffff, 0);
+            bytes.writeUInt32LE(nameIndex(attribute), 4);
+            bytes.writeUInt32LE(attribute.value !== undefined ? index(attribute.value) : 0xffffffff, 8);
+            bytes.writeUInt16LE(8, 12);
+            bytes.writeUInt8(attribute.value !== undefined ? 0x03 : attribute.type ?? 0x10, 15);
+            bytes.writeUInt32LE(attribute.value !== undefined ? index(attribute.value) : (attribute.data ?? 0) >>> 0, 16);
+            return bytes;
+        });
+        const start = Buffer.alloc(20);
+        start.writeUInt32LE(0xffffffff, 0);
+        start.writeUInt32LE(index(element.name), 4);
+        start.writeUInt16LE(20, 8);
+        start.writeUInt16LE(20, 10);
+        start.writeUInt16LE(attributeBytes.length, 12);
+        nodes.push(chunk(0x0102, 16, Buffer.concat([nodeHeader(), start, ...attributeBytes])));
+
+        for (const child of element.children ?? []) {
+            if (typeof child === 'string') {
+                nodes.push(node(0x0104, [index(child), 0x03000008, index(child)]));
+            } else {
+                write(child);
+            }
+        }
+        nodes.push(node(0x0103, [0xffffffff, index(element.name)]));
+    };
+    write(root);
+
+    const body = Buffer.concat([stringPool(strings, utf16), resourceMap(resourceIds), ...nodes]);
+    return chunk(0x0003, 8, body);
+}
+
+function collectAttributes(element: XmlFixtureElement): XmlFixtureAttribute[] {
+    return [
+        ...(element.attributes ?? []),
+        ...(element.children ?? []).flatMap(child => typeof child === 'string' ? [] : collectAttributes(child))
+    ];
+}
+
+/** A chunk: type, header size and total size, then the header's extra fields and the body */
+function chunk(type: number, headerSize: number, rest: Buffer): Buffer {
+    const header = Buffer.alloc(8);
+    header.writeUInt16LE(type, 0);
+    header.writeUInt16LE(headerSize, 2);
+    header.writeUInt32LE(8 + rest.length, 4);
+    return Buffer.concat([header, rest]);
+}
+
+/** Line number and comment of a tree node */
+function nodeHeader(): Buffer {
+    const header = Buffer.alloc(8);
+    header.writeUInt32LE(1, 0);
+    header.writeUInt32LE(0xffffffff, 4);
+    return header;
+}
+
+function node(type: number, fields: number[]): Buffer {
+    const ext = Buffer.alloc(fields.length * 4);
+    fields.forEach((field, i) => ext.writeUInt32LE(field >>> 0, i * 4));
+    return chunk(type, 16, Buffer.concat([nodeHeader(), ext]));
+}
+
+function stringPool(strings: string[], utf16: boolean): Buffer {
+    const encoded = strings.map(value => {
+        if (utf16) {
+            const length = Buffer.alloc(2);
+            length.writeUInt16LE(value.length, 0);
+            return Buffer.concat([length, Buffer.from(value, 'utf16le'), Buffer.alloc(2)]);
+        }
+        const bytes = Buffer.from(value, 'utf8');
+        return Buffer.concat([Buffer.from([value.length, bytes.length]), bytes, Buffer.from([0])]);
+    });
+
+    const headerSize = 28;
+    const offsets = Buffer.alloc(strings.length * 4);
+    let position = 0;
+    encoded.forEach((bytes, i) => {
+        offsets.writeUInt32LE(position, i * 4);
+        position += bytes.length;
+    });
+
+    const fields = Buffer.alloc(headerSize - 8);
+    fields.writeUInt32LE(strings.length, 0);
+    fields.writeUInt32LE(utf16 ? 0 : 1 << 8, 8);
+    fields.writeUInt32LE(headerSize + offsets.length, 12);
+    return chunk(0x0001, headerSize, Buffer.concat([fields, offsets, ...encoded]));
+}
+
+function resourceMap(ids: number[]): Buffer {
+    const body = Buffer.alloc(ids.length * 4);
+    ids.forEach((id, i) => body.writeUInt32LE(id, i * 4));
+    return chunk(0x0180, 8, body);
+}
+
+// ── Protobuf XML (app bundle) ─────────────────────────────────────
+
+/** A protobuf field: varints for numbers, length-delimited for strings and messages */
+export type ProtoFixtureField = [number, number | string | Buffer];
+
+export function buildProto(fields: ProtoFixtureField[]): Buffer {
+    return Buffer.concat(fields.map(([number, value]) => {
+        if (typeof value === 'number') {
+            return Buffer.concat([varint(number * 8), varint(value)]);
+        }
+        const bytes = typeof value === 'string' ? Buffer.from(value, 'utf8') : value;
+        return Buffer.concat([varint(number * 8 + 2), varint(bytes.length), bytes]);
+    }));
+}
+
+function varint(value: number): Buffer {
+    const bytes: number[] = [];
+    let remaining = BigInt.asUintN(64, BigInt(value));
+    do {
+        let byte = Number(remaining & BigInt(0x7f));
+        remaining >>= BigInt(7);
+        if (remaining !== BigInt(0)) {
+            byte |= 0x80;
+        }
+        bytes.push(byte);
+    } while (remaining !== BigInt(0));
+    return Buffer.from(bytes);
+}
@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { ZipArchive } from '../../android/zipArchive';
+import { buildZip } from './fixtures';
+
+const MANIFEST = Buffer.from('<manifest package="com.example" />', 'utf8');
+const DEX = Buffer.alloc(4096, 'dex\n035');
+
+describe('ZipArchive', () => {
+    const data = buildZip([
+        { name: 'AndroidManifest.xml', data: MANIFEST },
+        { name: 'classes.dex', data: DEX, deflate: true },
+        { name: 'res/layout/main.xml', data: Buffer.alloc(0) }
+    ], 'signed by apksigner');
+
+    it('lists the entries of the central directory', () => {
+        const archive = new ZipArchive(data);
+        assert.deepStrictEqual(archive.entries.map(entry => [entry.name, entry.method, entry.size]), [
+            ['AndroidManifest.xml', 0, MANIFEST.length],
+            ['classes.dex', 8, DEX.length],
+            ['res/layout/main.xml', 0, 0]
+        ]);
+        assert.ok(archive.entries[1].compressedSize < DEX.length);
+    });
+
+    it('reads stored and deflated entries', () => {
+        const archive = new ZipArchive(data);
+        assert.deepStrictEqual(archive.read(archive.getEntry('AndroidManifest.xml')!), MANIFEST);
+        assert.deepStrictEqual(archive.read(archive.getEntry('classes.dex')!), DEX);
+        assert.strictEqual(archive.read(archive.getEntry('res/layout/main.xml')!).length, 0);
+        assert.strictEqual(archive.getEntry('missing.txt'), undefined);
+    });
+
+    it('rejects data that is not a ZIP archive', () => {
+        assert.throws(() => new ZipArchive(Buffer.from('not a zip archive at all')), /Not a ZIP archive/);
+        assert.throws(() => new ZipArchive(Buffer.alloc(0)), /Not a ZIP archive/);
+    });
+
+    it('reports a central directory past the end of the data', () => {
+        const corrupt = Buffer.from(data);
+        // Point the end record at a central directory beyond the file
+        const end = corrupt.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+        corrupt.writeUInt32LE(corrupt.length + 100, end + 16);
+        assert.throws(() => new ZipArchive(corrupt), /Truncated or corrupt ZIP archive/);
+    });
+
+    it('reports an entry whose content was cut off', () => {
+        const stored = buildZip([{ name: 'classes.dex', data: DEX }]);
+        const archive = new ZipArchive(stored);
+        const entry = archive.entries[0];
+        entry.compressedSize = stored.length;
+        assert.throws(() => archive.read(entry), /Truncated or corrupt ZIP archive: reading the content of classes\.dex/);
+    });
+
+    it('reports deflated content that does not inflate', () => {
+        const archive = new ZipArchive(data);
+        const entry = { ...archive.getEntry('classes.dex')!, compressedSize: 4 };
+        assert.throws(() => archive.read(entry), /Corrupt ZIP entry classes\.dex/);
+    });
+
+    it('reports a local header past the end of the data', () => {
+        const archive = new ZipArchive(data);
+        const entry = { ...archive.entries[0], localHeaderOffset: data.length - 10 };
+        assert.throws(() => archive.read(entry), /Truncated or corrupt ZIP archive: reading the local header of AndroidManifest\.xml/);
+    });
+});
@@ -0,0 +1,136 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { applyBuildLog, parseDuration, parseProfileReport } from '../../build/buildProfile';
+
+/** Trimmed from a `gradlew :app:assembleDebug --profile` report */
+const REPORT = `<!DOCTYPE html>
+<html>
+<head><title>Profile report</title></head>
+<body>
+<div id="header"><p>Profiled build: :app:assembleDebug</p></div>
+<div id="tabs">
+<div class="tab" id="tab0">
+<h2>Summary</h2>
+<table>
+<thead><tr><th>Description</th><th class="numeric">Duration</th></tr></thead>
+<tr><td>Total Build Time</td><td class="numeric">1m5.50s</td></tr>
+<tr><td>Startup</td><td class="numeric">0.812s</td></tr>
+<tr><td>Settings and buildSrc</td><td class="numeric">0.140s</td></tr>
+<tr><td>Loading Projects</td><td class="numeric">0.050s</td></tr>
+<tr><td>Configuring Projects</td><td class="numeric">4.200s</td></tr>
+<tr><td>Artifact Transforms</td><td class="numeric">0s</td></tr>
+<tr><td>Task Execution</td><td class="numeric">58.120s</td></tr>
+</table>
+</div>
+<div class="tab" id="tab1">
+<h2>Configuration</h2>
+<table>
+<thead><tr><th>Project</th><th class="numeric">Duration</th></tr></thead>
+<tr><td>All projects</td><td class="numeric">4.200s</td></tr>
+<tr><td>:</td><td class="numeric">0.400s</td></tr>
+<tr><td>:app</td><td class="numeric">3.100s</td></tr>
+<tr><td>:core</td><td class="numeric">0.700s</td></tr>
+</table>
+</div>
+<div class="tab" id="tab3">
+<h2>Task Execution</h2>
+<table>
+<thead><tr><th>Task</th><th class="numeric">Duration</th><th>Result</th></tr></thead>
+<tr><td>:app</td><td class="numeric">50.100s</td><td>(total)</td></tr>
+<tr><td class="indentPath">:app:compileDebugKotlin</td><td class="numeric">40.000s</td><td></td></tr>
+<tr><td class="indentPath">:app:mergeDebugResources</td><td class="numeric">10.100s</td><td>FROM-CACHE</td></tr>
+<tr><td class="indentPath">:app:preBuild</td><td class="numeric">0s</td><td>UP-TO-DATE</td></tr>
+<tr><td>:core</td><td class="numeric">8.020s</td><td>(total)</td></tr>
+<tr><td class="indentPath">:core:compileDebugKotlin</td><td class="numeric">8.000s</td><td></td></tr>
+<tr><td class="indentPath">:core:processDebugManifest &amp; more</td><td class="numeric">0.020s</td><td>NO-SOURCE</td></tr>
+</table>
+</div>
+</div>
+</body>
+</html>
+`;
+
+const INFO_LOG = `
+> Task :core:compileDebugKotlin
+Stored cache entry for task ':core:compileDebugKotlin' with cache key 8f2c
+> Task :app:compileDebugKotlin
+Caching disabled for task ':app:compileDebugKotlin' because:
+  Not worth caching.
+Non-incremental compilation will be performed: full rebuild for incremental task ':app:compileDebugKotlin'
+Stored cache entry for task ':unknown:task' with cache key 0000
+`;
+
+describe('parseDuration', () => {
+    it('reads hours, minutes and seconds', () => {
+        assert.strictEqual(parseDuration('0.123s'), 123);
+        assert.strictEqual(parseDuration('2m0.10s'), 120100);
+        assert.strictEqual(parseDuration('1h2m3.45s'), 3723450);
+        assert.strictEqual(parseDuration(' 0s '), 0);
+    });
+
+    it('is 0 for anything else', () => {
+        assert.strictEqual(parseDuration(''), 0);
+        assert.strictEqual(parseDuration('n/a'), 0);
+    });
+});
+
+describe('parseProfileReport', () => {
+    const profile = parseProfileReport(REPORT, ':app:assembleDebug', 1000);
+
+    it('reads the summary', () => {
+        assert.strictEqual(profile.task, ':app:assembleDebug');
+        assert.strictEqual(profile.timestamp, 1000);
+        assert.strictEqual(profile.totalMs, 65500);
+        assert.strictEqual(profile.configurationMs, 4200);
+        assert.deepStrictEqual(profile.phases.map(phase => phase.name), [
+            'Startup', 'Settings and buildSrc', 'Loading Projects', 'Configuring Projects', 'Artifact Transforms', 'Task Execution'
+        ]);
+    });
+
+    it('reads the configuration time per module, slowest first', () => {
+        assert.deepStrictEqual(profile.configurationByModule, [
+            { module: ':app', durationMs: 3100 },
+            { module: ':core', durationMs: 700 },
+            { module: ':', durationMs: 400 }
+        ]);
+    });
+
+    it('reads the tasks, slowest first, and their modules', () => {
+        assert.deepStrictEqual(profile.tasks.map(task => [task.path, task.module, task.durationMs, task.result]), [
+            [':app:compileDebugKotlin', ':app', 40000, ''],
+            [':app:mergeDebugResources', ':app', 10100, 'FROM-CACHE'],
+            [':core:compileDebugKotlin', ':core', 8000, ''],
+            [':core:processDebugManifest & more', ':core', 20, 'NO-SOURCE'],
+            [':app:preBuild', ':app', 0, 'UP-TO-DATE']
+        ]);
+        assert.deepStrictEqual(profile.moduleTotals, [
+            { module: ':app', durationMs: 50100 },
+            { module: ':core', durationMs: 8020 }
+        ]);
+    });
+
+    it('counts the tasks per result', () => {
+        assert.deepStrictEqual(profile.resultCounts, { 'EXECUTED': 2, 'FROM-CACHE': 1, 'UP-TO-DATE': 1, 'NO-SOURCE': 1 });
+    });
+
+    it('reads an empty profile from an unexpected page', () => {
+        const empty = parseProfileReport('<html><body><p>Not a profile</p></body></html>', ':app:assembleDebug', 0);
+        assert.strictEqual(empty.totalMs, 0);
+        assert.deepStrictEqual(empty.tasks, []);
+        assert.deepStrictEqual(empty.phases, []);
+    });
+});
+
+describe('applyBuildLog', () => {
+    it('marks cache misses, disabled caching and full rebuilds', () => {
+        const profile = parseProfileReport(REPORT, ':app:assembleDebug', 0);
+        applyBuildLog(profile, INFO_LOG);
+
+        const task = (path: string) => profile.tasks.find(t => t.path === path);
+        assert.strictEqual(task(':core:compileDebugKotlin')?.cacheMiss, true);
+        assert.strictEqual(task(':app:compileDebugKotlin')?.cacheMiss, undefined);
+        assert.strictEqual(task(':app:compileDebugKotlin')?.cachingDisabledReason, 'Not worth caching');
+        assert.strictEqual(task(':app:compileDebugKotlin')?.fullRebuild, true);
+        assert.strictEqual(task(':app:mergeDebugResources')?.fullRebuild, undefined);
+    });
+});
@@ -0,0 +1,124 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { Dependency, isConflict, parseDependencyTree } from '../../build/dependencyTree';
+
+const OUTPUT = `
+> Task :app:dependencies
+
+------------------------------------------------------------
+Project ':app'
+------------------------------------------------------------
+
+freeDebugRuntimeClasspath - Runtime classpath of '/freeDebug'.
++--- project :core
+|    +--- androidx.annotation:annotation:1.6.0 -> 1.7.0
+|    \\--- com.squareup.okhttp3:okhttp:{strictly 4.12.0} -> 4.12.0
++--- androidx.core:core-ktx:1.12.0
+|    +--- androidx.annotation:annotation:1.6.0 -> 1.7.0 (*)
+|    \\--- androidx.core:core:1.12.0 (c)
++--- androidx.compose:compose-bom:2024.06.00
+|    \\--- androidx.compose.ui:ui:1.6.8 (c)
++--- androidx.compose.ui:ui -> 1.6.8
+\\--- com.example:missing:1.0 FAILED
+
+(c) - A dependency constraint, not a dependency. The dependency affected by the constraint occurs elsewhere in the tree.
+(*) - Indicates repeated occurrences of a transitive dependency subtree. Gradle expands transitive dependency subtrees only once per project; repeat occurrences only display the root of the subtree, followed by this annotation.
+
+A web-based, searchable dependency report is available by adding the --scan option.
+
+BUILD SUCCESSFUL in 2s
+`;
+
+/** The fields worth comparing, without the children */
+function summary(dependency: Dependency) {
+    const { children, ...fields } = dependency;
+    return { ...fields, children: children.length };
+}
+
+describe('parseDependencyTree', () => {
+    const roots = parseDependencyTree(OUTPUT);
+
+    it('reads the roots in order', () => {
+        assert.deepStrictEqual(roots.map(root => root.id), [
+            'project :core',
+            'androidx.core:core-ktx',
+            'androidx.compose:compose-bom',
+            'androidx.compose.ui:ui',
+            'com.example:missing'
+        ]);
+    });
+
+    it('nests children by their indentation', () => {
+        assert.deepStrictEqual(roots[0].children.map(child => child.id), [
+            'androidx.annotation:annotation',
+            'com.squareup.okhttp3:okhttp'
+        ]);
+        assert.deepStrictEqual(roots[1].children.map(child => child.id), [
+            'androidx.annotation:annotation',
+            'androidx.core:core'
+        ]);
+        assert.strictEqual(roots[2].children.length, 1);
+    });
+
+    it('reads project dependencies', () => {
+        assert.deepStrictEqual(summary(roots[0]), {
+            id: 'project :core',
+            resolvedVersion: undefined,
+            constraint: false,
+            omitted: false,
+            unresolved: false,
+            failed: false,
+            children: 2
+        });
+    });
+
+    it('reads requested and resolved versions and the markers', () => {
+        assert.deepStrictEqual(summary(roots[1].children[0]), {
+            id: 'androidx.annotation:annotation',
+            requestedVersion: '1.6.0',
+            resolvedVersion: '1.7.0',
+            constraint: false,
+            omitted: true,
+            unresolved: false,
+            failed: false,
+            children: 0
+        });
+        assert.strictEqual(roots[1].children[1].constraint, true);
+        assert.strictEqual(roots[4].failed, true);
+        assert.strictEqual(roots[4].requestedVersion, '1.0');
+    });
+
+    it('reads versions managed by a BOM', () => {
+        assert.strictEqual(roots[3].requestedVersion, undefined);
+        assert.strictEqual(roots[3].resolvedVersion, '1.6.8');
+    });
+
+    it('keeps rich versions', () => {
+        assert.strictEqual(roots[0].children[1].requestedVersion, '{strictly 4.12.0}');
+    });
+
+    it('stops at the legend', () => {
+        assert.strictEqual(parseDependencyTree(OUTPUT + '\n+--- com.example:after:1.0\n').length, 5);
+    });
+
+    it('reads nothing from a configuration without dependencies', () => {
+        assert.deepStrictEqual(parseDependencyTree('releaseRuntimeClasspath - Runtime classpath.\nNo dependencies\n'), []);
+    });
+});
+
+describe('isConflict', () => {
+    const [core, coreKtx, , bomManaged] = parseDependencyTree(OUTPUT);
+
+    it('is a conflict when Gradle picked another version', () => {
+        assert.strictEqual(isConflict(coreKtx.children[0]), true);
+    });
+
+    it('is not a conflict for a strict version that was kept', () => {
+        assert.strictEqual(isConflict(core.children[1]), false);
+    });
+
+    it('is not a conflict without a requested version', () => {
+        assert.strictEqual(isConflict(bomManaged), false);
+        assert.strictEqual(isConflict(coreKtx), false);
+    });
+});
@@ -0,0 +1,160 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { parseBuildVariants, variantName } from '../../build/variantParser';
+
+const FLAVORED_KTS = `
+plugins {
+    id("com.android.application")
+}
+
+android {
+    namespace = "com.example.app"
+
+    buildTypes {
+        getByName("release") {
+            isMinifyEnabled = true
+        }
+        create("staging") {
+            initWith(getByName("debug"))
+        }
+    }
+
+    flavorDimensions += listOf("tier", "env")
+    productFlavors {
+        create("free") {
+            dimension = "tier"
+        }
+        create("paid") {
+            dimension = "tier"
+        }
+        create("dev") {
+            dimension = "env"
+        }
+        create("prod") {
+            dimension = "env"
+        }
+    }
+}
+`;
+
+const FLAVORED_GROOVY = `
+android {
+    buildTypes {
+        release {
+            minifyEnabled true
+        }
+    }
+
+    flavorDimensions "tier"
+    productFlavors {
+        free {
+        }
+        paid {
+            applicationIdSuffix ".paid"
+        }
+    }
+}
+`;
+
+function names(content: string): string[] {
+    return parseBuildVariants(content).variants.map(variant => variant.name);
+}
+
+describe('variantName', () => {
+    it('is the build type without flavors', () => {
+        assert.strictEqual(variantName([], 'debug'), 'debug');
+    });
+
+    it('joins the flavors in priority order and the build type', () => {
+        assert.strictEqual(variantName(['free', 'staging'], 'debug'), 'freeStagingDebug');
+    });
+});
+
+describe('parseBuildVariants', () => {
+    it('has debug and release without flavors or build types', () => {
+        const result = parseBuildVariants('android {\n    namespace = "com.example"\n}\n');
+        assert.deepStrictEqual(result.dimensions, []);
+        assert.deepStrictEqual(result.buildTypes, ['debug', 'release']);
+        assert.deepStrictEqual(names('android {\n}\n'), ['debug', 'release']);
+    });
+
+    it('combines the flavors of every dimension with the build types (KTS)', () => {
+        const result = parseBuildVariants(FLAVORED_KTS);
+        assert.deepStrictEqual(result.dimensions, [
+            { name: 'tier', flavors: ['free', 'paid'] },
+            { name: 'env', flavors: ['dev', 'prod'] }
+        ]);
+        assert.deepStrictEqual(result.buildTypes, ['debug', 'release', 'staging']);
+        assert.strictEqual(result.variants.length, 12);
+        assert.deepStrictEqual(result.variants[0], { name: 'freeDevDebug', flavors: ['free', 'dev'], buildType: 'debug' });
+        assert.ok(names(FLAVORED_KTS).includes('paidProdStaging'));
+    });
+
+    it('puts flavors without a dimension in the only declared one (Groovy)', () => {
+        const result = parseBuildVariants(FLAVORED_GROOVY);
+        assert.deepStrictEqual(result.dimensions, [{ name: 'tier', flavors: ['free', 'paid'] }]);
+        assert.deepStrictEqual(names(FLAVORED_GROOVY), ['freeDebug', 'freeRelease', 'paidDebug', 'paidRelease']);
+    });
+
+    it('leaves out variants disabled with a beforeVariants selector', () => {
+        const content = FLAVORED_GROOVY + `
+androidComponents {
+    beforeVariants(selector().withBuildType("release").withFlavor("tier" to "free")) { variant ->
+        variant.enable = false
+    }
+}
+`;
+        assert.deepStrictEqual(names(content), ['freeDebug', 'paidDebug', 'paidRelease']);
+    });
+
+    it('splits || conditions into separate rules', () => {
+        const content = FLAVORED_GROOVY + `
+androidComponents {
+    beforeVariants { variant ->
+        if (variant.buildType == "release" && variant.flavorName == "free" || variant.name == "paidDebug") {
+            variant.enable = false
+        }
+    }
+}
+`;
+        assert.deepStrictEqual(names(content), ['freeDebug', 'paidRelease']);
+    });
+
+    it('keeps the variants of negated conditions', () => {
+        const content = FLAVORED_GROOVY + `
+android {
+    variantFilter { variant ->
+        if (variant.buildType.name != "release") {
+            setIgnore(true)
+        }
+    }
+}
+`;
+        assert.deepStrictEqual(names(content), ['freeDebug', 'freeRelease', 'paidDebug', 'paidRelease']);
+    });
+
+    it('ignores a disabling statement without a readable condition', () => {
+        const content = FLAVORED_GROOVY + `
+androidComponents {
+    beforeVariants { variant ->
+        variant.enable = isEnabled(variant)
+        if (shouldSkip(variant)) {
+            variant.enable = false
+        }
+    }
+}
+`;
+        assert.deepStrictEqual(names(content), ['freeDebug', 'freeRelease', 'paidDebug', 'paidRelease']);
+    });
+
+    it('keeps every variant when the filter seems to remove them all', () => {
+        const content = FLAVORED_GROOVY + `
+androidComponents {
+    beforeVariants(selector().all()) { variant ->
+        variant.enable = false
+    }
+}
+`;
+        assert.deepStrictEqual(names(content), ['freeDebug', 'freeRelease', 'paidDebug', 'paidRelease']);
+    });
+});
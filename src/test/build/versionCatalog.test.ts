@@ -0,0 +1,164 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import {
+    CatalogSection,
+    VersionCatalog,
+    aliasToAccessor,
+    catalogNameFromFile,
+    describeEntry,
+    findCatalogUsages,
+    parseVersionCatalog,
+    resolveAccessor
+} from '../../build/versionCatalog';
+
+const CATALOG = `# Versions shared by the libraries below
+[versions]
+agp = "8.5.0"
+kotlin = { strictly = "2.0.0" }
+coroutines = { strictly = "[1.7, 2.0[", prefer = "1.8.1" }
+compose-bom = "2024.06.00" # monthly
+
+[libraries]
+androidx-core-ktx = { module = "androidx.core:core-ktx", version = "1.13.1" }
+kotlinx-coroutines = { group = "org.jetbrains.kotlinx", name = "kotlinx-coroutines-core", version.ref = "coroutines" }
+compose-bom = { module = "androidx.compose:compose-bom", version = { ref = "compose-bom" } }
+junit = "junit:junit:4.13.2"
+okhttp = { module = "com.squareup.okhttp3:okhttp", version = { strictly = "4.12.0" } }
+
+[bundles]
+core = [
+    "androidx-core-ktx",
+    "kotlinx-coroutines", # async
+]
+
+[plugins]
+android-application = { id = "com.android.application", version.ref = "agp" }
+kotlin-android = "org.jetbrains.kotlin.android:2.0.0"
+`;
+
+const catalog = parseVersionCatalog(CATALOG, 'libs', '/project/gradle/libs.versions.toml');
+
+function entry(section: CatalogSection, alias: string) {
+    const found = catalog.entries.find(e => e.section === section && e.alias === alias);
+    assert.ok(found, `${section}.${alias} was not read`);
+    return found;
+}
+
+describe('catalogNameFromFile', () => {
+    it('names the catalog after its file', () => {
+        assert.strictEqual(catalogNameFromFile('/project/gradle/libs.versions.toml'), 'libs');
+        assert.strictEqual(catalogNameFromFile('C:\\project\\gradle\\testLibs.versions.toml'), 'testLibs');
+    });
+});
+
+describe('aliasToAccessor', () => {
+    it('turns -, _ and . into accessor segments', () => {
+        assert.strictEqual(aliasToAccessor('androidx-core_ktx.test'), 'androidx.core.ktx.test');
+    });
+});
+
+describe('parseVersionCatalog', () => {
+    it('reads every entry of the known sections', () => {
+        assert.deepStrictEqual(
+            catalog.entries.map(e => `${e.section}:${e.alias}`),
+            [
+                'versions:agp', 'versions:kotlin', 'versions:coroutines', 'versions:compose-bom',
+                'libraries:androidx-core-ktx', 'libraries:kotlinx-coroutines', 'libraries:compose-bom',
+                'libraries:junit', 'libraries:okhttp',
+                'bundles:core',
+                'plugins:android-application', 'plugins:kotlin-android'
+            ]
+        );
+    });
+
+    it('records where each alias is', () => {
+        const agp = entry('versions', 'agp');
+        assert.strictEqual(agp.line, 2);
+        assert.strictEqual(agp.column, 0);
+        assert.strictEqual(entry('libraries', 'junit').line, 11);
+    });
+
+    it('reads plain and rich versions', () => {
+        assert.strictEqual(entry('versions', 'agp').version, '8.5.0');
+        assert.strictEqual(entry('versions', 'kotlin').version, '2.0.0');
+        assert.strictEqual(entry('versions', 'coroutines').version, '[1.7, 2.0[');
+        assert.strictEqual(entry('versions', 'compose-bom').version, '2024.06.00');
+    });
+
+    it('reads library coordinates and resolves version references', () => {
+        const coroutines = entry('libraries', 'kotlinx-coroutines');
+        assert.strictEqual(coroutines.accessor, 'kotlinx.coroutines');
+        assert.strictEqual(describeEntry(coroutines), 'org.jetbrains.kotlinx:kotlinx-coroutines-core:[1.7, 2.0[');
+        assert.strictEqual(coroutines.versionRef, 'coroutines');
+        assert.strictEqual(coroutines.versionRefLine, 9);
+
+        assert.strictEqual(describeEntry(entry('libraries', 'androidx-core-ktx')), 'androidx.core:core-ktx:1.13.1');
+        assert.strictEqual(describeEntry(entry('libraries', 'compose-bom')), 'androidx.compose:compose-bom:2024.06.00');
+        assert.strictEqual(describeEntry(entry('libraries', 'junit')), 'junit:junit:4.13.2');
+        assert.strictEqual(describeEntry(entry('libraries', 'okhttp')), 'com.squareup.okhttp3:okhttp:4.12.0');
+    });
+
+    it('reads bundles spanning several lines', () => {
+        const core = entry('bundles', 'core');
+        assert.strictEqual(core.accessor, 'bundles.core');
+        assert.deepStrictEqual(core.members, ['androidx-core-ktx', 'kotlinx-coroutines']);
+    });
+
+    it('reads plugins', () => {
+        const application = entry('plugins', 'android-application');
+        assert.strictEqual(application.accessor, 'plugins.android.application');
+        assert.strictEqual(describeEntry(application), 'com.android.application:8.5.0');
+        assert.strictEqual(describeEntry(entry('plugins', 'kotlin-android')), 'org.jetbrains.kotlin.android:2.0.0');
+    });
+
+    it('ignores other tables', () => {
+        const parsed = parseVersionCatalog('[metadata]\nformat = "1.1"\n\n[versions]\nagp = "8.5.0"\n', 'libs', 'libs.versions.toml');
+        assert.deepStrictEqual(parsed.entries.map(e => e.alias), ['agp']);
+    });
+});
+
+describe('resolveAccessor', () => {
+    const catalogs: VersionCatalog[] = [catalog];
+
+    it('finds the entry of an accessor', () => {
+        assert.strictEqual(resolveAccessor(catalogs, 'libs.androidx.core.ktx')?.alias, 'androidx-core-ktx');
+        assert.strictEqual(resolveAccessor(catalogs, 'libs.plugins.kotlin.android')?.alias, 'kotlin-android');
+    });
+
+    it('skips value accessors', () => {
+        assert.strictEqual(resolveAccessor(catalogs, 'libs.versions.agp.get')?.alias, 'agp');
+        assert.strictEqual(resolveAccessor(catalogs, 'libs.compose.bom.get')?.section, 'libraries');
+    });
+
+    it('does not resolve partial accessors or other catalogs', () => {
+        assert.strictEqual(resolveAccessor(catalogs, 'libs.androidx.core'), undefined);
+        assert.strictEqual(resolveAccessor(catalogs, 'testLibs.junit'), undefined);
+    });
+});
+
+describe('findCatalogUsages', () => {
+    it('finds accessors and lookups by alias, but not in comments', () => {
+        const script = [
+            'dependencies {',
+            '    implementation(libs.androidx.core.ktx)',
+            '    // implementation(libs.junit)',
+            '    add("implementation", libs.findLibrary("kotlinx-coroutines").get())',
+            '}'
+        ].join('\n');
+
+        const usages = findCatalogUsages([catalog], script);
+        assert.deepStrictEqual(
+            usages.map(usage => ({ alias: usage.entry.alias, line: usage.line, column: usage.column, length: usage.length })),
+            [
+                { alias: 'androidx-core-ktx', line: 1, column: 19, length: 22 },
+                { alias: 'kotlinx-coroutines', line: 3, column: 44, length: 18 }
+            ]
+        );
+    });
+
+    it('matches whole catalog names only', () => {
+        assert.strictEqual(findCatalogUsages([catalog], 'testImplementation(mylibs.junit)').length, 0);
+        assert.strictEqual(findCatalogUsages([catalog], 'testImplementation(project.libs.junit)').length, 0);
+        assert.strictEqual(findCatalogUsages([catalog], 'testImplementation(libs.junit)').length, 1);
+    });
+});
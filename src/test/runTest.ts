@@ -0,0 +1,25 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { run } from 'node:test';
+import { spec } from 'node:test/reporters';
+
+/**
+ * Runs the `*.test.js` files compiled next to this one with Node's test runner. They cover
+ * the parsers that don't use the VS Code API, so no editor instance is needed.
+ */
+function findTestFiles(dir: string): string[] {
+    return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+        const file = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            return findTestFiles(file);
+        }
+        return entry.name.endsWith('.test.js') ? [file] : [];
+    });
+}
+
+run({ files: findTestFiles(__dirname) })
+    .on('test:fail', () => {
+        process.exitCode = 1;
+    })
+    .compose(spec)
+    .pipe(process.stdout);
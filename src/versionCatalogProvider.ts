@@ -0,0 +1,396 @@
+import * as vscode from 'vscode';
+import {
+    CatalogEntry,
+    CatalogUsage,
+    VersionCatalog,
+    aliasToAccessor,
+    catalogNameFromFile,
+    describeEntry,
+    escapeRegex,
+    findCatalogUsages,
+    parseVersionCatalog
+} from './build/versionCatalog';
+
+const CATALOG_GLOB = '**/*.versions.toml';
+/** Build scripts, plus convention plugins that look entries up with `findLibrary("alias")` */
+const USAGE_GLOB = '{**/*.gradle,**/*.gradle.kts,**/buildSrc/**/*.kt,**/build-logic/**/*.kt}';
+const EXCLUDE_GLOB = '**/{build,node_modules,.gradle}/**';
+
+const SECTION_LABELS: Record<CatalogEntry['section'], string> = {
+    libraries: 'Library',
+    plugins: 'Plugin',
+    bundles: 'Bundle',
+    versions: 'Version'
+};
+
+export const BUILD_SCRIPT_SELECTOR: vscode.DocumentFilter[] = [
+    { scheme: 'file', pattern: '**/*.gradle' },
+    { scheme: 'file', pattern: '**/*.gradle.kts' }
+];
+export const VERSION_CATALOG_SELECTOR: vscode.DocumentFilter = { scheme: 'file', pattern: CATALOG_GLOB };
+/** Convention plugins in `buildSrc` and `build-logic`, which use `findLibrary("alias")` style lookups */
+export const CONVENTION_PLUGIN_SELECTOR: vscode.DocumentFilter[] = [
+    { scheme: 'file', pattern: '**/buildSrc/**/*.kt' },
+    { scheme: 'file', pattern: '**/build-logic/**/*.kt' }
+];
+
+/**
+ * Code intelligence for Gradle version catalogs (`libs.versions.toml`):
+ * go to definition from a `libs.*` accessor to its catalog entry, find the usages of an
+ * entry, hover with the resolved `group:artifact:version`, completion of aliases in
+ * build scripts, and diagnostics for entries no build script uses.
+ */
+export class VersionCatalogProvider implements
+    vscode.DefinitionProvider,
+    vscode.ReferenceProvider,
+    vscode.HoverProvider,
+    vscode.CompletionItemProvider,
+    vscode.Disposable {
+
+    private readonly diagnosticCollection = vscode.languages.createDiagnosticCollection('version-catalog');
+    private catalogs: Promise<VersionCatalog[]> | undefined;
+    private refreshTimer: NodeJS.Timeout | undefined;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        const catalogWatcher = vscode.workspace.createFileSystemWatcher(CATALOG_GLOB);
+        const usageWatcher = vscode.workspace.createFileSystemWatcher(USAGE_GLOB);
+        const onCatalogChanged = () => {
+            this.catalogs = undefined;
+            this.scheduleRefresh();
+        };
+
+        this.disposables.push(
+            catalogWatcher,
+            usageWatcher,
+            catalogWatcher.onDidChange(onCatalogChanged),
+            catalogWatcher.onDidCreate(onCatalogChanged),
+            catalogWatcher.onDidDelete(onCatalogChanged),
+            usageWatcher.onDidChange(() => this.scheduleRefresh()),
+            usageWatcher.onDidCreate(() => this.scheduleRefresh()),
+            usageWatcher.onDidDelete(() => this.scheduleRefresh()),
+            // Unsaved catalog edits are picked up as the user types
+            vscode.workspace.onDidChangeTextDocument(event => {
+                if (isCatalogFile(event.document.uri)) {
+                    onCatalogChanged();
+                }
+            })
+        );
+
+        this.scheduleRefresh();
+    }
+
+    async provideDefinition(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): Promise<vscode.Definition | undefined> {
+        const entry = await this.entryAt(document, position);
+        if (!entry) {
+            return undefined;
+        }
+
+        const catalog = (await this.getCatalogs()).find(c => c.entries.includes(entry));
+        return catalog ? entryLocation(catalog, entry) : undefined;
+    }
+
+    async provideReferences(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        context: vscode.ReferenceContext,
+        token: vscode.CancellationToken
+    ): Promise<vscode.Location[] | undefined> {
+        const entry = await this.entryAt(document, position);
+        if (!entry) {
+            return undefined;
+        }
+
+        const catalogs = await this.getCatalogs();
+        const catalog = catalogs.find(c => c.entries.includes(entry));
+        const locations: vscode.Location[] = [];
+        if (catalog && context.includeDeclaration) {
+            locations.push(entryLocation(catalog, entry));
+        }
+
+        // References inside the catalog: bundles listing a library, entries using a version
+        if (catalog) {
+            const catalogUri = vscode.Uri.file(catalog.file);
+            for (const other of catalog.entries) {
+                if (entry.section === 'libraries' && other.members?.some(member => sameAlias(member, entry.alias))) {
+                    locations.push(new vscode.Location(catalogUri, new vscode.Position(other.line, other.column)));
+                }
+                if (entry.section === 'versions' && other.versionRef === entry.alias) {
+                    locations.push(new vscode.Location(catalogUri, new vscode.Position(other.versionRefLine ?? other.line, 0)));
+                }
+            }
+        }
+
+        for (const [uri, usages] of await this.findUsages(catalogs, token)) {
+            for (const usage of usages.filter(u => u.entry === entry)) {
+                locations.push(new vscode.Location(uri, usageRange(usage)));
+            }
+        }
+        return locations;
+    }
+
+    async provideHover(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): Promise<vscode.Hover | undefined> {
+        if (isCatalogFile(document.uri)) {
+            return undefined;
+        }
+
+        const usage = await this.usageAt(document, position);
+        if (!usage) {
+            return undefined;
+        }
+
+        const catalog = (await this.getCatalogs()).find(c => c.entries.includes(usage.entry));
+        if (!catalog) {
+            return undefined;
+        }
+        return new vscode.Hover(describeHover(catalog, usage.entry), usageRange(usage));
+    }
+
+    async provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): Promise<vscode.CompletionItem[] | undefined> {
+        const catalogs = await this.getCatalogs();
+        const before = document.lineAt(position.line).text.substring(0, position.character);
+
+        const items: vscode.CompletionItem[] = [];
+        for (const catalog of catalogs) {
+            // libs.androidx.co| -> completed segments "androidx.", partial segment "co"
+            const match = new RegExp(`(?<![\\w.])${escapeRegex(catalog.name)}\\.((?:[A-Za-z_]\\w*\\.)*)(\\w*)$`).exec(before);
+            if (!match) {
+                continue;
+            }
+
+            const typed = match[1];
+            const range = new vscode.Range(position.translate(0, -match[2].length), position);
+            for (const entry of catalog.entries.filter(e => e.accessor.startsWith(typed))) {
+                const item = new vscode.CompletionItem(entry.accessor.substring(typed.length), completionKind(entry));
+                item.detail = describeEntry(entry) || SECTION_LABELS[entry.section];
+                item.documentation = describeHover(catalog, entry);
+                item.range = range;
+                items.push(item);
+            }
+        }
+        return items.length > 0 ? items : undefined;
+    }
+
+    /**
+     * Re-read the catalogs and the build scripts and report the entries nothing uses.
+     */
+    async refreshDiagnostics(): Promise<void> {
+        const catalogs = await this.getCatalogs();
+        const used = new Set<CatalogEntry>();
+        for (const usages of (await this.findUsages(catalogs)).values()) {
+            usages.forEach(usage => used.add(usage.entry));
+        }
+
+        this.diagnosticCollection.clear();
+        for (const catalog of catalogs) {
+            // Libraries in a used bundle and versions referenced by an entry count as used
+            for (const bundle of catalog.entries.filter(entry => entry.section === 'bundles' && used.has(entry))) {
+                catalog.entries
+                    .filter(entry => entry.section === 'libraries' && bundle.members?.some(member => sameAlias(member, entry.alias)))
+                    .forEach(entry => used.add(entry));
+            }
+            const referencedVersions = new Set(catalog.entries.map(entry => entry.versionRef).filter(Boolean));
+
+            const diagnostics = catalog.entries
+                .filter(entry => !used.has(entry) && !(entry.section === 'versions' && referencedVersions.has(entry.alias)))
+                .map(entry => {
+                    const range = new vscode.Range(entry.line, entry.column, entry.line, entry.column + entry.alias.length);
+                    const diagnostic = new vscode.Diagnostic(
+                        range,
+                        `${SECTION_LABELS[entry.section]} '${entry.alias}' is not used by any build script`,
+                        vscode.DiagnosticSeverity.Information
+                    );
+                    diagnostic.source = 'Version Catalog';
+                    diagnostic.code = 'UnusedCatalogEntry';
+                    diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+                    return diagnostic;
+                });
+            this.diagnosticCollection.set(vscode.Uri.file(catalog.file), diagnostics);
+        }
+    }
+
+    private scheduleRefresh(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = undefined;
+            this.refreshDiagnostics().catch(() => {
+                // Diagnostics are best-effort; the next change retries
+            });
+        }, 1000);
+    }
+
+    private getCatalogs(): Promise<VersionCatalog[]> {
+        if (!this.catalogs) {
+            this.catalogs = this.loadCatalogs();
+        }
+        return this.catalogs;
+    }
+
+    private async loadCatalogs(): Promise<VersionCatalog[]> {
+        const files = await vscode.workspace.findFiles(CATALOG_GLOB, EXCLUDE_GLOB);
+        const catalogs: VersionCatalog[] = [];
+        for (const uri of files) {
+            const content = await readText(uri);
+            if (content !== undefined) {
+                catalogs.push(parseVersionCatalog(content, catalogNameFromFile(uri.fsPath), uri.fsPath));
+            }
+        }
+        return catalogs;
+    }
+
+    private async findUsages(
+        catalogs: VersionCatalog[],
+        token?: vscode.CancellationToken
+    ): Promise<Map<vscode.Uri, CatalogUsage[]>> {
+        const usages = new Map<vscode.Uri, CatalogUsage[]>();
+        if (catalogs.length === 0) {
+            return usages;
+        }
+
+        const files = await vscode.workspace.findFiles(USAGE_GLOB, EXCLUDE_GLOB);
+        for (const uri of files) {
+            if (token?.isCancellationRequested) {
+                break;
+            }
+            const content = await readText(uri);
+            if (content !== undefined) {
+                usages.set(uri, findCatalogUsages(catalogs, content));
+            }
+        }
+        return usages;
+    }
+
+    /**
+     * The entry at the cursor: a `libs.*` accessor in a build script, or an alias or
+     * `version.ref` in the catalog itself.
+     */
+    private async entryAt(document: vscode.TextDocument, position: vscode.Position): Promise<CatalogEntry | undefined> {
+        if (!isCatalogFile(document.uri)) {
+            return (await this.usageAt(document, position))?.entry;
+        }
+
+        const catalog = (await this.getCatalogs()).find(c => c.file === document.uri.fsPath);
+        if (!catalog) {
+            return undefined;
+        }
+
+        // version.ref = "kotlin" -> the `kotlin` version
+        const text = document.lineAt(position.line).text;
+        for (const match of text.matchAll(/\bref\s*=\s*["']([\w.-]+)["']/g)) {
+            const start = (match.index ?? 0) + match[0].lastIndexOf(match[1]);
+            if (position.character >= start && position.character <= start + match[1].length) {
+                return catalog.entries.find(entry => entry.section === 'versions' && entry.alias === match[1]);
+            }
+        }
+
+        // A quoted bundle member names a library; bundles may span several lines
+        const owner = [...catalog.entries].reverse().find(e => e.line <= position.line);
+        const member = document.getWordRangeAtPosition(position, /["'][\w.-]+["']/);
+        if (owner?.section === 'bundles' && member) {
+            const alias = document.getText(member).slice(1, -1);
+            return catalog.entries.find(e => e.section === 'libraries' && sameAlias(e.alias, alias));
+        }
+
+        return catalog.entries.find(e =>
+            e.line === position.line &&
+            position.character >= e.column &&
+            position.character <= e.column + e.alias.length);
+    }
+
+    private async usageAt(document: vscode.TextDocument, position: vscode.Position): Promise<CatalogUsage | undefined> {
+        const catalogs = await this.getCatalogs();
+        return findCatalogUsages(catalogs, document.lineAt(position.line).text).find(usage =>
+            position.character >= usage.column && position.character <= usage.column + usage.length);
+    }
+
+    dispose(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.disposables.forEach(d => d.dispose());
+        this.diagnosticCollection.dispose();
+    }
+}
+
+function describeHover(catalog: VersionCatalog, entry: CatalogEntry): vscode.MarkdownString {
+    const markdown = new vscode.MarkdownString();
+    markdown.appendMarkdown(`**${catalog.name}.${entry.accessor}** · ${SECTION_LABELS[entry.section]}\n\n`);
+
+    if (entry.section === 'bundles') {
+        const members = (entry.members ?? []).map(member => {
+            const library = catalog.entries.find(e => e.section === 'libraries' && sameAlias(e.alias, member));
+            return library ? describeEntry(library) : member;
+        });
+        markdown.appendCodeblock(members.join('\n'), 'text');
+    } else {
+        const description = describeEntry(entry);
+        if (description) {
+            markdown.appendCodeblock(description, 'text');
+        }
+    }
+
+    if (entry.versionRef) {
+        markdown.appendMarkdown(`Version from \`versions.${entry.versionRef}\`${entry.version ? '' : ' (not defined)'}\n\n`);
+    }
+
+    const relativePath = vscode.workspace.asRelativePath(catalog.file);
+    const uri = vscode.Uri.file(catalog.file);
+    markdown.appendMarkdown(`Defined in [${relativePath}:${entry.line + 1}](${uri.toString()}#L${entry.line + 1})`);
+    return markdown;
+}
+
+function completionKind(entry: CatalogEntry): vscode.CompletionItemKind {
+    switch (entry.section) {
+        case 'libraries':
+            return vscode.CompletionItemKind.Module;
+        case 'plugins':
+            return vscode.CompletionItemKind.Reference;
+        case 'bundles':
+            return vscode.CompletionItemKind.Folder;
+        case 'versions':
+            return vscode.CompletionItemKind.Constant;
+    }
+}
+
+function entryLocation(catalog: VersionCatalog, entry: CatalogEntry): vscode.Location {
+    return new vscode.Location(
+        vscode.Uri.file(catalog.file),
+        new vscode.Range(entry.line, entry.column, entry.line, entry.column + entry.alias.length)
+    );
+}
+
+function usageRange(usage: CatalogUsage): vscode.Range {
+    return new vscode.Range(usage.line, usage.column, usage.line, usage.column + usage.length);
+}
+
+function sameAlias(a: string, b: string): boolean {
+    return aliasToAccessor(a) === aliasToAccessor(b);
+}
+
+function isCatalogFile(uri: vscode.Uri): boolean {
+    return uri.fsPath.endsWith('.versions.toml');
+}
+
+/** Open documents win over the file on disk, so unsaved edits count */
+async function readText(uri: vscode.Uri): Promise<string | undefined> {
+    const open = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+    if (open) {
+        return open.getText();
+    }
+    try {
+        return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+    } catch {
+        return undefined;
+    }
+}
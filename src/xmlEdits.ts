@@ -0,0 +1,201 @@
+/**
+ * Text-level helpers for editing XML attributes without reformatting the document.
+ */
+
+export const ANDROID_URI = 'http://schemas.android.com/apk/res/android';
+export const TOOLS_URI = 'http://schemas.android.com/tools';
+export const AUTO_URI = 'http://schemas.android.com/apk/res-auto';
+
+const DEFAULT_PREFIXES: Record<string, string> = {
+    [ANDROID_URI]: 'android',
+    [TOOLS_URI]: 'tools',
+    [AUTO_URI]: 'app',
+};
+
+/** Offsets of an element's start tag, `<` through `>` */
+export interface XmlTag {
+    start: number;
+    end: number;
+    name: string;
+}
+
+/** A text replacement expressed in document offsets */
+export interface TextReplacement {
+    start: number;
+    end: number;
+    text: string;
+}
+
+/**
+ * Find the start tag that contains `offset`, or the nearest start tag before it.
+ */
+export function findEnclosingTag(text: string, offset: number): XmlTag | undefined {
+    let start = text.lastIndexOf('<', offset);
+    while (start !== -1) {
+        const next = text[start + 1];
+        if (next !== '/' && next !== '!' && next !== '?') {
+            break;
+        }
+        start = text.lastIndexOf('<', start - 1);
+    }
+    if (start === -1) {
+        return undefined;
+    }
+
+    const end = findTagEnd(text, start);
+    const name = /^<([\w:.-]+)/.exec(text.slice(start))?.[1];
+    return end !== -1 && name ? { start, end, name } : undefined;
+}
+
+/**
+ * Find the start tag of the parent of the element whose start tag begins at `childStart`.
+ */
+export function findParentTag(text: string, childStart: number): XmlTag | undefined {
+    let depth = 0;
+    let position = childStart - 1;
+
+    while (position >= 0) {
+        const start = text.lastIndexOf('<', position);
+        if (start === -1) {
+            return undefined;
+        }
+        position = start - 1;
+
+        const next = text[start + 1];
+        if (next === '!' || next === '?') {
+            continue;
+        }
+        if (next === '/') {
+            depth++;
+            continue;
+        }
+
+        const end = findTagEnd(text, start);
+        if (end === -1 || text[end - 1] === '/') {
+            continue; // self-closing sibling
+        }
+        if (depth === 0) {
+            const name = /^<([\w:.-]+)/.exec(text.slice(start))?.[1];
+            return name ? { start, end, name } : undefined;
+        }
+        depth--;
+    }
+
+    return undefined;
+}
+
+/**
+ * The root element's start tag.
+ */
+export function findRootTag(text: string): XmlTag | undefined {
+    const match = /<(?![?!/])([\w:.-]+)/.exec(text);
+    if (!match) {
+        return undefined;
+    }
+    const end = findTagEnd(text, match.index);
+    return end !== -1 ? { start: match.index, end, name: match[1] } : undefined;
+}
+
+/**
+ * The prefix declared for a namespace (`xmlns:prefix="uri"`), or the conventional one.
+ */
+export function namespacePrefix(text: string, namespaceUri: string): string {
+    const escaped = namespaceUri.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const declared = new RegExp(`xmlns:([\\w.-]+)\\s*=\\s*["']${escaped}["']`).exec(text);
+    return declared?.[1] ?? DEFAULT_PREFIXES[namespaceUri] ?? 'ns';
+}
+
+/**
+ * Read an attribute value from a start tag.
+ */
+export function getAttribute(text: string, tag: XmlTag, qualifiedName: string): string | undefined {
+    return findAttribute(text, tag, qualifiedName)?.value;
+}
+
+/**
+ * Replacement that sets, adds or (with `value` undefined) removes an attribute on a start tag.
+ * New attributes follow the layout of the existing ones: on their own line when the
+ * tag is multi-line, otherwise separated by a space.
+ */
+export function setAttribute(
+    text: string,
+    tag: XmlTag,
+    qualifiedName: string,
+    value: string | undefined
+): TextReplacement | undefined {
+    const existing = findAttribute(text, tag, qualifiedName);
+    if (existing) {
+        if (value === undefined) {
+            // Remove the attribute together with the whitespace before it
+            let start = existing.start;
+            while (start > tag.start && /\s/.test(text[start - 1])) {
+                start--;
+            }
+            return { start, end: existing.end, text: '' };
+        }
+        return { start: existing.valueStart, end: existing.valueEnd, text: escapeAttribute(value) };
+    }
+
+    if (value === undefined) {
+        return undefined;
+    }
+
+    // Insert after the last attribute (or the tag name)
+    const closeLength = text[tag.end - 1] === '/' ? 2 : 1;
+    let insertAt = tag.end + 1 - closeLength;
+    while (insertAt > tag.start && /\s/.test(text[insertAt - 1])) {
+        insertAt--;
+    }
+
+    const tagText = text.slice(tag.start, tag.end + 1);
+    const attribute = `${qualifiedName}="${escapeAttribute(value)}"`;
+    if (tagText.includes('\n')) {
+        const lastLineStart = text.lastIndexOf('\n', insertAt - 1) + 1;
+        const indent = /^[ \t]*/.exec(text.slice(lastLineStart))?.[0] ?? '';
+        const attributeIndent = lastLineStart > tag.start ? indent : `${indent}    `;
+        return { start: insertAt, end: insertAt, text: `\n${attributeIndent}${attribute}` };
+    }
+    return { start: insertAt, end: insertAt, text: ` ${attribute}` };
+}
+
+function findAttribute(
+    text: string,
+    tag: XmlTag,
+    qualifiedName: string
+): { start: number; end: number; valueStart: number; valueEnd: number; value: string } | undefined {
+    const tagText = text.slice(tag.start, tag.end + 1);
+    const escaped = qualifiedName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    // The value runs to the quote that opened it, so it may contain the other one
+    const match = new RegExp(`(^|\\s)${escaped}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`).exec(tagText);
+    if (!match) {
+        return undefined;
+    }
+
+    const value = match[2] ?? match[3];
+    const start = tag.start + match.index + match[1].length;
+    const end = tag.start + match.index + match[0].length;
+    return { start, end, valueStart: end - 1 - value.length, valueEnd: end - 1, value };
+}
+
+function findTagEnd(text: string, start: number): number {
+    let quote: string | undefined;
+    for (let i = start + 1; i < text.length; i++) {
+        const char = text[i];
+        if (quote) {
+            if (char === quote) {
+                quote = undefined;
+            }
+        } else if (char === '"' || char === '\'') {
+            quote = char;
+        } else if (char === '>') {
+            return i;
+        } else if (char === '<') {
+            return -1;
+        }
+    }
+    return -1;
+}
+
+function escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}